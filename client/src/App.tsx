@@ -30,10 +30,10 @@ function Router() {
         <Login />
       </Route>
       <Route path="/">
-        {!user ? <Login /> : user.role === 'admin' ? <AdminDashboard /> : <DriverDashboard />}
+        {!user ? <Login /> : user.role === 'driver' ? <DriverDashboard /> : <AdminDashboard />}
       </Route>
       <Route path="/admin">
-        {user?.role === 'admin' ? <AdminDashboard /> : <Login />}
+        {user?.role === 'admin' || user?.role === 'dispatcher' ? <AdminDashboard /> : <Login />}
       </Route>
       <Route path="/driver">
         {user?.role === 'driver' ? <DriverDashboard /> : <Login />}
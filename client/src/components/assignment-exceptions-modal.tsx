@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Assignment, AssignmentException } from "@shared/schema";
+import { describeRecurrence, formatShiftWindow } from "@shared/shifts";
+import { Plus, Trash2 } from "lucide-react";
+
+interface AssignmentExceptionsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  assignment: Assignment | null;
+  canManage: boolean;
+}
+
+export function AssignmentExceptionsModal({ isOpen, onClose, assignment, canManage }: AssignmentExceptionsModalProps) {
+  const { toast } = useToast();
+  const [date, setDate] = useState("");
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (isOpen) {
+      setDate("");
+      setReason("");
+    }
+  }, [isOpen]);
+
+  const queryKey = ['/api/assignments', assignment?.id, 'exceptions'];
+  const { data: exceptions = [], isLoading } = useQuery<AssignmentException[]>({
+    queryKey,
+    enabled: isOpen && !!assignment,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ['/api/shifts'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/roster'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/assignments/${assignment!.id}/exceptions`, { date, reason: reason || null }),
+    onSuccess: () => {
+      invalidate();
+      setDate("");
+      setReason("");
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error al agregar excepción",
+        description: error.message || "No se pudo agregar la excepción",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/assignment-exceptions/${id}`),
+    onSuccess: invalidate,
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "No se pudo eliminar la excepción",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Excepciones de la Asignación</DialogTitle>
+        </DialogHeader>
+
+        {assignment && (
+          <div className="space-y-4">
+            <div className="bg-gray-50 rounded-lg p-3 text-sm">
+              <p className="font-medium">Turno {formatShiftWindow(assignment)}</p>
+              <p className="text-gray-600">{describeRecurrence(assignment)}</p>
+            </div>
+
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Cargando excepciones...</p>
+            ) : exceptions.length === 0 ? (
+              <p className="text-sm text-gray-500">La asignación opera en todos los días de su recurrencia</p>
+            ) : (
+              <div className="space-y-2 max-h-60 overflow-y-auto">
+                {exceptions.map(exception => (
+                  <div key={exception.id} className="flex items-center justify-between p-2 border rounded-lg">
+                    <div className="text-sm">
+                      <p className="font-medium">{exception.date}</p>
+                      {exception.reason && <p className="text-gray-600">{exception.reason}</p>}
+                    </div>
+                    {canManage && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => deleteMutation.mutate(exception.id)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="w-4 h-4 text-red-600" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {canManage && (
+              <div className="space-y-3 border-t pt-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="exception-date">Fecha sin servicio</Label>
+                    <Input id="exception-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="exception-reason">Motivo (opcional)</Label>
+                    <Input id="exception-reason" value={reason} onChange={(e) => setReason(e.target.value)} />
+                  </div>
+                </div>
+                <Button
+                  type="button"
+                  onClick={() => createMutation.mutate()}
+                  disabled={!date || createMutation.isPending}
+                  data-testid="button-add-assignment-exception"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Agregar Excepción
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,24 +1,38 @@
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation } from "@tanstack/react-query";
-import { InsertAssignment, insertAssignmentSchema, User, Schedule, Bus } from "@shared/schema";
+import { keepPreviousData, useMutation, useQuery } from "@tanstack/react-query";
+import { AssignmentConflict, CreateAssignmentRequest, InsertAssignment, insertAssignmentSchema, PublicUser, Route, Bus } from "@shared/schema";
+import { crossesMidnight, dateInTimeZone, WEEKDAY_LABELS } from "@shared/shifts";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { X } from "lucide-react";
+import { Ban, TriangleAlert, X } from "lucide-react";
 
 interface AssignmentModalProps {
   isOpen: boolean;
   onClose: () => void;
-  drivers: User[];
-  schedules: Schedule[];
+  drivers: PublicUser[];
+  schedules: Route[];
   buses: Bus[];
 }
 
+// Días de la semana en orden lunes a domingo (0 = domingo)
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const busStatusLabels: Record<string, string> = {
+  en_servicio: "en servicio",
+  mantenimiento: "en mantenimiento",
+  fuera_de_servicio: "fuera de servicio",
+};
+
 export function AssignmentModal({ isOpen, onClose, drivers, schedules, buses }: AssignmentModalProps) {
   const { toast } = useToast();
 
@@ -28,17 +42,50 @@ export function AssignmentModal({ isOpen, onClose, drivers, schedules, buses }:
       driverId: "",
       scheduleId: "",
       busId: "",
-      assignedDate: new Date().toISOString().split('T')[0],
+      assignedDate: dateInTimeZone(),
       shiftStart: "06:00",
       shiftEnd: "14:00",
+      isRecurring: true,
+      daysOfWeek: WEEK_ORDER,
+      validUntil: null,
+      skipHolidays: false,
       isActive: true,
     },
   });
 
+  const [override, setOverride] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) setOverride(false);
+  }, [isOpen]);
+
+  // Verificar conflictos mientras se completa el formulario
+  const values = form.watch();
+  const canCheck = isOpen && !!values.driverId && !!values.scheduleId && !!values.busId && !!values.shiftStart && !!values.shiftEnd;
+  const { data: conflictCheck, isFetching: isCheckingConflicts } = useQuery<{ conflicts: AssignmentConflict[] }>({
+    queryKey: [
+      '/api/assignments/conflicts', values.driverId, values.scheduleId, values.busId, values.assignedDate,
+      values.shiftStart, values.shiftEnd, values.isRecurring, values.daysOfWeek?.join(","), values.validUntil, values.skipHolidays,
+    ],
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/assignments/conflicts", values);
+      return res.json();
+    },
+    enabled: canCheck,
+    placeholderData: keepPreviousData,
+  });
+
+  const conflicts = canCheck ? conflictCheck?.conflicts ?? [] : [];
+  const blockingConflicts = conflicts.filter(c => !c.overridable);
+  const warningConflicts = conflicts.filter(c => c.overridable);
+  const canSubmitWithConflicts = blockingConflicts.length === 0 && (warningConflicts.length === 0 || override);
+
   const createMutation = useMutation({
-    mutationFn: (data: InsertAssignment) => apiRequest("POST", "/api/assignments", data),
+    mutationFn: (data: CreateAssignmentRequest) => apiRequest("POST", "/api/assignments", data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/shifts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/roster'] });
       queryClient.invalidateQueries({ queryKey: ['/api/drivers'] });
       toast({ 
         title: "Asignación creada exitosamente",
@@ -48,23 +95,30 @@ export function AssignmentModal({ isOpen, onClose, drivers, schedules, buses }:
       form.reset();
     },
     onError: (error: any) => {
+      // Otro cambio pudo generar conflictos después de la última verificación
+      const isConflict = error.message?.startsWith("409");
+      if (isConflict) {
+        queryClient.invalidateQueries({ queryKey: ['/api/assignments/conflicts'] });
+      }
       toast({
         variant: "destructive",
         title: "Error al crear asignación",
-        description: error.message || "No se pudo crear la asignación",
+        description: isConflict
+          ? "La asignación tiene conflictos. Revise el detalle en el formulario."
+          : error.message || "No se pudo crear la asignación",
       });
     },
   });
 
   const onSubmit = (data: InsertAssignment) => {
-    createMutation.mutate(data);
+    createMutation.mutate({ ...data, override: warningConflicts.length > 0 && override });
   };
 
   const selectedSchedule = schedules.find(s => s.id === form.watch("scheduleId"));
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-2xl">
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <div className="flex justify-between items-center">
             <DialogTitle className="text-2xl font-semibold text-gray-800">
@@ -116,9 +170,10 @@ export function AssignmentModal({ isOpen, onClose, drivers, schedules, buses }:
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      {schedules.filter(s => s.isActive).map((schedule) => (
+                      {schedules.map((schedule) => (
                         <SelectItem key={schedule.id} value={schedule.id}>
                           Ruta {schedule.routeNumber} - {schedule.routeName}
+                          {!schedule.isActive && " (inactiva)"}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -141,9 +196,10 @@ export function AssignmentModal({ isOpen, onClose, drivers, schedules, buses }:
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      {buses.filter(b => b.isActive && b.status === 'disponible').map((bus) => (
+                      {buses.filter(b => b.isActive).map((bus) => (
                         <SelectItem key={bus.id} value={bus.id}>
                           {bus.plateNumber} - Unidad #{bus.busNumber} ({bus.model})
+                          {busStatusLabels[bus.status] && ` · ${busStatusLabels[bus.status]}`}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -155,22 +211,120 @@ export function AssignmentModal({ isOpen, onClose, drivers, schedules, buses }:
 
             <FormField
               control={form.control}
-              name="assignedDate"
+              name="isRecurring"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Fecha de Asignación</FormLabel>
-                  <FormControl>
-                    <Input 
-                      type="date" 
-                      {...field}
-                      disabled={createMutation.isPending}
-                    />
-                  </FormControl>
+                  <FormLabel>Tipo de Asignación</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(value === "recurrente")}
+                    value={field.value === false ? "unica" : "recurrente"}
+                  >
+                    <FormControl>
+                      <SelectTrigger disabled={createMutation.isPending} data-testid="select-assignment-recurrence">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="recurrente">Recurrente</SelectItem>
+                      <SelectItem value="unica">Fecha única</SelectItem>
+                    </SelectContent>
+                  </Select>
                   <FormMessage />
                 </FormItem>
               )}
             />
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <FormField
+                control={form.control}
+                name="assignedDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{values.isRecurring === false ? "Fecha de Asignación" : "Vigente desde"}</FormLabel>
+                    <FormControl>
+                      <Input 
+                        type="date" 
+                        {...field}
+                        disabled={createMutation.isPending}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {values.isRecurring !== false && (
+                <FormField
+                  control={form.control}
+                  name="validUntil"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Vigente hasta (opcional)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="date"
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value || null)}
+                          disabled={createMutation.isPending}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            {values.isRecurring !== false && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="daysOfWeek"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Días de operación</FormLabel>
+                      <div className="flex flex-wrap gap-4">
+                        {WEEK_ORDER.map((day) => (
+                          <div key={day} className="flex items-center space-x-2">
+                            <Checkbox
+                              id={`assignment-day-${day}`}
+                              checked={field.value?.includes(day) ?? true}
+                              onCheckedChange={(checked) => {
+                                const current = field.value ?? WEEK_ORDER;
+                                field.onChange(checked === true
+                                  ? WEEK_ORDER.filter(d => d === day || current.includes(d))
+                                  : current.filter(d => d !== day));
+                              }}
+                              disabled={createMutation.isPending}
+                            />
+                            <Label htmlFor={`assignment-day-${day}`} className="font-normal">{WEEKDAY_LABELS[day]}</Label>
+                          </div>
+                        ))}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="skipHolidays"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center space-x-3 space-y-0">
+                      <FormControl>
+                        <Switch
+                          checked={field.value ?? false}
+                          onCheckedChange={field.onChange}
+                          disabled={createMutation.isPending}
+                        />
+                      </FormControl>
+                      <FormLabel className="font-normal">No operar en feriados</FormLabel>
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <FormField
                 control={form.control}
@@ -209,6 +363,12 @@ export function AssignmentModal({ isOpen, onClose, drivers, schedules, buses }:
               />
             </div>
 
+            {values.shiftStart && values.shiftEnd && crossesMidnight(values) && (
+              <p className="text-sm text-blue-600 -mt-3">
+                Turno nocturno: termina al día siguiente a las {values.shiftEnd}
+              </p>
+            )}
+
             {selectedSchedule && (
               <div className="bg-gray-50 rounded-lg p-4">
                 <h4 className="font-medium text-gray-800 mb-2">Información de la Ruta</h4>
@@ -223,6 +383,40 @@ export function AssignmentModal({ isOpen, onClose, drivers, schedules, buses }:
               </div>
             )}
 
+            {conflicts.length > 0 && (
+              <div className="space-y-2" data-testid="assignment-conflicts">
+                {blockingConflicts.map((conflict, i) => (
+                  <div key={`block-${i}`} className="flex items-start gap-2 rounded-lg border border-red-300 bg-red-50 p-3 text-sm text-red-700">
+                    <Ban className="w-4 h-4 mt-0.5 shrink-0" />
+                    <span>{conflict.message}</span>
+                  </div>
+                ))}
+                {warningConflicts.map((conflict, i) => (
+                  <div key={`warn-${i}`} className="flex items-start gap-2 rounded-lg border border-orange-300 bg-orange-50 p-3 text-sm text-orange-700">
+                    <TriangleAlert className="w-4 h-4 mt-0.5 shrink-0" />
+                    <span>{conflict.message}</span>
+                  </div>
+                ))}
+                {blockingConflicts.length > 0 ? (
+                  <p className="text-xs text-gray-600">
+                    Los traslapes de horario deben corregirse antes de crear la asignación.
+                  </p>
+                ) : (
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="assignment-override"
+                      checked={override}
+                      onCheckedChange={(checked) => setOverride(checked === true)}
+                      data-testid="checkbox-assignment-override"
+                    />
+                    <Label htmlFor="assignment-override" className="font-normal">
+                      Crear la asignación de todos modos
+                    </Label>
+                  </div>
+                )}
+              </div>
+            )}
+
             <div className="flex space-x-4">
               <Button 
                 type="button" 
@@ -236,7 +430,7 @@ export function AssignmentModal({ isOpen, onClose, drivers, schedules, buses }:
               <Button 
                 type="submit" 
                 className="flex-1 bg-primary hover:bg-primary-dark"
-                disabled={createMutation.isPending || drivers.length === 0 || schedules.length === 0}
+                disabled={createMutation.isPending || isCheckingConflicts || !canSubmitWithConflicts || drivers.length === 0 || schedules.length === 0}
               >
                 {createMutation.isPending ? "Creando..." : "Crear Asignación"}
               </Button>
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AttendanceRecord, EffectiveShift } from "@shared/schema";
+import { formatShiftWindow, minutesSinceShiftStart, minutesToTime, shiftDurationMinutes, timeToMinutes } from "@shared/shifts";
+import { capturePosition } from "@/lib/geolocation";
+import { LogIn, LogOut, UserCheck } from "lucide-react";
+
+// Debe coincidir con la ventana de entrada del servidor
+const CHECK_IN_EARLY_MINUTES = 60;
+
+interface AttendanceCardProps {
+  driverId: string;
+  currentShift: EffectiveShift | null;
+  nextShift: EffectiveShift | null;
+}
+
+const formatTime = (value: Date | string) =>
+  new Date(value).toLocaleTimeString("es-GT", { hour: "2-digit", minute: "2-digit" });
+
+export function AttendanceCard({ driverId, currentShift, nextShift }: AttendanceCardProps) {
+  const { toast } = useToast();
+  const [isCapturing, setIsCapturing] = useState(false);
+
+  const { data: records = [] } = useQuery<AttendanceRecord[]>({
+    queryKey: ['/api/attendance/driver', driverId],
+    refetchInterval: 60000,
+  });
+
+  // Se marca el turno en curso o, si aún no empieza, el siguiente cuando ya está cerca.
+  // Una entrada sin salida tiene prioridad para que el chofer pueda cerrarla aunque el turno haya terminado.
+  const shift = currentShift ?? nextShift;
+  const record = records.find(r => !r.checkOutAt)
+    ?? (shift ? records.find(r => r.assignmentId === shift.id && r.shiftDate === shift.shiftDate) : undefined);
+  const displayed = record ?? shift;
+  const elapsed = shift ? minutesSinceShiftStart(shift) : 0;
+  const canCheckIn = !!shift && elapsed >= -CHECK_IN_EARLY_MINUTES && elapsed < shiftDurationMinutes(shift);
+
+  const onError = (title: string) => (error: any) => {
+    toast({ variant: "destructive", title, description: error.message });
+  };
+
+  const checkInMutation = useMutation({
+    mutationFn: async () => {
+      setIsCapturing(true);
+      const position = await capturePosition().finally(() => setIsCapturing(false));
+      const res = await apiRequest("POST", "/api/attendance/check-in", {
+        assignmentId: shift!.id,
+        shiftDate: shift!.shiftDate,
+        ...position,
+      });
+      return res.json() as Promise<AttendanceRecord>;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/attendance'] });
+      toast({
+        title: "Entrada registrada",
+        description: created.lateMinutes > 0 ? `Llegó ${created.lateMinutes} minutos tarde` : "Llegó a tiempo",
+      });
+    },
+    onError: onError("No se pudo marcar entrada"),
+  });
+
+  const checkOutMutation = useMutation({
+    mutationFn: async () => {
+      setIsCapturing(true);
+      const position = await capturePosition().finally(() => setIsCapturing(false));
+      return apiRequest("POST", `/api/attendance/${record!.id}/check-out`, position);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/attendance'] });
+      toast({ title: "Salida registrada", description: "Su turno quedó cerrado" });
+    },
+    onError: onError("No se pudo marcar salida"),
+  });
+
+  const isPending = isCapturing || checkInMutation.isPending || checkOutMutation.isPending;
+
+  return (
+    <Card>
+      <CardContent className="p-4 sm:p-6">
+        <div className="flex items-center space-x-2 mb-4">
+          <UserCheck className="w-5 h-5 text-secondary" />
+          <h3 className="text-lg font-semibold text-gray-800">Asistencia</h3>
+        </div>
+
+        {!displayed ? (
+          <p className="text-sm text-gray-500">No tiene turnos próximos para marcar</p>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Turno del {displayed.shiftDate}: <span className="font-medium">{formatShiftWindow(displayed)}</span>
+            </p>
+
+            {!record && shift ? (
+              <>
+                <Button
+                  onClick={() => checkInMutation.mutate()}
+                  disabled={!canCheckIn || isPending}
+                  className="w-full sm:w-auto"
+                  data-testid="button-check-in"
+                >
+                  <LogIn className="w-4 h-4 mr-2" />
+                  {isCapturing ? "Obteniendo ubicación..." : "Marcar entrada"}
+                </Button>
+                {!canCheckIn && elapsed < 0 && (
+                  <p className="text-xs text-gray-500">
+                    Podrá marcar entrada desde las {minutesToTime(timeToMinutes(shift.shiftStart) - CHECK_IN_EARLY_MINUTES)}
+                  </p>
+                )}
+              </>
+            ) : record && (
+              <>
+                <p className="text-sm">
+                  Entrada: <span className="font-medium">{formatTime(record.checkInAt)}</span>
+                  {record.lateMinutes > 0 && (
+                    <span className="text-orange-600 ml-2">({record.lateMinutes} min tarde)</span>
+                  )}
+                </p>
+                {record.checkOutAt ? (
+                  <p className="text-sm">
+                    Salida: <span className="font-medium">{formatTime(record.checkOutAt)}</span>
+                  </p>
+                ) : (
+                  <Button
+                    variant="outline"
+                    onClick={() => checkOutMutation.mutate()}
+                    disabled={isPending}
+                    className="w-full sm:w-auto"
+                    data-testid="button-check-out"
+                  >
+                    <LogOut className="w-4 h-4 mr-2" />
+                    {isCapturing ? "Obteniendo ubicación..." : "Marcar salida"}
+                  </Button>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { AttendanceReportResponse, AttendanceStatus, PublicUser, Route } from "@shared/schema";
+import { addDays, dateInTimeZone, formatShiftWindow } from "@shared/shifts";
+import { MapPin } from "lucide-react";
+
+interface AttendanceReportProps {
+  drivers: PublicUser[];
+  schedules: Route[];
+}
+
+const STATUS_LABELS: Record<AttendanceStatus, { label: string; className: string }> = {
+  a_tiempo: { label: "A tiempo", className: "bg-green-100 text-green-800" },
+  tarde: { label: "Tarde", className: "bg-orange-100 text-orange-800" },
+  ausente: { label: "Ausente", className: "bg-red-100 text-red-800" },
+  pendiente: { label: "Pendiente", className: "bg-gray-100 text-gray-700" },
+};
+
+const formatTime = (value: Date | string | null) =>
+  value ? new Date(value).toLocaleTimeString("es-GT", { hour: "2-digit", minute: "2-digit" }) : "—";
+
+const mapLink = (latitude: string | null, longitude: string | null) =>
+  latitude && longitude ? `https://www.google.com/maps?q=${latitude},${longitude}` : null;
+
+export function AttendanceReport({ drivers, schedules }: AttendanceReportProps) {
+  const today = dateInTimeZone();
+  const [from, setFrom] = useState(() => addDays(today, -6));
+  const [to, setTo] = useState(today);
+  const [driverFilter, setDriverFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState<AttendanceStatus | "all">("all");
+
+  const { data: report, isLoading, error } = useQuery<AttendanceReportResponse>({
+    queryKey: ['/api/attendance/report', from, to],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/attendance/report?from=${from}&to=${to}`);
+      return res.json();
+    },
+    enabled: !!from && !!to && to >= from,
+    refetchInterval: 60000,
+  });
+
+  const driverName = (id: string) => drivers.find(d => d.id === id)?.fullName ?? "Chofer";
+  const routeLabel = (id: string | null) => {
+    const route = schedules.find(s => s.id === id);
+    return route ? `Ruta ${route.routeNumber}` : "—";
+  };
+
+  const rows = (report?.rows ?? []).filter(row =>
+    (driverFilter === "all" || row.driverId === driverFilter) &&
+    (statusFilter === "all" || row.status === statusFilter)
+  );
+  const counts = (report?.rows ?? [])
+    .filter(row => driverFilter === "all" || row.driverId === driverFilter)
+    .reduce((acc, row) => ({ ...acc, [row.status]: (acc[row.status] || 0) + 1 }), {} as Partial<Record<AttendanceStatus, number>>);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {(Object.keys(STATUS_LABELS) as AttendanceStatus[]).map(status => (
+          <Card key={status}>
+            <CardContent className="p-4">
+              <p className="text-sm text-gray-600">{STATUS_LABELS[status].label}</p>
+              <p className="text-2xl font-bold">{counts[status] || 0}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardContent className="p-4 sm:p-6">
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 mb-4">
+            <div className="space-y-1">
+              <Label htmlFor="attendance-from">Desde</Label>
+              <Input id="attendance-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="attendance-to">Hasta</Label>
+              <Input id="attendance-to" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Chofer</Label>
+              <Select value={driverFilter} onValueChange={setDriverFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos</SelectItem>
+                  {drivers.map(driver => (
+                    <SelectItem key={driver.id} value={driver.id}>{driver.fullName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Estado</Label>
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as AttendanceStatus | "all")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos</SelectItem>
+                  {(Object.keys(STATUS_LABELS) as AttendanceStatus[]).map(status => (
+                    <SelectItem key={status} value={status}>{STATUS_LABELS[status].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Cargando asistencia...</p>
+          ) : error ? (
+            <p className="text-sm text-red-600">{(error as Error).message}</p>
+          ) : rows.length === 0 ? (
+            <p className="text-sm text-gray-500">No hay turnos en el periodo seleccionado</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-600">
+                    <th className="py-2 pr-4">Fecha</th>
+                    <th className="py-2 pr-4">Chofer</th>
+                    <th className="py-2 pr-4">Ruta</th>
+                    <th className="py-2 pr-4">Turno</th>
+                    <th className="py-2 pr-4">Entrada</th>
+                    <th className="py-2 pr-4">Salida</th>
+                    <th className="py-2">Estado</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => {
+                    const checkInMap = mapLink(row.record?.checkInLatitude ?? null, row.record?.checkInLongitude ?? null);
+                    const checkOutMap = mapLink(row.record?.checkOutLatitude ?? null, row.record?.checkOutLongitude ?? null);
+                    return (
+                      <tr key={`${row.assignmentId ?? row.record?.id}-${row.shiftDate}`} className="border-b">
+                        <td className="py-2 pr-4">{row.shiftDate}</td>
+                        <td className="py-2 pr-4 font-medium">{driverName(row.driverId)}</td>
+                        <td className="py-2 pr-4">{routeLabel(row.scheduleId)}</td>
+                        <td className="py-2 pr-4">{formatShiftWindow(row)}</td>
+                        <td className="py-2 pr-4">
+                          <span className="inline-flex items-center">
+                            {formatTime(row.record?.checkInAt ?? null)}
+                            {checkInMap && (
+                              <a href={checkInMap} target="_blank" rel="noreferrer" className="ml-1 text-blue-600" title="Ver ubicación">
+                                <MapPin className="w-3 h-3" />
+                              </a>
+                            )}
+                          </span>
+                        </td>
+                        <td className="py-2 pr-4">
+                          <span className="inline-flex items-center">
+                            {formatTime(row.record?.checkOutAt ?? null)}
+                            {checkOutMap && (
+                              <a href={checkOutMap} target="_blank" rel="noreferrer" className="ml-1 text-blue-600" title="Ver ubicación">
+                                <MapPin className="w-3 h-3" />
+                              </a>
+                            )}
+                          </span>
+                        </td>
+                        <td className="py-2">
+                          <Badge className={STATUS_LABELS[row.status].className}>
+                            {STATUS_LABELS[row.status].label}
+                            {row.status === "tarde" && row.record && ` (${row.record.lateMinutes} min)`}
+                          </Badge>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
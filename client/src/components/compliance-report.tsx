@@ -0,0 +1,213 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ComplianceLimits, ComplianceReportResponse, PublicUser } from "@shared/schema";
+import { addDays, dateInTimeZone, startOfWeek } from "@shared/shifts";
+import { ChevronDown, ChevronRight, Save, ShieldCheck } from "lucide-react";
+
+interface ComplianceReportProps {
+  drivers: PublicUser[];
+  canManage: boolean;
+}
+
+const formatHours = (minutes: number) => `${(minutes / 60).toFixed(1)} h`;
+
+export function ComplianceReport({ drivers, canManage }: ComplianceReportProps) {
+  const { toast } = useToast();
+  const [from, setFrom] = useState(() => startOfWeek(dateInTimeZone()));
+  const [to, setTo] = useState(() => addDays(startOfWeek(dateInTimeZone()), 6));
+  const [expandedDriver, setExpandedDriver] = useState<string | null>(null);
+  const [limitsForm, setLimitsForm] = useState({ maxDailyHours: 8, maxWeeklyHours: 48, minRestHours: 10 });
+
+  const { data: limits } = useQuery<ComplianceLimits>({
+    queryKey: ['/api/compliance/limits'],
+  });
+
+  useEffect(() => {
+    if (limits) {
+      setLimitsForm({ maxDailyHours: limits.maxDailyHours, maxWeeklyHours: limits.maxWeeklyHours, minRestHours: limits.minRestHours });
+    }
+  }, [limits]);
+
+  const { data: report, isLoading, error } = useQuery<ComplianceReportResponse>({
+    queryKey: ['/api/compliance/report', from, to],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/compliance/report?from=${from}&to=${to}`);
+      return res.json();
+    },
+    enabled: !!from && !!to && to >= from,
+  });
+
+  const limitsMutation = useMutation({
+    mutationFn: () => apiRequest("PUT", "/api/compliance/limits", limitsForm),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/compliance'] });
+      toast({ title: "Límites actualizados", description: "Los nuevos límites se aplican a las próximas asignaciones" });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Error al guardar los límites", description: error.message });
+    },
+  });
+
+  const driverName = (id: string) => drivers.find(d => d.id === id)?.fullName ?? "Chofer";
+  const rows = [...(report?.drivers ?? [])].sort((a, b) => b.violations.length - a.violations.length);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="p-4 sm:p-6">
+          <div className="flex items-center space-x-2 mb-4">
+            <ShieldCheck className="w-5 h-5 text-green-600" />
+            <h3 className="text-lg font-semibold">Límites de Jornada</h3>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+            <div className="space-y-1">
+              <Label htmlFor="limit-daily">Máximo diario (h)</Label>
+              <Input
+                id="limit-daily"
+                type="number"
+                min={1}
+                max={24}
+                step={0.5}
+                value={limitsForm.maxDailyHours}
+                disabled={!canManage}
+                onChange={(e) => setLimitsForm({ ...limitsForm, maxDailyHours: Number(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="limit-weekly">Máximo semanal (h)</Label>
+              <Input
+                id="limit-weekly"
+                type="number"
+                min={1}
+                max={168}
+                value={limitsForm.maxWeeklyHours}
+                disabled={!canManage}
+                onChange={(e) => setLimitsForm({ ...limitsForm, maxWeeklyHours: Number(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="limit-rest">Descanso mínimo (h)</Label>
+              <Input
+                id="limit-rest"
+                type="number"
+                min={0}
+                max={48}
+                step={0.5}
+                value={limitsForm.minRestHours}
+                disabled={!canManage}
+                onChange={(e) => setLimitsForm({ ...limitsForm, minRestHours: Number(e.target.value) })}
+              />
+            </div>
+            {canManage && (
+              <Button onClick={() => limitsMutation.mutate()} disabled={limitsMutation.isPending} data-testid="button-save-compliance-limits">
+                <Save className="w-4 h-4 mr-2" />
+                Guardar
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-4 sm:p-6">
+          <div className="flex flex-col sm:flex-row sm:items-end gap-3 mb-4">
+            <div className="space-y-1">
+              <Label htmlFor="compliance-from">Desde</Label>
+              <Input id="compliance-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="compliance-to">Hasta</Label>
+              <Input id="compliance-to" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Calculando horas...</p>
+          ) : error ? (
+            <p className="text-sm text-red-600">{(error as Error).message}</p>
+          ) : rows.length === 0 ? (
+            <p className="text-sm text-gray-500">No hay choferes registrados</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-600">
+                    <th className="py-2 pr-2"></th>
+                    <th className="py-2 pr-4">Chofer</th>
+                    <th className="py-2 pr-4">Programadas</th>
+                    <th className="py-2 pr-4">Trabajadas</th>
+                    <th className="py-2">Incumplimientos</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => {
+                    const scheduled = row.days.reduce((total, day) => total + day.scheduledMinutes, 0);
+                    const worked = row.days.reduce((total, day) => total + day.workedMinutes, 0);
+                    const expanded = expandedDriver === row.driverId;
+
+                    return [
+                      <tr
+                        key={row.driverId}
+                        className="border-b cursor-pointer hover:bg-gray-50"
+                        onClick={() => setExpandedDriver(expanded ? null : row.driverId)}
+                        data-testid={`compliance-row-${row.driverId}`}
+                      >
+                        <td className="py-2 pr-2">
+                          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        </td>
+                        <td className="py-2 pr-4 font-medium">{driverName(row.driverId)}</td>
+                        <td className="py-2 pr-4">{formatHours(scheduled)}</td>
+                        <td className="py-2 pr-4">{formatHours(worked)}</td>
+                        <td className="py-2">
+                          {row.violations.length > 0 ? (
+                            <Badge variant="destructive">{row.violations.length}</Badge>
+                          ) : (
+                            <Badge variant="outline" className="text-green-700 border-green-300">En regla</Badge>
+                          )}
+                        </td>
+                      </tr>,
+                      expanded && (
+                        <tr key={`${row.driverId}-detail`} className="border-b bg-gray-50">
+                          <td></td>
+                          <td colSpan={4} className="py-3 pr-4 space-y-3">
+                            <div className="flex flex-wrap gap-2">
+                              {row.days.map(day => (
+                                <div key={day.date} className="border rounded px-2 py-1 bg-white text-xs">
+                                  <p className="font-medium">{day.date}</p>
+                                  <p className="text-gray-600">
+                                    {formatHours(day.scheduledMinutes)} prog. · {formatHours(day.workedMinutes)} real
+                                  </p>
+                                </div>
+                              ))}
+                            </div>
+                            {row.weeks.map(week => (
+                              <p key={week.weekStart} className="text-xs text-gray-600">
+                                Semana del {week.weekStart}: {formatHours(week.scheduledMinutes)} programadas, {formatHours(week.workedMinutes)} trabajadas
+                              </p>
+                            ))}
+                            {row.violations.map((violation, i) => (
+                              <p key={i} className="text-xs text-red-700">
+                                • [{violation.source}] {violation.message}
+                              </p>
+                            ))}
+                          </td>
+                        </tr>
+                      ),
+                    ];
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
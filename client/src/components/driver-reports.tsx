@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Report, ReportCategory, ReportUnreadCount } from "@shared/schema";
+import { ChevronDown, ChevronUp, MessageCircle } from "lucide-react";
+import { ReportCategoryIcon } from "@/components/report-categories";
+import { ReportModal } from "@/components/report-modal";
+import { ReportStatusBadge } from "@/components/report-status";
+import { ReportThread } from "@/components/report-thread";
+
+interface DriverReportsProps {
+  driverId: string;
+}
+
+const formatDateTime = (value: Date | string | null) =>
+  value
+    ? new Date(value).toLocaleString("es-GT", {
+        timeZone: "America/Guatemala",
+        day: "2-digit",
+        month: "2-digit",
+        year: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+      })
+    : "-";
+
+export function DriverReports({ driverId }: DriverReportsProps) {
+  const [openReportId, setOpenReportId] = useState<string | null>(null);
+
+  const { data: reports = [], isLoading } = useQuery<Report[]>({
+    queryKey: ['/api/reports/driver', driverId],
+  });
+
+  const { data: unreadCounts = [] } = useQuery<ReportUnreadCount[]>({
+    queryKey: ['/api/reports/unread-counts'],
+  });
+  const { data: categories = [] } = useQuery<ReportCategory[]>({
+    queryKey: ['/api/report-categories'],
+  });
+
+  const unreadFor = (reportId: string) => unreadCounts.find(c => c.reportId === reportId)?.unreadCount ?? 0;
+
+  const sortedReports = [...reports].sort((a, b) =>
+    new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime()
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="p-4 sm:p-6">
+          <ReportModal driverId={driverId} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-4 sm:p-6 space-y-3">
+          <h3 className="text-lg font-semibold text-gray-800">Mis reportes</h3>
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Cargando reportes...</p>
+          ) : sortedReports.length === 0 ? (
+            <p className="text-sm text-gray-500">No ha enviado reportes</p>
+          ) : (
+            sortedReports.map(report => {
+              const unread = unreadFor(report.id);
+              const isOpen = openReportId === report.id;
+              const category = categories.find(c => c.key === report.type);
+              return (
+                <div key={report.id} className="border rounded-lg p-3 space-y-2" data-testid={`driver-report-${report.id}`}>
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="text-sm space-y-1 min-w-0">
+                      <p className="font-medium flex items-center">
+                        <ReportCategoryIcon icon={category?.icon} className="w-4 h-4 mr-1" />
+                        {category?.name ?? report.type}
+                      </p>
+                      <p className="text-gray-600 line-clamp-2">{report.description}</p>
+                      <p className="text-xs text-gray-500">{formatDateTime(report.createdAt)}</p>
+                    </div>
+                    <ReportStatusBadge status={report.status} />
+                  </div>
+                  {report.resolutionNotes && (
+                    <p className="text-xs text-gray-600">Resolución: {report.resolutionNotes}</p>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setOpenReportId(isOpen ? null : report.id)}
+                    data-testid={`button-toggle-thread-${report.id}`}
+                  >
+                    <MessageCircle className="w-4 h-4 mr-1" />
+                    Mensajes
+                    {unread > 0 && (
+                      <span className="ml-2 bg-red-500 text-white text-xs rounded-full px-2">{unread}</span>
+                    )}
+                    {isOpen ? <ChevronUp className="w-4 h-4 ml-1" /> : <ChevronDown className="w-4 h-4 ml-1" />}
+                  </Button>
+                  {isOpen && <ReportThread reportId={report.id} canReply />}
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useEffect, useRef, useState } from 'react';
 import { Loader } from '@googlemaps/js-api-loader';
-import { Location } from '@shared/schema';
+import { Location, Stop } from '@shared/schema';
+import { formatLastSeen } from '@/lib/utils';
 
 // Definición de tipos básicos para Google Maps
 interface GoogleMapsApi {
@@ -11,23 +12,107 @@ interface GoogleMapsApi {
     LatLngBounds: any;
     Size: any;
     Point: any;
+    Polyline: any;
   };
 }
 
 declare const google: GoogleMapsApi;
 
+export interface MapPoint {
+  lat: number;
+  lng: number;
+}
+
+// Marcador del modo reproducción: posición del bus en el instante seleccionado
+export interface PlaybackMarker {
+  position: MapPoint;
+  title: string;
+  color?: string;
+}
+
+// Trazado de una ruta dibujado con su color
+export interface RouteShape {
+  id: string;
+  path: MapPoint[];
+  color: string;
+  title?: string;
+}
+
+// Reporte de incidente con ubicación, mostrado como pin de advertencia
+export interface ReportPin {
+  id: string;
+  position: MapPoint;
+  title: string;
+  description: string;
+  createdAt: string | Date | null;
+}
+
 interface GoogleMapProps {
   locations: Location[];
   center?: { lat: number; lng: number };
   zoom?: number;
   className?: string;
+  track?: MapPoint[];
+  playbackMarker?: PlaybackMarker | null;
+  stops?: Stop[];
+  routeShapes?: RouteShape[];
+  reportPins?: ReportPin[];
+  onMapClick?: (point: MapPoint) => void;
 }
 
 // Clave de API de Google Maps - debe configurarse en variables de entorno
 const GOOGLE_MAPS_API_KEY = import.meta.env.VITE_GOOGLE_MAPS_API_KEY || '';
 
-export function GoogleMap({ locations, center, zoom = 13, className = "w-full h-96" }: GoogleMapProps) {
+// El texto de los reportes lo escriben los choferes: escaparlo antes de insertarlo en el InfoWindow
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+// Ícono de advertencia para los reportes de incidentes
+const reportMarkerIcon = () => ({
+  url: 'data:image/svg+xml;charset=UTF-8,' + encodeURIComponent(`
+    <svg width="28" height="28" viewBox="0 0 28 28" fill="none" xmlns="http://www.w3.org/2000/svg">
+      <path d="M14 3 L26 24 H2 Z" fill="#f97316" stroke="white" stroke-width="2" stroke-linejoin="round"/>
+      <rect x="13" y="10" width="2" height="7" fill="white"/>
+      <rect x="13" y="19" width="2" height="2" fill="white"/>
+    </svg>
+  `),
+  scaledSize: new (google as any).maps.Size(28, 28),
+  anchor: new (google as any).maps.Point(14, 24)
+});
+
+// Ícono circular de bus para un color dado
+const busMarkerIcon = (color: string) => ({
+  url: 'data:image/svg+xml;charset=UTF-8,' + encodeURIComponent(`
+    <svg width="32" height="32" viewBox="0 0 32 32" fill="none" xmlns="http://www.w3.org/2000/svg">
+      <circle cx="16" cy="16" r="12" fill="${color}" stroke="#ffffff" stroke-width="2"/>
+      <path d="M10 16l4 4 8-8" stroke="#ffffff" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/>
+    </svg>
+  `),
+  scaledSize: new (google as any).maps.Size(32, 32),
+  anchor: new (google as any).maps.Point(16, 16)
+});
+
+// Ícono cuadrado de parada de bus
+const stopMarkerIcon = () => ({
+  url: 'data:image/svg+xml;charset=UTF-8,' + encodeURIComponent(`
+    <svg width="20" height="20" viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg">
+      <rect x="2" y="2" width="16" height="16" rx="3" fill="#1e40af" stroke="#ffffff" stroke-width="2"/>
+      <text x="10" y="14" text-anchor="middle" font-family="Arial" font-size="10" font-weight="bold" fill="#ffffff">P</text>
+    </svg>
+  `),
+  scaledSize: new (google as any).maps.Size(20, 20),
+  anchor: new (google as any).maps.Point(10, 10)
+});
+
+export function GoogleMap({ locations, center, zoom = 13, className = "w-full h-96", track, playbackMarker, stops, routeShapes, reportPins, onMapClick }: GoogleMapProps) {
   const mapRef = useRef<HTMLDivElement>(null);
+  const stopMarkersRef = useRef<any[]>([]);
+  const reportMarkersRef = useRef<any[]>([]);
+  const routeLinesRef = useRef<any[]>([]);
+  const onMapClickRef = useRef(onMapClick);
+  onMapClickRef.current = onMapClick;
+  const trackLineRef = useRef<any>(null);
+  const playbackMarkerRef = useRef<any>(null);
   const [map, setMap] = useState<any>(null);
   const [markers, setMarkers] = useState<any[]>([]);
   const [isLoaded, setIsLoaded] = useState(false);
@@ -96,30 +181,29 @@ export function GoogleMap({ locations, center, zoom = 13, className = "w-full h-
           lng: parseFloat(location.longitude)
         };
 
+        // Sin señal: marcador gris con la antigüedad de la última posición conocida
+        const signalLost = !!location.signalLostAt;
+        const lastSeen = formatLastSeen(location.timestamp);
+
         const marker = new (google as any).maps.Marker({
           position,
           map,
-          title: `Chofer ID: ${location.driverId}`,
-          icon: {
-            url: 'data:image/svg+xml;charset=UTF-8,' + encodeURIComponent(`
-              <svg width="32" height="32" viewBox="0 0 32 32" fill="none" xmlns="http://www.w3.org/2000/svg">
-                <circle cx="16" cy="16" r="12" fill="#22c55e" stroke="#ffffff" stroke-width="2"/>
-                <path d="M10 16l4 4 8-8" stroke="#ffffff" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/>
-              </svg>
-            `),
-            scaledSize: new (google as any).maps.Size(32, 32),
-            anchor: new (google as any).maps.Point(16, 16)
-          }
+          title: signalLost ? `Señal perdida - última señal ${lastSeen}` : `Chofer ID: ${location.driverId}`,
+          icon: busMarkerIcon(signalLost ? '#9ca3af' : '#22c55e')
         });
 
         // Ventana de información
         const infoWindow = new (google as any).maps.InfoWindow({
           content: `
             <div class="p-3 min-w-48">
-              <h3 class="font-semibold text-sm mb-2 text-green-700">🚌 Chofer en Servicio</h3>
+              <h3 class="font-semibold text-sm mb-2 ${signalLost ? 'text-gray-600' : 'text-green-700'}">
+                ${signalLost ? '📡 Señal perdida' : '🚌 Chofer en Servicio'}
+              </h3>
               <div class="space-y-1 text-xs text-gray-600">
                 <p><strong>ID:</strong> ${location.driverId}</p>
-                <p><strong>Estado:</strong> <span class="text-green-600">Transmitiendo</span></p>
+                <p><strong>Estado:</strong> ${signalLost
+                  ? `<span class="text-gray-600">Última señal ${lastSeen}</span>`
+                  : '<span class="text-green-600">Transmitiendo</span>'}</p>
                 <p><strong>Coordenadas:</strong><br>
                    Lat: ${parseFloat(location.latitude).toFixed(6)}<br>
                    Lng: ${parseFloat(location.longitude).toFixed(6)}
@@ -153,6 +237,163 @@ export function GoogleMap({ locations, center, zoom = 13, className = "w-full h-
     }
   }, [map, locations, center, zoom]);
 
+  // Dibujar las paradas de bus
+  useEffect(() => {
+    if (!map) return;
+
+    stopMarkersRef.current.forEach(marker => marker.setMap(null));
+    stopMarkersRef.current = (stops || []).map(stop => {
+      const position = { lat: parseFloat(stop.latitude), lng: parseFloat(stop.longitude) };
+      const marker = new (google as any).maps.Marker({
+        position,
+        map,
+        title: `${stop.code} - ${stop.name}`,
+        icon: stopMarkerIcon()
+      });
+
+      const amenities = [
+        stop.wheelchairAccessible ? '♿ Accesible en silla de ruedas' : null,
+        stop.hasShelter ? '🏠 Con techo' : null,
+        stop.hasTactilePaving ? '⠿ Piso podotáctil' : null
+      ].filter(Boolean);
+
+      const infoWindow = new (google as any).maps.InfoWindow({
+        content: `
+          <div class="p-3 min-w-48">
+            <h3 class="font-semibold text-sm mb-2 text-blue-800">🚏 ${stop.name}</h3>
+            <div class="space-y-1 text-xs text-gray-600">
+              <p><strong>Código:</strong> ${stop.code}</p>
+              ${amenities.map(amenity => `<p>${amenity}</p>`).join('')}
+            </div>
+          </div>
+        `
+      });
+
+      // En modo edición, un clic sobre la parada agrega su posición exacta
+      marker.addListener('click', () => {
+        if (onMapClickRef.current) {
+          onMapClickRef.current(position);
+        } else {
+          infoWindow.open(map, marker);
+        }
+      });
+
+      return marker;
+    });
+  }, [map, stops]);
+
+  // Dibujar los reportes de incidentes con ubicación
+  useEffect(() => {
+    if (!map) return;
+
+    reportMarkersRef.current.forEach(marker => marker.setMap(null));
+    reportMarkersRef.current = (reportPins || []).map(pin => {
+      const marker = new (google as any).maps.Marker({
+        position: pin.position,
+        map,
+        title: pin.title,
+        icon: reportMarkerIcon()
+      });
+
+      const infoWindow = new (google as any).maps.InfoWindow({
+        content: `
+          <div class="p-3 min-w-48 max-w-64">
+            <h3 class="font-semibold text-sm mb-2 text-orange-700">⚠️ ${escapeHtml(pin.title)}</h3>
+            <div class="space-y-1 text-xs text-gray-600">
+              <p>${escapeHtml(pin.description)}</p>
+              ${pin.createdAt ? `<p><strong>Enviado:</strong> ${new Date(pin.createdAt).toLocaleString()}</p>` : ''}
+            </div>
+          </div>
+        `
+      });
+
+      marker.addListener('click', () => {
+        infoWindow.open(map, marker);
+      });
+
+      return marker;
+    });
+  }, [map, reportPins]);
+
+  // Dibujar el trazado de las rutas con su color
+  useEffect(() => {
+    if (!map) return;
+
+    routeLinesRef.current.forEach(line => line.setMap(null));
+    routeLinesRef.current = (routeShapes || [])
+      .filter(shape => shape.path.length > 1)
+      .map(shape => new (google as any).maps.Polyline({
+        path: shape.path,
+        map,
+        strokeColor: shape.color,
+        strokeOpacity: 0.7,
+        strokeWeight: 5,
+        clickable: false
+      }));
+  }, [map, routeShapes]);
+
+  // Edición: notificar los clics sobre el mapa (el listener usa siempre el callback más reciente)
+  useEffect(() => {
+    if (!map || !onMapClick) return;
+
+    map.setOptions({ draggableCursor: 'crosshair' });
+    const listener = map.addListener('click', (event: any) => {
+      onMapClickRef.current?.({ lat: event.latLng.lat(), lng: event.latLng.lng() });
+    });
+
+    return () => {
+      listener.remove();
+      map.setOptions({ draggableCursor: null });
+    };
+  }, [map, !!onMapClick]);
+
+  // Modo reproducción: dibujar el recorrido y ajustar la vista a él
+  useEffect(() => {
+    if (!map) return;
+
+    trackLineRef.current?.setMap(null);
+    trackLineRef.current = null;
+
+    if (!track || track.length === 0) return;
+
+    trackLineRef.current = new (google as any).maps.Polyline({
+      path: track,
+      map,
+      strokeColor: '#2563eb',
+      strokeOpacity: 0.8,
+      strokeWeight: 4
+    });
+
+    const bounds = new (google as any).maps.LatLngBounds();
+    track.forEach(point => bounds.extend(point));
+    map.fitBounds(bounds);
+  }, [map, track]);
+
+  // Modo reproducción: mover el marcador del bus sin recrearlo en cada instante
+  useEffect(() => {
+    if (!map) return;
+
+    if (!playbackMarker) {
+      playbackMarkerRef.current?.setMap(null);
+      playbackMarkerRef.current = null;
+      return;
+    }
+
+    const icon = busMarkerIcon(playbackMarker.color || '#2563eb');
+    if (!playbackMarkerRef.current) {
+      playbackMarkerRef.current = new (google as any).maps.Marker({
+        position: playbackMarker.position,
+        map,
+        title: playbackMarker.title,
+        icon
+      });
+    } else {
+      playbackMarkerRef.current.setPosition(playbackMarker.position);
+      playbackMarkerRef.current.setTitle(playbackMarker.title);
+      playbackMarkerRef.current.setIcon(icon);
+    }
+  }, [map, playbackMarker]);
+
   // Actualizar center y zoom cuando cambien las props
   useEffect(() => {
     if (!map || !center) return;
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Holiday } from "@shared/schema";
+import { dateInTimeZone } from "@shared/shifts";
+import { CalendarDays, Plus, Trash2 } from "lucide-react";
+
+interface HolidayCalendarProps {
+  canManage: boolean;
+}
+
+export function HolidayCalendar({ canManage }: HolidayCalendarProps) {
+  const { toast } = useToast();
+  const [date, setDate] = useState("");
+  const [name, setName] = useState("");
+
+  const { data: holidays = [], isLoading } = useQuery<Holiday[]>({
+    queryKey: ['/api/holidays'],
+  });
+
+  // Los feriados cambian qué asignaciones operan cada día
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/holidays'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/shifts'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/roster'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/holidays", { date, name }),
+    onSuccess: () => {
+      invalidate();
+      setDate("");
+      setName("");
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error al agregar feriado",
+        description: error.message || "No se pudo agregar el feriado",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/holidays/${id}`),
+    onSuccess: invalidate,
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "No se pudo eliminar el feriado",
+      });
+    },
+  });
+
+  const today = dateInTimeZone();
+  const upcoming = holidays.filter(holiday => holiday.date >= today);
+
+  return (
+    <Card>
+      <CardContent className="p-4 sm:p-6">
+        <div className="flex items-center space-x-2 mb-4">
+          <CalendarDays className="w-5 h-5 text-purple-600" />
+          <h3 className="text-lg font-semibold">Calendario de Feriados</h3>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Cargando feriados...</p>
+        ) : upcoming.length === 0 ? (
+          <p className="text-sm text-gray-500">No hay feriados próximos registrados</p>
+        ) : (
+          <div className="space-y-2 max-h-60 overflow-y-auto mb-4">
+            {upcoming.map(holiday => (
+              <div key={holiday.id} className="flex items-center justify-between p-2 border rounded-lg" data-testid={`holiday-${holiday.id}`}>
+                <div className="text-sm">
+                  <span className="font-medium">{holiday.date}</span>
+                  <span className="text-gray-600 ml-2">{holiday.name}</span>
+                </div>
+                {canManage && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => deleteMutation.mutate(holiday.id)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canManage && (
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="sm:w-44" />
+            <Input placeholder="Nombre del feriado" value={name} onChange={(e) => setName(e.target.value)} />
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!date || !name.trim() || createMutation.isPending}
+              data-testid="button-add-holiday"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Agregar
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
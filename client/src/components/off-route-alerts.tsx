@@ -0,0 +1,133 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Bus, OffRouteAlert, PublicUser, Route } from "@shared/schema";
+import { CheckCircle, Navigation, TriangleAlert } from "lucide-react";
+
+interface OffRouteAlertsProps {
+  drivers: PublicUser[];
+  buses: Bus[];
+  schedules: Route[];
+  canManage: boolean;
+  onLocateDriver: (driverId: string) => void;
+}
+
+// Ventana de alertas mostradas en el panel
+const ALERTS_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const formatDateTime = (value: string | Date) =>
+  new Date(value).toLocaleString('es-GT', {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'America/Guatemala'
+  });
+
+export function OffRouteAlerts({ drivers, buses, schedules, canManage, onLocateDriver }: OffRouteAlertsProps) {
+  const { toast } = useToast();
+
+  const { data: alerts = [], isLoading } = useQuery<OffRouteAlert[]>({
+    queryKey: ['/api/off-route-alerts'],
+    queryFn: async () => {
+      const since = new Date(Date.now() - ALERTS_WINDOW_MS).toISOString();
+      const res = await apiRequest("GET", `/api/off-route-alerts?since=${encodeURIComponent(since)}`);
+      return res.json();
+    },
+    refetchInterval: 60000,
+  });
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/off-route-alerts/${id}/acknowledge`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/off-route-alerts'] });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "No se pudo marcar la alerta como revisada",
+      });
+    },
+  });
+
+  const driverName = (id: string) => drivers.find(d => d.id === id)?.fullName || 'Chofer desconocido';
+  const routeName = (id: string) => schedules.find(s => s.id === id)?.routeName || 'Ruta desconocida';
+  const busNumber = (id: string | null) => buses.find(b => b.id === id)?.busNumber || 'N/A';
+
+  const openAlerts = alerts.filter(alert => !alert.resolvedAt);
+
+  return (
+    <Card>
+      <CardContent className="p-4 sm:p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-2">
+            <TriangleAlert className="w-5 h-5 text-orange-500" />
+            <h3 className="text-lg font-semibold">Alertas de Desvío</h3>
+          </div>
+          <Badge variant={openAlerts.length > 0 ? "destructive" : "secondary"} data-testid="badge-open-off-route">
+            {openAlerts.length} activas
+          </Badge>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Cargando alertas...</p>
+        ) : alerts.length === 0 ? (
+          <p className="text-sm text-gray-500">Sin desvíos en las últimas 24 horas</p>
+        ) : (
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {alerts.map(alert => (
+              <div
+                key={alert.id}
+                className={`p-3 border rounded-lg ${alert.resolvedAt ? '' : 'border-orange-400 bg-orange-50'}`}
+                data-testid={`off-route-alert-${alert.id}`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium text-sm">{driverName(alert.driverId)}</p>
+                    <p className="text-xs text-gray-600">
+                      {routeName(alert.routeId)} · Unidad {busNumber(alert.busId)}
+                    </p>
+                    <p className="text-xs text-gray-600">
+                      Fuera de ruta desde {formatDateTime(alert.leftRouteAt)} · hasta {Math.round(alert.maxDistanceMeters)} m del trazado
+                    </p>
+                    {alert.resolvedAt && (
+                      <p className="text-xs text-gray-500">Regresó a la ruta {formatDateTime(alert.resolvedAt)}</p>
+                    )}
+                  </div>
+                  <div className="flex flex-col items-end gap-1">
+                    <Badge variant={alert.resolvedAt ? "secondary" : "destructive"}>
+                      {alert.resolvedAt ? "Resuelta" : "En curso"}
+                    </Badge>
+                    <div className="flex gap-1">
+                      {!alert.resolvedAt && (
+                        <Button size="sm" variant="outline" onClick={() => onLocateDriver(alert.driverId)}>
+                          <Navigation className="w-3 h-3" />
+                        </Button>
+                      )}
+                      {canManage && !alert.acknowledgedAt && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => acknowledgeMutation.mutate(alert.id)}
+                          disabled={acknowledgeMutation.isPending}
+                          data-testid={`button-ack-off-route-${alert.id}`}
+                        >
+                          <CheckCircle className="w-3 h-3 mr-1" />
+                          Revisada
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
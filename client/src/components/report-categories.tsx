@@ -0,0 +1,347 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  InsertReportCategory,
+  ReportCategory,
+  ReportCategoryIcon as ReportCategoryIconName,
+  ReportSeverity,
+  reportCategoryIcons,
+  reportSeverities,
+} from "@shared/schema";
+import {
+  AlertTriangle,
+  Car,
+  Clock,
+  Edit,
+  MessageCircle,
+  Plus,
+  Signpost,
+  TrafficCone,
+  Trash2,
+  UserX,
+  Wrench,
+  type LucideIcon,
+} from "lucide-react";
+import { REPORT_SEVERITY_LABELS, ReportSeverityBadge } from "@/components/report-status";
+
+const CATEGORY_ICONS: Record<ReportCategoryIconName, LucideIcon> = {
+  "alert-triangle": AlertTriangle,
+  "clock": Clock,
+  "wrench": Wrench,
+  "car": Car,
+  "user-x": UserX,
+  "traffic-cone": TrafficCone,
+  "signpost": Signpost,
+  "message-circle": MessageCircle,
+};
+
+// Ícono de la categoría; los reportes de categorías desconocidas usan el genérico
+export function ReportCategoryIcon({ icon, className = "w-4 h-4" }: { icon?: string | null; className?: string }) {
+  const Icon = CATEGORY_ICONS[icon as ReportCategoryIconName] ?? MessageCircle;
+  return <Icon className={className} />;
+}
+
+const emptyCategory: InsertReportCategory = {
+  key: "",
+  name: "",
+  description: null,
+  icon: "message-circle",
+  defaultSeverity: "media",
+  requiresLocation: false,
+  requiresActiveShift: false,
+  minDescriptionLength: 10,
+  isActive: true,
+  sortOrder: 0,
+};
+
+interface CategoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  category: ReportCategory | null;
+  nextSortOrder: number;
+}
+
+function ReportCategoryModal({ isOpen, onClose, category, nextSortOrder }: CategoryModalProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<InsertReportCategory>(emptyCategory);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setForm(category
+      ? {
+          key: category.key,
+          name: category.name,
+          description: category.description,
+          icon: category.icon as ReportCategoryIconName,
+          defaultSeverity: category.defaultSeverity as ReportSeverity,
+          requiresLocation: category.requiresLocation,
+          requiresActiveShift: category.requiresActiveShift,
+          minDescriptionLength: category.minDescriptionLength,
+          isActive: category.isActive,
+          sortOrder: category.sortOrder,
+        }
+      : { ...emptyCategory, sortOrder: nextSortOrder });
+  }, [isOpen, category, nextSortOrder]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      if (category) {
+        const { key, ...updates } = form;
+        return apiRequest("PUT", `/api/report-categories/${category.id}`, updates);
+      }
+      return apiRequest("POST", "/api/report-categories", form);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/report-categories'] });
+      toast({ title: category ? "Categoría actualizada" : "Categoría creada" });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error al guardar la categoría",
+        description: error.message,
+      });
+    },
+  });
+
+  const set = <K extends keyof InsertReportCategory>(field: K, value: InsertReportCategory[K]) =>
+    setForm(current => ({ ...current, [field]: value }));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{category ? "Editar Categoría" : "Nueva Categoría"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="category-name">Nombre</Label>
+              <Input id="category-name" value={form.name} onChange={(e) => set("name", e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="category-key">Clave</Label>
+              <Input
+                id="category-key"
+                value={form.key}
+                disabled={!!category}
+                placeholder="averia_mecanica"
+                onChange={(e) => set("key", e.target.value.toLowerCase())}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="category-description">Ayuda para el chofer (opcional)</Label>
+            <Input
+              id="category-description"
+              value={form.description ?? ""}
+              onChange={(e) => set("description", e.target.value || null)}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Ícono</Label>
+              <Select value={form.icon} onValueChange={(value) => set("icon", value as ReportCategoryIconName)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {reportCategoryIcons.map(icon => (
+                    <SelectItem key={icon} value={icon}>
+                      <span className="flex items-center">
+                        <ReportCategoryIcon icon={icon} className="w-4 h-4 mr-2" />
+                        {icon}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Severidad por defecto</Label>
+              <Select value={form.defaultSeverity} onValueChange={(value) => set("defaultSeverity", value as ReportSeverity)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {reportSeverities.map(severity => (
+                    <SelectItem key={severity} value={severity}>{REPORT_SEVERITY_LABELS[severity].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="category-min-length">Mínimo de caracteres</Label>
+              <Input
+                id="category-min-length"
+                type="number"
+                min={1}
+                max={500}
+                value={form.minDescriptionLength}
+                onChange={(e) => set("minDescriptionLength", parseInt(e.target.value) || 1)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="category-order">Orden</Label>
+              <Input
+                id="category-order"
+                type="number"
+                value={form.sortOrder}
+                onChange={(e) => set("sortOrder", parseInt(e.target.value) || 0)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="category-location">Requiere ubicación</Label>
+              <Switch id="category-location" checked={form.requiresLocation} onCheckedChange={(checked) => set("requiresLocation", checked)} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="category-shift">Solo durante un turno</Label>
+              <Switch id="category-shift" checked={form.requiresActiveShift} onCheckedChange={(checked) => set("requiresActiveShift", checked)} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="category-active">Activa</Label>
+              <Switch id="category-active" checked={form.isActive} onCheckedChange={(checked) => set("isActive", checked)} />
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={onClose}>Cancelar</Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || !form.name.trim() || !form.key}
+              data-testid="button-save-category"
+            >
+              Guardar
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ReportCategoriesManagerProps {
+  canManage: boolean;
+}
+
+export function ReportCategoriesManager({ canManage }: ReportCategoriesManagerProps) {
+  const { toast } = useToast();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selected, setSelected] = useState<ReportCategory | null>(null);
+
+  const { data: categories = [], isLoading } = useQuery<ReportCategory[]>({
+    queryKey: ['/api/report-categories'],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/report-categories/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/report-categories'] });
+      toast({ title: "Categoría eliminada" });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "No se pudo eliminar la categoría",
+        description: error.message,
+      });
+    },
+  });
+
+  const openModal = (category: ReportCategory | null) => {
+    setSelected(category);
+    setIsModalOpen(true);
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4 sm:p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-800">Categorías de Reporte</h3>
+          {canManage && (
+            <Button size="sm" onClick={() => openModal(null)} data-testid="button-add-category">
+              <Plus className="w-4 h-4 mr-1" />
+              Nueva categoría
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Cargando categorías...</p>
+        ) : (
+          <div className="space-y-2">
+            {categories.map(category => (
+              <div key={category.id} className="flex items-center justify-between border rounded-lg p-3" data-testid={`category-${category.key}`}>
+                <div className="flex items-center space-x-3 min-w-0">
+                  <ReportCategoryIcon icon={category.icon} className="w-5 h-5 text-gray-600 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="font-medium text-sm">
+                      {category.name}
+                      {!category.isActive && <Badge variant="outline" className="ml-2">Inactiva</Badge>}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {[
+                        category.requiresLocation && "Requiere ubicación",
+                        category.requiresActiveShift && "Solo en turno",
+                        `Mín. ${category.minDescriptionLength} caracteres`,
+                      ].filter(Boolean).join(" · ")}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <ReportSeverityBadge severity={category.defaultSeverity} />
+                  {canManage && (
+                    <>
+                      <Button size="sm" variant="ghost" onClick={() => openModal(category)}>
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => {
+                          if (confirm(`¿Eliminar la categoría "${category.name}"?`)) {
+                            deleteMutation.mutate(category.id);
+                          }
+                        }}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="w-4 h-4 text-red-600" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <ReportCategoryModal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        category={selected}
+        nextSortOrder={categories.reduce((max, c) => Math.max(max, c.sortOrder), 0) + 1}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,222 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { authManager } from "@/lib/auth";
+import { Bus, PublicUser, Report, ReportPhoto, ReportSeverity, ReportStatus, UpdateReport, reportSeverities, reportStatusTransitions } from "@shared/schema";
+import { REPORT_SEVERITY_LABELS, REPORT_STATUS_LABELS, ReportSeverityBadge, ReportStatusBadge } from "@/components/report-status";
+import { ReportThread } from "@/components/report-thread";
+import { MapPin } from "lucide-react";
+
+interface ReportManageModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  report: Report | null;
+  admins: PublicUser[];
+  canManage: boolean;
+}
+
+const UNASSIGNED = "none";
+
+// Las etiquetas <img> no envían headers, así que el token va en la URL
+const photoUrl = (photo: ReportPhoto) =>
+  `/api/report-photos/${photo.id}/file?token=${encodeURIComponent(authManager.getToken() || '')}`;
+
+export function ReportManageModal({ isOpen, onClose, report, admins, canManage }: ReportManageModalProps) {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<ReportStatus>("abierto");
+  const [severity, setSeverity] = useState<ReportSeverity>("media");
+  const [assignedTo, setAssignedTo] = useState(UNASSIGNED);
+  const [resolutionNotes, setResolutionNotes] = useState("");
+
+  useEffect(() => {
+    if (isOpen && report) {
+      setStatus(report.status as ReportStatus);
+      setSeverity(report.severity as ReportSeverity);
+      setAssignedTo(report.assignedTo ?? UNASSIGNED);
+      setResolutionNotes(report.resolutionNotes ?? "");
+    }
+  }, [isOpen, report]);
+
+  const { data: photos = [] } = useQuery<ReportPhoto[]>({
+    queryKey: ['/api/reports', report?.id, 'photos'],
+    enabled: isOpen && !!report,
+  });
+
+  const { data: buses = [] } = useQuery<Bus[]>({
+    queryKey: ['/api/buses'],
+    enabled: isOpen && !!report?.busId,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (data: UpdateReport) => apiRequest("PATCH", `/api/reports/${report!.id}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/reports'] });
+      toast({ title: "Reporte actualizado" });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error al actualizar el reporte",
+        description: error.message || "No se pudo actualizar el reporte",
+      });
+    },
+  });
+
+  if (!report) return null;
+
+  const currentStatus = report.status as ReportStatus;
+  const statusOptions = [currentStatus, ...(reportStatusTransitions[currentStatus] ?? [])];
+  const closing = status === "resuelto" || status === "descartado";
+  const bus = buses.find(b => b.id === report.busId);
+  const mapLink = report.latitude && report.longitude
+    ? `https://www.google.com/maps?q=${report.latitude},${report.longitude}`
+    : null;
+
+  const handleSave = () => {
+    // Solo se envía lo que cambió para no registrar transiciones innecesarias
+    const changes: UpdateReport = {};
+    if (status !== currentStatus) changes.status = status;
+    if (severity !== report.severity) changes.severity = severity;
+    const assignee = assignedTo === UNASSIGNED ? null : assignedTo;
+    if (assignee !== report.assignedTo) changes.assignedTo = assignee;
+    if (resolutionNotes !== (report.resolutionNotes ?? "")) changes.resolutionNotes = resolutionNotes || null;
+
+    if (Object.keys(changes).length === 0) {
+      onClose();
+      return;
+    }
+    updateMutation.mutate(changes);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{canManage ? "Gestionar Reporte" : "Detalle del Reporte"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="bg-gray-50 rounded-lg p-3 text-sm space-y-2">
+            <p className="text-gray-700">{report.description}</p>
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-600">
+              {bus && <span>Bus {bus.busNumber} ({bus.plateNumber})</span>}
+              {mapLink ? (
+                <a href={mapLink} target="_blank" rel="noreferrer" className="inline-flex items-center text-blue-600">
+                  <MapPin className="w-3 h-3 mr-1" />
+                  Ver ubicación
+                </a>
+              ) : (
+                <span>Sin ubicación registrada</span>
+              )}
+            </div>
+          </div>
+
+          {photos.length > 0 && (
+            <div className="grid grid-cols-3 gap-2">
+              {photos.map(photo => (
+                <a key={photo.id} href={photoUrl(photo)} target="_blank" rel="noreferrer">
+                  <img
+                    src={photoUrl(photo)}
+                    alt="Foto del reporte"
+                    className="w-full h-24 object-cover rounded-md border"
+                    loading="lazy"
+                  />
+                </a>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2 border-t pt-4">
+            <h4 className="text-sm font-medium text-gray-700">Conversación con el chofer</h4>
+            <ReportThread reportId={report.id} canReply={canManage} />
+          </div>
+
+          {!canManage ? (
+            <div className="space-y-2 text-sm border-t pt-4">
+              <div className="flex items-center space-x-2">
+                <ReportStatusBadge status={report.status} />
+                <ReportSeverityBadge severity={report.severity} />
+              </div>
+              {report.resolutionNotes && <p className="text-gray-600">Resolución: {report.resolutionNotes}</p>}
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 border-t pt-4">
+                <div className="space-y-1">
+                  <Label>Estado</Label>
+                  <Select value={status} onValueChange={(value) => setStatus(value as ReportStatus)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {statusOptions.map(option => (
+                        <SelectItem key={option} value={option}>{REPORT_STATUS_LABELS[option].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Severidad</Label>
+                  <Select value={severity} onValueChange={(value) => setSeverity(value as ReportSeverity)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {reportSeverities.map(option => (
+                        <SelectItem key={option} value={option}>{REPORT_SEVERITY_LABELS[option].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label>Responsable</Label>
+                <Select value={assignedTo} onValueChange={setAssignedTo}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNASSIGNED}>Sin asignar</SelectItem>
+                    {admins.map(admin => (
+                      <SelectItem key={admin.id} value={admin.id}>{admin.fullName}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="report-resolution">Resolución{closing ? "" : " (opcional)"}</Label>
+                <Textarea
+                  id="report-resolution"
+                  rows={3}
+                  value={resolutionNotes}
+                  onChange={(e) => setResolutionNotes(e.target.value)}
+                  placeholder="Acciones tomadas o motivo del descarte"
+                />
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={onClose}>Cancelar</Button>
+                <Button
+                  onClick={handleSave}
+                  disabled={updateMutation.isPending || (closing && !resolutionNotes.trim())}
+                  data-testid="button-save-report"
+                >
+                  Guardar
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -26,20 +26,23 @@ import {
 import { Textarea } from "@/components/ui/textarea";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertReportSchema } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { insertReportSchema, Report, ReportCategory, reportPhotoMimeTypes, REPORT_PHOTO_MAX_BYTES, REPORT_PHOTO_MAX_COUNT } from "@shared/schema";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { AlertTriangle } from "lucide-react";
+import { apiRequest, getErrorBody, uploadFile } from "@/lib/queryClient";
+import { capturePosition } from "@/lib/geolocation";
+import { ReportCategoryIcon } from "@/components/report-categories";
+import { AlertTriangle, Camera, X } from "lucide-react";
 
-// Esquema extendido para el formulario con validaciones localizadas
+// Esquema extendido para el formulario con validaciones localizadas. El mínimo de
+// caracteres depende de la categoría y se valida al enviar.
 const reportFormSchema = insertReportSchema.extend({
-  type: z.enum(["atraso", "incidente", "otro"], {
-    errorMap: () => ({ message: "Debe seleccionar un tipo de reporte" }),
-  }),
+  type: z.string({ required_error: "Debe seleccionar un tipo de reporte" }).min(1, "Debe seleccionar un tipo de reporte"),
   description: z
     .string()
-    .min(10, "La descripción debe tener al menos 10 caracteres")
+    .min(1, "La descripción es obligatoria")
     .max(500, "La descripción no puede exceder 500 caracteres"),
 });
 
@@ -51,9 +54,15 @@ interface ReportModalProps {
 
 export function ReportModal({ driverId }: ReportModalProps) {
   const [open, setOpen] = useState(false);
+  const [photos, setPhotos] = useState<File[]>([]);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const { data: categories = [] } = useQuery<ReportCategory[]>({
+    queryKey: ['/api/report-categories'],
+    enabled: open,
+  });
+
   const form = useForm<ReportFormData>({
     resolver: zodResolver(reportFormSchema),
     defaultValues: {
@@ -63,43 +72,83 @@ export function ReportModal({ driverId }: ReportModalProps) {
     },
   });
 
+  // Se adjunta la posición actual; el servidor completa el turno y el bus en servicio.
+  // Las fotos se suben después de crear el reporte, una por petición.
   const createReportMutation = useMutation({
-    mutationFn: (data: ReportFormData) =>
-      apiRequest('POST', '/api/reports', data),
-    onSuccess: () => {
+    mutationFn: async (data: ReportFormData) => {
+      const position = await capturePosition();
+      const res = await apiRequest('POST', '/api/reports', { ...data, ...position });
+      const report: Report = await res.json();
+
+      let failedPhotos = 0;
+      for (const photo of photos) {
+        try {
+          await uploadFile(`/api/reports/${report.id}/photos`, photo);
+        } catch (error) {
+          console.error("Error subiendo foto:", error);
+          failedPhotos++;
+        }
+      }
+      return { failedPhotos };
+    },
+    onSuccess: ({ failedPhotos }) => {
       toast({
         title: "Reporte enviado",
-        description: "Su reporte ha sido enviado exitosamente.",
+        description: failedPhotos > 0
+          ? `El reporte se envió, pero ${failedPhotos} foto(s) no se pudieron subir.`
+          : "Su reporte ha sido enviado exitosamente.",
+        variant: failedPhotos > 0 ? "destructive" : undefined,
       });
       form.reset({
         driverId,
         type: undefined,
         description: "",
       });
+      setPhotos([]);
       setOpen(false);
       
       // Invalidar las consultas de reportes para refrescar la lista
       queryClient.invalidateQueries({ queryKey: ['/api/reports'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reports/driver', driverId] });
     },
     onError: (error: any) => {
       console.error("Error enviando reporte:", error);
+      // Las reglas de la categoría (ubicación, turno activo) llegan como 400 con mensaje
+      const body = getErrorBody<{ message: string }>(error);
       toast({
         title: "Error",
-        description: "No se pudo enviar el reporte. Intente nuevamente.",
+        description: body?.message || "No se pudo enviar el reporte. Intente nuevamente.",
         variant: "destructive",
       });
     },
   });
 
+  const selectedCategory = categories.find(c => c.key === form.watch("type"));
+
   const onSubmit = (data: ReportFormData) => {
+    if (selectedCategory && data.description.trim().length < selectedCategory.minDescriptionLength) {
+      form.setError("description", {
+        message: `La descripción debe tener al menos ${selectedCategory.minDescriptionLength} caracteres`,
+      });
+      return;
+    }
     createReportMutation.mutate(data);
   };
 
-  const reportTypes = [
-    { value: "atraso", label: "Atraso" },
-    { value: "incidente", label: "Incidente" },
-    { value: "otro", label: "Otro" }
-  ];
+  const handlePhotosSelected = (files: FileList | null) => {
+    const selected = Array.from(files ?? []);
+    const valid = selected.filter(file =>
+      reportPhotoMimeTypes.some(type => type === file.type) && file.size <= REPORT_PHOTO_MAX_BYTES
+    );
+    if (valid.length < selected.length) {
+      toast({
+        title: "Algunas fotos no se agregaron",
+        description: `Solo se aceptan imágenes JPG, PNG o WEBP de hasta ${REPORT_PHOTO_MAX_BYTES / (1024 * 1024)} MB.`,
+        variant: "destructive",
+      });
+    }
+    setPhotos(current => [...current, ...valid].slice(0, REPORT_PHOTO_MAX_COUNT));
+  };
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
@@ -136,18 +185,30 @@ export function ReportModal({ driverId }: ReportModalProps) {
                         <SelectValue placeholder="Seleccione el tipo de reporte" />
                       </SelectTrigger>
                       <SelectContent>
-                        {reportTypes.map((type) => (
+                        {categories.map((category) => (
                           <SelectItem 
-                            key={type.value} 
-                            value={type.value}
-                            data-testid={`option-${type.value}`}
+                            key={category.key} 
+                            value={category.key}
+                            data-testid={`option-${category.key}`}
                           >
-                            {type.label}
+                            <span className="flex items-center">
+                              <ReportCategoryIcon icon={category.icon} className="w-4 h-4 mr-2" />
+                              {category.name}
+                            </span>
                           </SelectItem>
                         ))}
                       </SelectContent>
                     </Select>
                   </FormControl>
+                  {selectedCategory && (
+                    <p className="text-xs text-gray-500">
+                      {[
+                        selectedCategory.description,
+                        selectedCategory.requiresLocation && "Requiere ubicación del dispositivo.",
+                        selectedCategory.requiresActiveShift && "Solo durante un turno activo.",
+                      ].filter(Boolean).join(" ")}
+                    </p>
+                  )}
                   <FormMessage />
                 </FormItem>
               )}
@@ -172,6 +233,47 @@ export function ReportModal({ driverId }: ReportModalProps) {
               )}
             />
 
+            <div className="space-y-2">
+              <Label htmlFor="report-photos">Fotos (opcional)</Label>
+              {photos.length < REPORT_PHOTO_MAX_COUNT && (
+                <Input
+                  id="report-photos"
+                  type="file"
+                  accept={reportPhotoMimeTypes.join(",")}
+                  capture="environment"
+                  multiple
+                  onChange={(e) => {
+                    handlePhotosSelected(e.target.files);
+                    e.target.value = "";
+                  }}
+                  data-testid="input-report-photos"
+                />
+              )}
+              {photos.length > 0 && (
+                <ul className="space-y-1">
+                  {photos.map((photo, index) => (
+                    <li key={`${photo.name}-${index}`} className="flex items-center justify-between text-sm text-gray-600">
+                      <span className="flex items-center truncate">
+                        <Camera className="w-4 h-4 mr-2 flex-shrink-0" />
+                        <span className="truncate">{photo.name}</span>
+                      </span>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setPhotos(photos.filter((_, i) => i !== index))}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <p className="text-xs text-gray-500">
+                Se registrará su ubicación actual y el bus en servicio.
+              </p>
+            </div>
+
             <div className="flex justify-end space-x-2">
               <Button
                 type="button"
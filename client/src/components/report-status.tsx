@@ -0,0 +1,26 @@
+import { Badge } from "@/components/ui/badge";
+import { ReportSeverity, ReportStatus } from "@shared/schema";
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, { label: string; className: string }> = {
+  abierto: { label: "Abierto", className: "bg-blue-100 text-blue-800" },
+  en_revision: { label: "En revisión", className: "bg-yellow-100 text-yellow-800" },
+  resuelto: { label: "Resuelto", className: "bg-green-100 text-green-800" },
+  descartado: { label: "Descartado", className: "bg-gray-100 text-gray-700" },
+};
+
+export const REPORT_SEVERITY_LABELS: Record<ReportSeverity, { label: string; className: string }> = {
+  baja: { label: "Baja", className: "bg-gray-100 text-gray-700" },
+  media: { label: "Media", className: "bg-yellow-100 text-yellow-800" },
+  alta: { label: "Alta", className: "bg-orange-100 text-orange-800" },
+  critica: { label: "Crítica", className: "bg-red-100 text-red-800" },
+};
+
+export function ReportStatusBadge({ status }: { status: string }) {
+  const label = REPORT_STATUS_LABELS[status as ReportStatus];
+  return label ? <Badge className={label.className}>{label.label}</Badge> : <Badge variant="outline">{status}</Badge>;
+}
+
+export function ReportSeverityBadge({ severity }: { severity: string }) {
+  const label = REPORT_SEVERITY_LABELS[severity as ReportSeverity];
+  return label ? <Badge className={label.className}>{label.label}</Badge> : <Badge variant="outline">{severity}</Badge>;
+}
@@ -0,0 +1,109 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { authManager } from "@/lib/auth";
+import { ReportCommentWithAuthor } from "@shared/schema";
+import { Send } from "lucide-react";
+
+interface ReportThreadProps {
+  reportId: string;
+  canReply: boolean;
+}
+
+const formatDateTime = (value: Date | string) =>
+  new Date(value).toLocaleString("es-GT", {
+    timeZone: "America/Guatemala",
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export function ReportThread({ reportId, canReply }: ReportThreadProps) {
+  const { toast } = useToast();
+  const [body, setBody] = useState("");
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const currentUserId = authManager.getCurrentUser()?.id;
+
+  const { data: comments = [], isLoading } = useQuery<ReportCommentWithAuthor[]>({
+    queryKey: ['/api/reports', reportId, 'comments'],
+  });
+
+  // Abrir la conversación (o recibir un mensaje con ella abierta) la marca como leída
+  useEffect(() => {
+    if (isLoading) return;
+    apiRequest("POST", `/api/reports/${reportId}/read`)
+      .then(() => queryClient.invalidateQueries({ queryKey: ['/api/reports/unread-counts'] }))
+      .catch((error) => console.error("Error marcando reporte como leído:", error));
+    bottomRef.current?.scrollIntoView({ block: "nearest" });
+  }, [reportId, isLoading, comments.length]);
+
+  const sendMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/reports/${reportId}/comments`, { body }),
+    onSuccess: () => {
+      setBody("");
+      queryClient.invalidateQueries({ queryKey: ['/api/reports', reportId, 'comments'] });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "No se pudo enviar el mensaje",
+        description: error.message,
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="max-h-64 overflow-y-auto space-y-2 pr-1">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Cargando mensajes...</p>
+        ) : comments.length === 0 ? (
+          <p className="text-sm text-gray-500">Aún no hay mensajes sobre este reporte</p>
+        ) : (
+          comments.map(comment => {
+            const own = comment.authorId === currentUserId;
+            return (
+              <div key={comment.id} className={`flex ${own ? "justify-end" : "justify-start"}`}>
+                <div className={`max-w-[85%] rounded-lg px-3 py-2 text-sm ${own ? "bg-blue-50" : "bg-gray-100"}`}>
+                  <p className="text-xs text-gray-500 mb-1">
+                    {own ? "Usted" : comment.authorName}
+                    {!own && comment.authorRole !== "driver" && " (Administración)"}
+                    {" · "}
+                    {formatDateTime(comment.createdAt)}
+                  </p>
+                  <p className="whitespace-pre-wrap break-words">{comment.body}</p>
+                </div>
+              </div>
+            );
+          })
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      {canReply && (
+        <div className="flex items-end space-x-2">
+          <Textarea
+            rows={2}
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Escriba un mensaje..."
+            maxLength={1000}
+            data-testid={`textarea-report-comment-${reportId}`}
+          />
+          <Button
+            size="sm"
+            onClick={() => sendMutation.mutate()}
+            disabled={!body.trim() || sendMutation.isPending}
+            data-testid={`button-send-comment-${reportId}`}
+          >
+            <Send className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,30 +1,60 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Report, User } from "@shared/schema";
-import { AlertTriangle, Clock, MessageCircle } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { Report, PublicUser, ReportCategory, ReportStatus, ReportUnreadCount, reportStatuses } from "@shared/schema";
+import { AlertTriangle, Eye, MapPin, Settings2 } from "lucide-react";
+import { ReportCategoryIcon } from "@/components/report-categories";
+import { ReportManageModal } from "@/components/report-manage-modal";
+import { REPORT_STATUS_LABELS, ReportSeverityBadge, ReportStatusBadge } from "@/components/report-status";
 
 interface ReportWithDriver extends Report {
   driverName?: string;
+  assigneeName?: string;
 }
 
-export function ReportsTable() {
-  // Obtener todos los reportes
+interface ReportsTableProps {
+  canManage: boolean;
+}
+
+export function ReportsTable({ canManage }: ReportsTableProps) {
+  const [statusFilter, setStatusFilter] = useState<ReportStatus | "all">("all");
+  const [managedReport, setManagedReport] = useState<Report | null>(null);
+
+  // Obtener los reportes, filtrados por estado en el servidor
   const { data: reports = [], isLoading: reportsLoading } = useQuery<Report[]>({
-    queryKey: ['/api/reports'],
+    queryKey: ['/api/reports', statusFilter],
+    queryFn: async () => {
+      const res = await apiRequest("GET", statusFilter === "all" ? "/api/reports" : `/api/reports?status=${statusFilter}`);
+      return res.json();
+    },
+  });
+
+  const { data: unreadCounts = [] } = useQuery<ReportUnreadCount[]>({
+    queryKey: ['/api/reports/unread-counts'],
   });
+  const unreadFor = (reportId: string) => unreadCounts.find(c => c.reportId === reportId)?.unreadCount ?? 0;
 
   // Obtener todos los usuarios para mapear nombres de choferes
-  const { data: users = [] } = useQuery<User[]>({
+  const { data: users = [] } = useQuery<PublicUser[]>({
     queryKey: ['/api/users'],
   });
 
+  const { data: categories = [] } = useQuery<ReportCategory[]>({
+    queryKey: ['/api/report-categories'],
+  });
+
   // Combinar reportes con información del chofer
   const reportsWithDrivers: ReportWithDriver[] = reports.map(report => {
     const driver = users.find(user => user.id === report.driverId);
     return {
       ...report,
-      driverName: driver?.fullName || 'Chofer desconocido'
+      driverName: driver?.fullName || 'Chofer desconocido',
+      assigneeName: users.find(user => user.id === report.assignedTo)?.fullName,
     };
   });
 
@@ -33,31 +63,14 @@ export function ReportsTable() {
     new Date(b.timestamp || 0).getTime() - new Date(a.timestamp || 0).getTime()
   );
 
-  const getReportTypeIcon = (type: string) => {
-    switch (type) {
-      case 'atraso':
-        return <Clock className="w-4 h-4" />;
-      case 'incidente':
-        return <AlertTriangle className="w-4 h-4" />;
-      case 'otro':
-        return <MessageCircle className="w-4 h-4" />;
-      default:
-        return <MessageCircle className="w-4 h-4" />;
-    }
-  };
+  // Los reportes guardan la clave de la categoría; si ya no existe se muestra la clave
+  const getReportTypeIcon = (type: string) => (
+    <ReportCategoryIcon icon={categories.find(c => c.key === type)?.icon} className="w-4 h-4" />
+  );
 
-  const getReportTypeBadge = (type: string) => {
-    switch (type) {
-      case 'atraso':
-        return <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">Atraso</Badge>;
-      case 'incidente':
-        return <Badge variant="destructive">Incidente</Badge>;
-      case 'otro':
-        return <Badge variant="outline">Otro</Badge>;
-      default:
-        return <Badge variant="outline">{type}</Badge>;
-    }
-  };
+  const getReportTypeBadge = (type: string) => (
+    <Badge variant="outline">{categories.find(c => c.key === type)?.name ?? type}</Badge>
+  );
 
   const formatDateTime = (timestamp: Date | string | null) => {
     if (!timestamp) return '-';
@@ -72,6 +85,49 @@ export function ReportsTable() {
     });
   };
 
+  const admins = users.filter(user => user.role === 'admin');
+
+  const filter = (
+    <div className="flex items-end justify-between mb-4">
+      <div className="space-y-1 w-48">
+        <Label>Estado</Label>
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as ReportStatus | "all")}>
+          <SelectTrigger data-testid="select-report-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todos</SelectItem>
+            {reportStatuses.map(status => (
+              <SelectItem key={status} value={status}>{REPORT_STATUS_LABELS[status].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+
+  // Sin permisos de gestión el modal se abre en modo consulta (fotos y ubicación)
+  const manageButton = (report: Report) => (
+    <Button
+      size="sm"
+      variant="ghost"
+      onClick={() => setManagedReport(report)}
+      title={canManage ? "Gestionar reporte" : "Ver detalle"}
+      className="relative"
+      data-testid={`button-manage-report-${report.id}`}
+    >
+      {canManage ? <Settings2 className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+      {unreadFor(report.id) > 0 && (
+        <span
+          className="absolute -top-1 -right-1 bg-red-500 text-white text-[10px] rounded-full min-w-4 h-4 px-1 flex items-center justify-center"
+          title="Mensajes sin leer"
+        >
+          {unreadFor(report.id)}
+        </span>
+      )}
+    </Button>
+  );
+
   if (reportsLoading) {
     return (
       <div className="text-center py-8">
@@ -83,16 +139,25 @@ export function ReportsTable() {
 
   if (sortedReports.length === 0) {
     return (
-      <div className="text-center py-12">
-        <AlertTriangle className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-        <h3 className="text-lg font-semibold text-gray-600 mb-2">No hay reportes</h3>
-        <p className="text-gray-500">Los reportes de incidentes aparecerán aquí cuando los choferes los envíen.</p>
-      </div>
+      <>
+        {filter}
+        <div className="text-center py-12">
+          <AlertTriangle className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-gray-600 mb-2">No hay reportes</h3>
+          <p className="text-gray-500">
+            {statusFilter === "all"
+              ? "Los reportes de incidentes aparecerán aquí cuando los choferes los envíen."
+              : "No hay reportes con el estado seleccionado."}
+          </p>
+        </div>
+      </>
     );
   }
 
   return (
     <>
+      {filter}
+
       {/* Vista móvil - Cards */}
       <div className="block sm:hidden space-y-3">
         {sortedReports.map((report) => (
@@ -113,6 +178,16 @@ export function ReportsTable() {
                   {report.description}
                 </p>
               </div>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <ReportStatusBadge status={report.status} />
+                  <ReportSeverityBadge severity={report.severity} />
+                </div>
+                {manageButton(report)}
+              </div>
+              {report.assigneeName && (
+                <p className="text-xs text-gray-500">Responsable: {report.assigneeName}</p>
+              )}
             </div>
           </Card>
         ))}
@@ -135,6 +210,13 @@ export function ReportsTable() {
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
                 Descripción
               </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                Estado
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                Responsable
+              </th>
+              <th className="px-6 py-3"></th>
             </tr>
           </thead>
           <tbody className="divide-y divide-gray-200">
@@ -149,6 +231,12 @@ export function ReportsTable() {
                   <div className="text-sm font-medium text-gray-900">
                     {report.driverName}
                   </div>
+                  {report.latitude && report.longitude && (
+                    <div className="flex items-center text-xs text-gray-500">
+                      <MapPin className="w-3 h-3 mr-1" />
+                      Con ubicación
+                    </div>
+                  )}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   <div className="flex items-center space-x-2">
@@ -161,13 +249,38 @@ export function ReportsTable() {
                     <p className="line-clamp-2" title={report.description}>
                       {report.description}
                     </p>
+                    {report.resolutionNotes && (
+                      <p className="text-xs text-gray-500 mt-1 line-clamp-2" title={report.resolutionNotes}>
+                        Resolución: {report.resolutionNotes}
+                      </p>
+                    )}
+                  </div>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <div className="flex items-center space-x-2">
+                    <ReportStatusBadge status={report.status} />
+                    <ReportSeverityBadge severity={report.severity} />
                   </div>
                 </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {report.assigneeName || '-'}
+                </td>
+                <td className="px-6 py-4 text-right">
+                  {manageButton(report)}
+                </td>
               </tr>
             ))}
           </tbody>
         </table>
       </div>
+
+      <ReportManageModal
+        isOpen={!!managedReport}
+        onClose={() => setManagedReport(null)}
+        report={managedReport}
+        admins={admins}
+        canManage={canManage}
+      />
     </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,210 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Bus, ComplianceLimits, PublicUser, Route, RosterBulkResult, RosterCommitRequest, RosterProposal } from "@shared/schema";
+import { addDays, formatShiftWindow } from "@shared/shifts";
+import { AlertTriangle, Wand2 } from "lucide-react";
+
+interface RosterGeneratorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  weekStart: string;
+  drivers: PublicUser[];
+  schedules: Route[];
+  buses: Bus[];
+}
+
+export function RosterGeneratorModal({ isOpen, onClose, weekStart, drivers, schedules, buses }: RosterGeneratorModalProps) {
+  const { toast } = useToast();
+  const [from, setFrom] = useState(weekStart);
+  const [to, setTo] = useState(addDays(weekStart, 6));
+  const [maxHoursPerDay, setMaxHoursPerDay] = useState(8);
+  const [minRestHours, setMinRestHours] = useState(10);
+  const [busesPerRoute, setBusesPerRoute] = useState(1);
+  const [proposal, setProposal] = useState<RosterProposal | null>(null);
+  const [accepted, setAccepted] = useState<Set<number>>(new Set());
+
+  const { data: limits } = useQuery<ComplianceLimits>({
+    queryKey: ['/api/compliance/limits'],
+    enabled: isOpen,
+  });
+
+  // Los límites de jornada configurados son el valor inicial de las restricciones
+  useEffect(() => {
+    if (isOpen) {
+      setFrom(weekStart);
+      setTo(addDays(weekStart, 6));
+      setProposal(null);
+      if (limits) {
+        setMaxHoursPerDay(limits.maxDailyHours);
+        setMinRestHours(limits.minRestHours);
+      }
+    }
+  }, [isOpen, weekStart, limits]);
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/roster/generate", { from, to, maxHoursPerDay, minRestHours, busesPerRoute });
+      return res.json() as Promise<RosterProposal>;
+    },
+    onSuccess: (result) => {
+      setProposal(result);
+      setAccepted(new Set(result.shifts.map((_, i) => i)));
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Error al generar la planificación", description: error.message });
+    },
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: async (request: RosterCommitRequest) => {
+      const res = await apiRequest("POST", "/api/roster/commit", request);
+      return res.json() as Promise<RosterBulkResult>;
+    },
+    onSuccess: (result, variables) => {
+      // Los turnos omitidos solo por advertencias (jornada, descanso, ruta inactiva) se pueden forzar
+      const forceable = variables.override ? [] : result.skipped.filter(s => s.conflicts.length > 0 && s.conflicts.every(c => c.overridable));
+      if (forceable.length > 0) {
+        const details = forceable.flatMap(s => s.conflicts.map(c => `• ${s.date} ${driverName(s.driverId)}: ${c.message}`)).join("\n");
+        if (confirm(`${result.created} turnos creados. ${forceable.length} tienen advertencias:\n${details}\n\n¿Crearlos de todos modos?`)) {
+          const shifts = variables.shifts.filter(shift =>
+            forceable.some(s => s.driverId === shift.driverId && s.date === shift.assignedDate)
+          );
+          commitMutation.mutate({ shifts, override: true });
+          return;
+        }
+      }
+
+      queryClient.invalidateQueries({ queryKey: ['/api/roster'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/shifts'] });
+      toast({
+        title: "Planificación guardada",
+        description: result.skipped.length > 0
+          ? `${result.created} creados, ${result.skipped.length} omitidos por conflictos`
+          : `${result.created} turnos creados`,
+        variant: result.skipped.length > 0 ? "destructive" : undefined,
+      });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Error al guardar la planificación", description: error.message });
+    },
+  });
+
+  const routeName = (id: string) => {
+    const route = schedules.find(s => s.id === id);
+    return route ? `Ruta ${route.routeNumber} - ${route.routeName}` : "Ruta";
+  };
+  const driverName = (id: string) => drivers.find(d => d.id === id)?.fullName ?? "Chofer";
+  const busNumber = (id: string) => buses.find(b => b.id === id)?.busNumber ?? "Bus";
+
+  const toggle = (index: number) => {
+    const next = new Set(accepted);
+    next.has(index) ? next.delete(index) : next.add(index);
+    setAccepted(next);
+  };
+
+  const proposalDates = proposal ? Array.from(new Set(proposal.shifts.map(s => s.assignedDate))) : [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Generar Planificación</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="generate-from">Desde</Label>
+              <Input id="generate-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="generate-to">Hasta</Label>
+              <Input id="generate-to" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="generate-max-hours">Máx. horas/día</Label>
+              <Input id="generate-max-hours" type="number" min={1} max={24} value={maxHoursPerDay} onChange={(e) => setMaxHoursPerDay(Number(e.target.value))} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="generate-rest">Descanso mín. (h)</Label>
+              <Input id="generate-rest" type="number" min={0} max={48} value={minRestHours} onChange={(e) => setMinRestHours(Number(e.target.value))} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="generate-buses">Buses por ruta</Label>
+              <Input id="generate-buses" type="number" min={1} max={20} value={busesPerRoute} onChange={(e) => setBusesPerRoute(Number(e.target.value))} />
+            </div>
+          </div>
+
+          <Button
+            variant="outline"
+            onClick={() => generateMutation.mutate()}
+            disabled={!from || !to || generateMutation.isPending}
+            data-testid="button-roster-generate-preview"
+          >
+            <Wand2 className="w-4 h-4 mr-2" />
+            {generateMutation.isPending ? "Generando..." : "Generar propuesta"}
+          </Button>
+
+          {proposal && (
+            <>
+              {proposal.unfilled.length > 0 && (
+                <div className="bg-orange-50 border border-orange-200 rounded-lg p-3 text-sm space-y-1">
+                  <p className="font-medium text-orange-800 flex items-center">
+                    <AlertTriangle className="w-4 h-4 mr-2" />
+                    {proposal.unfilled.length} turnos sin cubrir
+                  </p>
+                  {proposal.unfilled.map((gap, i) => (
+                    <p key={i} className="text-orange-700">
+                      {gap.date} · {routeName(gap.scheduleId)} · {formatShiftWindow(gap)}: {gap.reason}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {proposal.shifts.length === 0 ? (
+                <p className="text-sm text-gray-500">No se propusieron turnos nuevos para el periodo</p>
+              ) : (
+                <div className="space-y-3 max-h-80 overflow-y-auto">
+                  {proposalDates.map(date => (
+                    <div key={date}>
+                      <p className="text-sm font-semibold mb-1">{date}</p>
+                      {proposal.shifts.map((shift, i) => shift.assignedDate === date && (
+                        <label key={i} className="flex items-center space-x-2 p-2 border rounded-lg mb-1 text-sm cursor-pointer">
+                          <Checkbox checked={accepted.has(i)} onCheckedChange={() => toggle(i)} />
+                          <span className="font-medium">{formatShiftWindow(shift)}</span>
+                          <span className="text-gray-600">
+                            {routeName(shift.scheduleId)} · {driverName(shift.driverId)} · Bus {busNumber(shift.busId)}
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex justify-end space-x-2 border-t pt-4">
+                <Button variant="outline" onClick={onClose}>Cancelar</Button>
+                <Button
+                  onClick={() => commitMutation.mutate({ shifts: proposal!.shifts.filter((_, i) => accepted.has(i)) })}
+                  disabled={accepted.size === 0 || commitMutation.isPending}
+                  data-testid="button-roster-generate-commit"
+                >
+                  Confirmar {accepted.size} turnos
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,418 @@
+import { useState, type DragEvent } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorBody, queryClient } from "@/lib/queryClient";
+import { RosterGeneratorModal } from "@/components/roster-generator-modal";
+import {
+  AssignmentConflict,
+  Bus,
+  PublicUser,
+  Route,
+  RosterBulkResult,
+  RosterMoveRequest,
+  RosterShift,
+  WeekRosterResponse,
+} from "@shared/schema";
+import { addDays, dateInTimeZone, formatShiftWindow, startOfWeek, WEEKDAY_LABELS, dayOfWeek } from "@shared/shifts";
+import { AlertTriangle, ChevronLeft, ChevronRight, Copy, Plus, Repeat, Trash2, Wand2, X } from "lucide-react";
+
+interface RosterPlannerProps {
+  drivers: PublicUser[];
+  schedules: Route[];
+  buses: Bus[];
+  canManage: boolean;
+}
+
+interface ShiftTemplate {
+  scheduleId: string;
+  busId: string;
+  shiftStart: string;
+  shiftEnd: string;
+}
+
+const cellKey = (driverId: string, date: string) => `${driverId}|${date}`;
+const shiftKey = (shift: { id: string; shiftDate: string }) => `${shift.id}|${shift.shiftDate}`;
+
+const formatDay = (date: string) => `${WEEKDAY_LABELS[dayOfWeek(date)]} ${date.slice(8, 10)}/${date.slice(5, 7)}`;
+
+export function RosterPlanner({ drivers, schedules, buses, canManage }: RosterPlannerProps) {
+  const { toast } = useToast();
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(dateInTimeZone()));
+  const [selectedCells, setSelectedCells] = useState<Set<string>>(new Set());
+  const [selectedShifts, setSelectedShifts] = useState<Set<string>>(new Set());
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [isGeneratorOpen, setIsGeneratorOpen] = useState(false);
+  const [template, setTemplate] = useState<ShiftTemplate>({ scheduleId: "", busId: "", shiftStart: "06:00", shiftEnd: "14:00" });
+
+  const { data: roster, isLoading } = useQuery<WeekRosterResponse>({
+    queryKey: ['/api/roster', weekStart],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/roster?weekStart=${weekStart}`);
+      return res.json();
+    },
+  });
+
+  const days = roster?.days ?? Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const shifts = roster?.shifts ?? [];
+  const conflictCount = shifts.filter(s => s.conflicts.length > 0).length;
+
+  const routeById = (id: string) => schedules.find(s => s.id === id);
+  const busById = (id: string) => buses.find(b => b.id === id);
+  const holidayOn = (date: string) => roster?.holidays.find(h => h.date === date);
+
+  const changeWeek = (start: string) => {
+    setWeekStart(start);
+    setSelectedCells(new Set());
+    setSelectedShifts(new Set());
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/roster'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/assignments'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/shifts'] });
+  };
+
+  const reportBulkResult = (title: string, result: RosterBulkResult) => {
+    toast({
+      title,
+      description: result.skipped.length > 0
+        ? `${result.created} creados, ${result.skipped.length} omitidos por conflictos`
+        : `${result.created} turnos creados`,
+      variant: result.skipped.length > 0 ? "destructive" : undefined,
+    });
+  };
+
+  const moveMutation = useMutation({
+    mutationFn: (data: RosterMoveRequest) => apiRequest("POST", "/api/roster/move", data),
+    onSuccess: refresh,
+    onError: (error: any, variables) => {
+      const body = getErrorBody<{ message: string; conflicts?: AssignmentConflict[] }>(error);
+      const conflicts = body?.conflicts ?? [];
+
+      // Solo advertencias: se puede confirmar el movimiento
+      if (conflicts.length > 0 && conflicts.every(c => c.overridable) && !variables.override) {
+        const details = conflicts.map(c => `• ${c.message}`).join("\n");
+        if (confirm(`${details}\n\n¿Mover el turno de todos modos?`)) {
+          moveMutation.mutate({ ...variables, override: true });
+        }
+        return;
+      }
+
+      toast({
+        variant: "destructive",
+        title: "No se pudo mover el turno",
+        description: conflicts.length > 0 ? conflicts.map(c => c.message).join(" · ") : body?.message || error.message,
+      });
+    },
+  });
+
+  const copyWeekMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/roster/copy-week", { fromWeekStart: weekStart, toWeekStart: addDays(weekStart, 7) });
+      return res.json() as Promise<RosterBulkResult>;
+    },
+    onSuccess: (result) => {
+      refresh();
+      reportBulkResult("Semana copiada", result);
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Error al copiar la semana", description: error.message });
+    },
+  });
+
+  const bulkCreateMutation = useMutation({
+    mutationFn: async () => {
+      const cells = Array.from(selectedCells).map(key => {
+        const [driverId, date] = key.split("|");
+        return { driverId, date };
+      });
+      const res = await apiRequest("POST", "/api/roster/bulk-create", { ...template, cells });
+      return res.json() as Promise<RosterBulkResult>;
+    },
+    onSuccess: (result) => {
+      refresh();
+      setSelectedCells(new Set());
+      reportBulkResult("Turnos creados", result);
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Error al crear turnos", description: error.message });
+    },
+  });
+
+  const bulkDeleteMutation = useMutation({
+    mutationFn: async () => {
+      const occurrences = Array.from(selectedShifts).map(key => {
+        const [assignmentId, date] = key.split("|");
+        return { assignmentId, date };
+      });
+      const res = await apiRequest("POST", "/api/roster/bulk-delete", { occurrences });
+      return res.json() as Promise<{ removed: number }>;
+    },
+    onSuccess: (result) => {
+      refresh();
+      setSelectedShifts(new Set());
+      toast({ title: "Turnos eliminados", description: `${result.removed} turnos quitados de la planificación` });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Error al eliminar turnos", description: error.message });
+    },
+  });
+
+  const toggle = (set: Set<string>, key: string, update: (next: Set<string>) => void) => {
+    const next = new Set(set);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    update(next);
+  };
+
+  const handleDragStart = (event: DragEvent, shift: RosterShift) => {
+    event.dataTransfer.setData("application/json", JSON.stringify({ assignmentId: shift.id, date: shift.shiftDate, driverId: shift.driverId }));
+    event.dataTransfer.effectAllowed = "move";
+  };
+
+  const handleDrop = (event: DragEvent, driverId: string, targetDate: string) => {
+    event.preventDefault();
+    setDropTarget(null);
+    const raw = event.dataTransfer.getData("application/json");
+    if (!raw) return;
+
+    const source = JSON.parse(raw) as { assignmentId: string; date: string; driverId: string };
+    if (source.driverId === driverId && source.date === targetDate) return;
+    moveMutation.mutate({ assignmentId: source.assignmentId, date: source.date, driverId, targetDate });
+  };
+
+  const handleCopyWeek = () => {
+    if (confirm("¿Copiar los turnos de fecha única de esta semana a la siguiente? Los turnos recurrentes ya se repiten automáticamente.")) {
+      copyWeekMutation.mutate();
+    }
+  };
+
+  const handleBulkDelete = () => {
+    if (confirm(`¿Quitar ${selectedShifts.size} turnos de la planificación?`)) {
+      bulkDeleteMutation.mutate();
+    }
+  };
+
+  const templateReady = !!template.scheduleId && !!template.busId && !!template.shiftStart && !!template.shiftEnd && template.shiftStart !== template.shiftEnd;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center space-x-2">
+          <Button size="sm" variant="outline" onClick={() => changeWeek(addDays(weekStart, -7))} data-testid="button-roster-prev-week">
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => changeWeek(startOfWeek(dateInTimeZone()))}>
+            Hoy
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => changeWeek(addDays(weekStart, 7))} data-testid="button-roster-next-week">
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          <span className="text-sm font-medium ml-2">
+            Semana del {formatDay(days[0])} al {formatDay(days[6])}
+          </span>
+          {conflictCount > 0 && (
+            <Badge variant="destructive" data-testid="badge-roster-conflicts">
+              {conflictCount} con conflictos
+            </Badge>
+          )}
+        </div>
+        {canManage && (
+          <div className="flex items-center space-x-2">
+            {selectedShifts.size > 0 && (
+              <Button size="sm" variant="destructive" onClick={handleBulkDelete} disabled={bulkDeleteMutation.isPending}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Quitar {selectedShifts.size} turnos
+              </Button>
+            )}
+            <Button size="sm" variant="outline" onClick={handleCopyWeek} disabled={copyWeekMutation.isPending} data-testid="button-roster-copy-week">
+              <Copy className="w-4 h-4 mr-2" />
+              Copiar a la semana siguiente
+            </Button>
+            <Button size="sm" onClick={() => setIsGeneratorOpen(true)} data-testid="button-roster-generate">
+              <Wand2 className="w-4 h-4 mr-2" />
+              Generar planificación
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {canManage && selectedCells.size > 0 && (
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="font-medium">Crear turno en {selectedCells.size} celdas seleccionadas</h4>
+              <Button size="sm" variant="ghost" onClick={() => setSelectedCells(new Set())}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+              <div className="space-y-1">
+                <Label>Ruta</Label>
+                <Select value={template.scheduleId} onValueChange={(scheduleId) => setTemplate({ ...template, scheduleId })}>
+                  <SelectTrigger><SelectValue placeholder="Ruta" /></SelectTrigger>
+                  <SelectContent>
+                    {schedules.map(route => (
+                      <SelectItem key={route.id} value={route.id}>
+                        Ruta {route.routeNumber} - {route.routeName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Bus</Label>
+                <Select value={template.busId} onValueChange={(busId) => setTemplate({ ...template, busId })}>
+                  <SelectTrigger><SelectValue placeholder="Bus" /></SelectTrigger>
+                  <SelectContent>
+                    {buses.filter(b => b.isActive).map(bus => (
+                      <SelectItem key={bus.id} value={bus.id}>
+                        Unidad #{bus.busNumber} ({bus.plateNumber})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Inicio</Label>
+                <Input type="time" value={template.shiftStart} onChange={(e) => setTemplate({ ...template, shiftStart: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label>Fin</Label>
+                <Input type="time" value={template.shiftEnd} onChange={(e) => setTemplate({ ...template, shiftEnd: e.target.value })} />
+              </div>
+              <Button onClick={() => bulkCreateMutation.mutate()} disabled={!templateReady || bulkCreateMutation.isPending} data-testid="button-roster-bulk-create">
+                <Plus className="w-4 h-4 mr-2" />
+                Crear
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardContent className="p-0 overflow-x-auto">
+          {isLoading ? (
+            <p className="p-6 text-center text-gray-500">Cargando planificación...</p>
+          ) : drivers.length === 0 ? (
+            <p className="p-6 text-center text-gray-500">No hay choferes registrados</p>
+          ) : (
+            <table className="w-full table-fixed min-w-[900px]">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="w-40 px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Chofer</th>
+                  {days.map(date => {
+                    const holiday = holidayOn(date);
+                    return (
+                      <th key={date} className={`px-2 py-2 text-left text-xs font-medium uppercase ${date === dateInTimeZone() ? 'text-primary' : 'text-gray-500'}`}>
+                        {formatDay(date)}
+                        {holiday && (
+                          <span className="block normal-case font-normal text-purple-600 truncate" title={holiday.name}>
+                            {holiday.name}
+                          </span>
+                        )}
+                      </th>
+                    );
+                  })}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {drivers.map(driver => (
+                  <tr key={driver.id}>
+                    <td className="px-3 py-2 text-sm font-medium truncate" title={driver.fullName}>{driver.fullName}</td>
+                    {days.map(date => {
+                      const key = cellKey(driver.id, date);
+                      const cellShifts = shifts.filter(s => s.driverId === driver.id && s.shiftDate === date);
+                      return (
+                        <td
+                          key={date}
+                          className={`px-1 py-1 align-top h-20 border-l cursor-pointer ${
+                            dropTarget === key ? 'bg-blue-100' : selectedCells.has(key) ? 'bg-blue-50 ring-2 ring-inset ring-blue-400' : holidayOn(date) ? 'bg-purple-50' : ''
+                          }`}
+                          onClick={() => canManage && toggle(selectedCells, key, setSelectedCells)}
+                          onDragOver={(e) => {
+                            if (!canManage) return;
+                            e.preventDefault();
+                            setDropTarget(key);
+                          }}
+                          onDragLeave={() => setDropTarget(current => (current === key ? null : current))}
+                          onDrop={(e) => canManage && handleDrop(e, driver.id, date)}
+                          data-testid={`roster-cell-${driver.id}-${date}`}
+                        >
+                          <div className="space-y-1">
+                            {cellShifts.map(shift => {
+                              const route = routeById(shift.scheduleId);
+                              const bus = busById(shift.busId);
+                              const hasConflicts = shift.conflicts.length > 0;
+                              const selected = selectedShifts.has(shiftKey(shift));
+                              return (
+                                <div
+                                  key={shiftKey(shift)}
+                                  draggable={canManage}
+                                  onDragStart={(e) => handleDragStart(e, shift)}
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    if (canManage) toggle(selectedShifts, shiftKey(shift), setSelectedShifts);
+                                  }}
+                                  title={hasConflicts ? shift.conflicts.map(c => c.message).join("\n") : undefined}
+                                  className={`rounded border px-1.5 py-1 text-xs bg-white ${
+                                    hasConflicts ? 'border-red-400 bg-red-50' : 'border-gray-200'
+                                  } ${selected ? 'ring-2 ring-red-500' : ''} ${canManage ? 'cursor-move' : ''}`}
+                                  data-testid={`roster-shift-${shift.id}-${shift.shiftDate}`}
+                                >
+                                  <div className="flex items-center gap-1">
+                                    <span
+                                      className="inline-block rounded px-1 text-white font-semibold"
+                                      style={{ backgroundColor: route?.color || '#6b7280' }}
+                                    >
+                                      {route?.routeNumber || '?'}
+                                    </span>
+                                    <span className="truncate">{formatShiftWindow(shift)}</span>
+                                    {shift.isRecurring && <Repeat className="w-3 h-3 text-gray-400 shrink-0" />}
+                                    {hasConflicts && <AlertTriangle className="w-3 h-3 text-red-600 shrink-0" />}
+                                  </div>
+                                  <p className="text-gray-500 truncate">Unidad #{bus?.busNumber || 'N/A'}</p>
+                                </div>
+                              );
+                            })}
+                          </div>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      {canManage && (
+        <p className="text-xs text-gray-500">
+          Arrastre un turno para moverlo a otro chofer o día. Haga clic en celdas vacías para crear turnos en lote,
+          o en los turnos para seleccionarlos y quitarlos. Los turnos marcados en rojo tienen conflictos.
+        </p>
+      )}
+
+      {canManage && (
+        <RosterGeneratorModal
+          isOpen={isGeneratorOpen}
+          onClose={() => setIsGeneratorOpen(false)}
+          weekStart={weekStart}
+          drivers={drivers}
+          schedules={schedules}
+          buses={buses}
+        />
+      )}
+    </div>
+  );
+}
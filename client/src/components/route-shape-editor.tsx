@@ -0,0 +1,110 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { GoogleMap, type MapPoint } from "@/components/google-map";
+import { decodePolyline, distanceMeters, encodePolyline } from "@shared/geo";
+import type { Stop } from "@shared/schema";
+import { Eraser, Undo2 } from "lucide-react";
+
+interface RouteShapeEditorProps {
+  value: string | null | undefined; // Polilínea codificada
+  onChange: (value: string | null) => void;
+  color: string;
+  stops: Stop[];
+  disabled?: boolean;
+}
+
+// Distancia máxima para ajustar un clic a la parada más cercana
+const SNAP_RADIUS_M = 40;
+const DEFAULT_CENTER = { lat: 14.634915, lng: -90.506882 }; // Ciudad de Guatemala
+
+const stopPosition = (stop: Stop): MapPoint => ({
+  lat: parseFloat(stop.latitude),
+  lng: parseFloat(stop.longitude)
+});
+
+export function RouteShapeEditor({ value, onChange, color, stops, disabled }: RouteShapeEditorProps) {
+  const [history, setHistory] = useState<(string | null)[]>([]);
+  const [snapToStops, setSnapToStops] = useState(true);
+  const [center, setCenter] = useState<MapPoint | null>(null);
+
+  const path = useMemo(() => (value ? decodePolyline(value) : []), [value]);
+
+  // Centrar el mapa una sola vez, en el trazado existente o en la primera parada
+  useEffect(() => {
+    if (center) return;
+    const initial = path[0] || (stops[0] && stopPosition(stops[0]));
+    if (initial) setCenter(initial);
+  }, [center, path, stops]);
+
+  const commit = (nextPath: MapPoint[]) => {
+    setHistory([...history, value ?? null]);
+    onChange(nextPath.length > 0 ? encodePolyline(nextPath) : null);
+  };
+
+  const snap = (point: MapPoint): MapPoint => {
+    if (!snapToStops) return point;
+    let nearest: MapPoint | null = null;
+    let nearestDistance = SNAP_RADIUS_M;
+    for (const stop of stops) {
+      const position = stopPosition(stop);
+      const distance = distanceMeters(point, position);
+      if (distance <= nearestDistance) {
+        nearest = position;
+        nearestDistance = distance;
+      }
+    }
+    return nearest || point;
+  };
+
+  const handleMapClick = (point: MapPoint) => {
+    commit([...path, snap(point)]);
+  };
+
+  const handleUndo = () => {
+    if (history.length === 0) return;
+    onChange(history[history.length - 1]);
+    setHistory(history.slice(0, -1));
+  };
+
+  const routeShapes = useMemo(() => [{ id: "draft", path, color }], [path, color]);
+
+  return (
+    <div className="space-y-2">
+      <div className="h-72 rounded-lg overflow-hidden bg-gray-100">
+        <GoogleMap
+          locations={[]}
+          center={center || DEFAULT_CENTER}
+          zoom={14}
+          className="w-full h-72"
+          stops={stops}
+          routeShapes={routeShapes}
+          onMapClick={disabled ? undefined : handleMapClick}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Button type="button" size="sm" variant="outline" onClick={handleUndo} disabled={disabled || history.length === 0} data-testid="button-shape-undo">
+          <Undo2 className="w-4 h-4 mr-2" />
+          Deshacer
+        </Button>
+        <Button type="button" size="sm" variant="outline" onClick={() => commit([])} disabled={disabled || path.length === 0} data-testid="button-shape-clear">
+          <Eraser className="w-4 h-4 mr-2" />
+          Limpiar
+        </Button>
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="snap-to-stops"
+            checked={snapToStops}
+            onCheckedChange={(checked) => setSnapToStops(checked === true)}
+          />
+          <Label htmlFor="snap-to-stops" className="font-normal">Ajustar a paradas</Label>
+        </div>
+        <span className="text-xs text-gray-500 ml-auto">
+          {path.length} puntos · Haga clic en el mapa para agregar puntos
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Route, RouteStopWithStop, RouteStopsUpdate, Stop } from "@shared/schema";
+import { ArrowDown, ArrowUp, Plus, Save, Trash2, Route as RouteIcon } from "lucide-react";
+
+interface RouteStopsEditorProps {
+  schedules: Route[];
+  stops: Stop[];
+  canManage: boolean;
+}
+
+type DraftEntry = RouteStopsUpdate["stops"][number];
+
+export function RouteStopsEditor({ schedules, stops, canManage }: RouteStopsEditorProps) {
+  const { toast } = useToast();
+  const [routeId, setRouteId] = useState("");
+  const [draft, setDraft] = useState<DraftEntry[]>([]);
+  const [stopToAdd, setStopToAdd] = useState("");
+
+  const { data: routeStops, isLoading } = useQuery<RouteStopWithStop[]>({
+    queryKey: ['/api/schedules', routeId, 'stops'],
+    enabled: !!routeId,
+  });
+
+  // Copiar la secuencia guardada al borrador editable
+  useEffect(() => {
+    setDraft((routeStops || []).map(rs => ({
+      stopId: rs.stopId,
+      travelOffsetMinutes: rs.travelOffsetMinutes,
+    })));
+  }, [routeStops]);
+
+  const saveMutation = useMutation({
+    mutationFn: (update: RouteStopsUpdate) =>
+      apiRequest("PUT", `/api/schedules/${routeId}/stops`, update),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schedules', routeId, 'stops'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/route-stops'] });
+      toast({
+        title: "Paradas guardadas",
+        description: "La secuencia de paradas de la ruta ha sido actualizada",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "No se pudieron guardar las paradas",
+      });
+    },
+  });
+
+  const stopById = (id: string) => stops.find(stop => stop.id === id);
+  const availableStops = stops.filter(stop => stop.isActive && !draft.some(entry => entry.stopId === stop.id));
+
+  const addStop = () => {
+    if (!stopToAdd) return;
+    const lastOffset = draft.length > 0 ? draft[draft.length - 1].travelOffsetMinutes : 0;
+    setDraft([...draft, { stopId: stopToAdd, travelOffsetMinutes: lastOffset }]);
+    setStopToAdd("");
+  };
+
+  const moveStop = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= draft.length) return;
+    const next = [...draft];
+    [next[index], next[target]] = [next[target], next[index]];
+    setDraft(next);
+  };
+
+  const updateOffset = (index: number, value: string) => {
+    const minutes = Math.max(0, parseInt(value) || 0);
+    setDraft(draft.map((entry, i) => i === index ? { ...entry, travelOffsetMinutes: minutes } : entry));
+  };
+
+  const removeStop = (index: number) => {
+    setDraft(draft.filter((_, i) => i !== index));
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4 sm:p-6 space-y-4">
+        <div className="flex items-center space-x-2">
+          <RouteIcon className="w-5 h-5 text-primary" />
+          <h3 className="text-lg font-semibold">Paradas por Ruta</h3>
+        </div>
+
+        <div className="max-w-sm space-y-1">
+          <Label>Ruta</Label>
+          <Select value={routeId} onValueChange={setRouteId}>
+            <SelectTrigger data-testid="select-route-stops-route">
+              <SelectValue placeholder="Seleccione una ruta" />
+            </SelectTrigger>
+            <SelectContent>
+              {schedules.map(schedule => (
+                <SelectItem key={schedule.id} value={schedule.id}>
+                  Ruta {schedule.routeNumber} - {schedule.routeName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {routeId && (
+          isLoading ? (
+            <p className="text-sm text-gray-500">Cargando paradas...</p>
+          ) : (
+            <div className="space-y-3">
+              {draft.length === 0 ? (
+                <p className="text-sm text-gray-500">Esta ruta aún no tiene paradas asignadas.</p>
+              ) : (
+                <ol className="space-y-2">
+                  {draft.map((entry, index) => {
+                    const stop = stopById(entry.stopId);
+                    return (
+                      <li key={entry.stopId} className="flex items-center gap-2 p-2 border rounded-lg" data-testid={`route-stop-${index}`}>
+                        <span className="w-6 text-center text-sm font-semibold text-gray-500">{index + 1}</span>
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium truncate">{stop?.name || 'Parada desconocida'}</p>
+                          <p className="text-xs text-gray-500">
+                            {stop?.code}{stop?.wheelchairAccessible ? ' · ♿' : ''}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <Input
+                            type="number"
+                            min="0"
+                            className="w-20"
+                            value={entry.travelOffsetMinutes}
+                            onChange={(e) => updateOffset(index, e.target.value)}
+                            disabled={!canManage}
+                            aria-label="Minutos desde la primera parada"
+                          />
+                          <span className="text-xs text-gray-500">min</span>
+                        </div>
+                        {canManage && (
+                          <div className="flex gap-1">
+                            <Button size="sm" variant="outline" onClick={() => moveStop(index, -1)} disabled={index === 0}>
+                              <ArrowUp className="w-4 h-4" />
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => moveStop(index, 1)} disabled={index === draft.length - 1}>
+                              <ArrowDown className="w-4 h-4" />
+                            </Button>
+                            <Button size="sm" variant="destructive" onClick={() => removeStop(index)}>
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ol>
+              )}
+
+              {canManage && (
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Select value={stopToAdd} onValueChange={setStopToAdd}>
+                    <SelectTrigger className="sm:max-w-sm" data-testid="select-route-stops-add">
+                      <SelectValue placeholder="Agregar parada..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {availableStops.map(stop => (
+                        <SelectItem key={stop.id} value={stop.id}>
+                          {stop.code} - {stop.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" onClick={addStop} disabled={!stopToAdd}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Agregar
+                  </Button>
+                  <Button
+                    className="sm:ml-auto bg-primary hover:bg-primary-dark"
+                    onClick={() => saveMutation.mutate({ stops: draft })}
+                    disabled={saveMutation.isPending}
+                    data-testid="button-save-route-stops"
+                  >
+                    <Save className="w-4 h-4 mr-2" />
+                    {saveMutation.isPending ? "Guardando..." : "Guardar secuencia"}
+                  </Button>
+                </div>
+              )}
+            </div>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,8 @@
+import { useEffect, useMemo } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation } from "@tanstack/react-query";
-import { InsertRoute, insertRouteSchema, Route } from "@shared/schema";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { InsertRoute, insertRouteSchema, Route, Stop } from "@shared/schema";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,6 +10,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { RouteShapeEditor } from "@/components/route-shape-editor";
 import { X } from "lucide-react";
 
 interface ScheduleModalProps {
@@ -21,16 +23,36 @@ export function ScheduleModal({ isOpen, onClose, schedule }: ScheduleModalProps)
   const { toast } = useToast();
   const isEditing = !!schedule;
 
+  const defaultValues = (route?: Route | null): InsertRoute => ({
+    routeName: route?.routeName || "",
+    routeNumber: route?.routeNumber || 1,
+    startTime: route?.startTime || "06:00",
+    endTime: route?.endTime || "22:00",
+    color: route?.color || "#2563eb",
+    shape: route?.shape ?? null,
+    offRouteCorridorMeters: route?.offRouteCorridorMeters ?? 150,
+    offRouteGraceSeconds: route?.offRouteGraceSeconds ?? 120,
+    isActive: route?.isActive ?? true,
+  });
+
   const form = useForm<InsertRoute>({
     resolver: zodResolver(insertRouteSchema),
-    defaultValues: {
-      routeName: schedule?.routeName || "",
-      routeNumber: schedule?.routeNumber || 1,
-      startTime: schedule?.startTime || "06:00",
-      endTime: schedule?.endTime || "22:00",
-      isActive: schedule?.isActive ?? true,
-    },
+    defaultValues: defaultValues(schedule),
+  });
+
+  // Cargar los datos de la ruta seleccionada al abrir el modal
+  useEffect(() => {
+    if (isOpen) {
+      form.reset(defaultValues(schedule));
+    }
+  }, [isOpen, schedule]);
+
+  // Paradas visibles en el editor de trazado (sirven para ajustar los puntos)
+  const { data: stops = [] } = useQuery<Stop[]>({
+    queryKey: ['/api/stops'],
+    enabled: isOpen,
   });
+  const activeStops = useMemo(() => stops.filter(stop => stop.isActive), [stops]);
 
   const createMutation = useMutation({
     mutationFn: (data: InsertRoute) => apiRequest("POST", "/api/schedules", data),
@@ -177,7 +199,86 @@ export function ScheduleModal({ isOpen, onClose, schedule }: ScheduleModalProps)
               />
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <FormField
+                control={form.control}
+                name="color"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Color de la Ruta</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="color"
+                        className="w-20 h-10 p-1"
+                        {...field}
+                        disabled={isLoading}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="offRouteCorridorMeters"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Corredor permitido (m)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="20"
+                        max="2000"
+                        {...field}
+                        onChange={(e) => field.onChange(parseInt(e.target.value))}
+                        disabled={isLoading}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="offRouteGraceSeconds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tolerancia de desvío (s)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="3600"
+                        {...field}
+                        onChange={(e) => field.onChange(parseInt(e.target.value))}
+                        disabled={isLoading}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
 
+            <FormField
+              control={form.control}
+              name="shape"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Trazado de la Ruta</FormLabel>
+                  <RouteShapeEditor
+                    value={field.value}
+                    onChange={field.onChange}
+                    color={form.watch("color") || "#2563eb"}
+                    stops={activeStops}
+                    disabled={isLoading}
+                  />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
 
             <div className="flex space-x-4">
               <Button 
@@ -0,0 +1,27 @@
+import { Badge } from "@/components/ui/badge";
+import { ShiftRequest, ShiftRequestStatus } from "@shared/schema";
+
+const STATUS_LABELS: Record<ShiftRequestStatus, { label: string; className: string }> = {
+  pendiente_chofer: { label: "Esperando al compañero", className: "bg-yellow-100 text-yellow-800" },
+  pendiente_admin: { label: "Esperando aprobación", className: "bg-blue-100 text-blue-800" },
+  aprobada: { label: "Aprobada", className: "bg-green-100 text-green-800" },
+  rechazada: { label: "Rechazada", className: "bg-red-100 text-red-800" },
+  cancelada: { label: "Cancelada", className: "bg-gray-100 text-gray-700" },
+};
+
+export const shiftRequestStatusLabel = (status: ShiftRequestStatus) => STATUS_LABELS[status].label;
+
+export function ShiftRequestStatusBadge({ status }: { status: ShiftRequestStatus }) {
+  return <Badge className={STATUS_LABELS[status].className}>{STATUS_LABELS[status].label}</Badge>;
+}
+
+// Resumen de una línea de la solicitud
+export function describeShiftRequest(request: ShiftRequest, targetName: string) {
+  if (request.type === "permiso") {
+    return request.startDate === request.endDate
+      ? `Permiso el ${request.startDate}`
+      : `Permiso del ${request.startDate} al ${request.endDate}`;
+  }
+  const exchange = request.targetShiftDate ? ` a cambio del turno del ${request.targetShiftDate}` : "";
+  return `Turno del ${request.shiftDate} para ${targetName}${exchange}`;
+}
@@ -0,0 +1,261 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { EffectiveShift, PublicDriverCard, Route, ShiftRequestStatus, ShiftRequestType, ShiftRequestWithShifts } from "@shared/schema";
+import { dateInTimeZone, formatShiftWindow } from "@shared/shifts";
+import { ArrowLeftRight, Check, Send, X } from "lucide-react";
+import { ShiftRequestStatusBadge, describeShiftRequest } from "@/components/shift-request-status";
+
+interface ShiftRequestsPanelProps {
+  driverId: string;
+}
+
+const occurrenceKey = (shift: { id: string; shiftDate: string }) => `${shift.id}|${shift.shiftDate}`;
+
+export function ShiftRequestsPanel({ driverId }: ShiftRequestsPanelProps) {
+  const { toast } = useToast();
+  const today = dateInTimeZone();
+  const [type, setType] = useState<ShiftRequestType>("intercambio");
+  const [occurrence, setOccurrence] = useState("");
+  const [targetDriverId, setTargetDriverId] = useState("");
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(today);
+  const [reason, setReason] = useState("");
+  // Turno que el chofer ofrece a cambio al aceptar, por solicitud
+  const [offered, setOffered] = useState<Record<string, string>>({});
+
+  const { data: requests = [] } = useQuery<ShiftRequestWithShifts[]>({
+    queryKey: ['/api/shift-requests'],
+    refetchInterval: 60000,
+  });
+
+  const { data: upcoming = [] } = useQuery<EffectiveShift[]>({
+    queryKey: ['/api/assignments/driver', driverId, 'upcoming'],
+  });
+
+  const { data: drivers = [] } = useQuery<PublicDriverCard[]>({
+    queryKey: ['/api/drivers/public'],
+  });
+
+  const { data: schedules = [] } = useQuery<Route[]>({
+    queryKey: ['/api/schedules'],
+  });
+
+  const routeLabel = (id?: string) => {
+    const route = schedules.find(s => s.id === id);
+    return route ? `Ruta ${route.routeNumber}` : "Ruta";
+  };
+  const driverName = (id: string | null) => drivers.find(d => d.id === id)?.fullName ?? "Chofer";
+  const shiftLabel = (shift: EffectiveShift) => `${shift.shiftDate} · ${formatShiftWindow(shift)} · ${routeLabel(shift.scheduleId)}`;
+  const findUpcoming = (key: string) => upcoming.find(s => occurrenceKey(s) === key);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/shift-requests'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => {
+      const shift = findUpcoming(occurrence);
+      const body = type === "intercambio"
+        ? { type, assignmentId: shift?.id, shiftDate: shift?.shiftDate, targetDriverId, reason: reason || null }
+        : { type, startDate, endDate, reason };
+      return apiRequest("POST", "/api/shift-requests", body);
+    },
+    onSuccess: () => {
+      refresh();
+      setOccurrence("");
+      setTargetDriverId("");
+      setReason("");
+      toast({
+        title: "Solicitud enviada",
+        description: type === "intercambio" ? "Su compañero debe aceptarla antes de la aprobación" : "El administrador revisará su permiso",
+      });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "No se pudo enviar la solicitud", description: error.message });
+    },
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: ({ id, accept }: { id: string; accept: boolean }) => {
+      const shift = accept && offered[id] ? findUpcoming(offered[id]) : undefined;
+      return apiRequest("POST", `/api/shift-requests/${id}/respond`, {
+        accept,
+        targetAssignmentId: shift?.id,
+        targetShiftDate: shift?.shiftDate,
+      });
+    },
+    onSuccess: refresh,
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "No se pudo responder", description: error.message });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/shift-requests/${id}/cancel`),
+    onSuccess: refresh,
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "No se pudo cancelar", description: error.message });
+    },
+  });
+
+  const received = requests.filter(r => r.targetDriverId === driverId && r.status === "pendiente_chofer");
+  const mine = requests.filter(r => r.requesterId === driverId);
+  const formReady = type === "intercambio"
+    ? !!occurrence && !!targetDriverId
+    : !!startDate && !!endDate && endDate >= startDate && !!reason.trim();
+
+  return (
+    <div className="space-y-6">
+      {received.length > 0 && (
+        <Card>
+          <CardContent className="p-4 sm:p-6 space-y-3">
+            <h3 className="text-lg font-semibold text-gray-800">Solicitudes recibidas</h3>
+            {received.map(request => (
+              <div key={request.id} className="border rounded-lg p-3 space-y-2" data-testid={`received-request-${request.id}`}>
+                <p className="text-sm">
+                  <span className="font-medium">{driverName(request.requesterId)}</span> le ofrece su turno del{" "}
+                  {request.shiftDate}
+                  {request.shift && ` (${formatShiftWindow(request.shift)}, ${routeLabel(request.shift.scheduleId)})`}
+                </p>
+                {request.reason && <p className="text-xs text-gray-600">Motivo: {request.reason}</p>}
+                <div className="space-y-1">
+                  <Label className="text-xs">Turno que entrega a cambio (opcional)</Label>
+                  <Select
+                    value={offered[request.id] || "none"}
+                    onValueChange={(value) => setOffered({ ...offered, [request.id]: value === "none" ? "" : value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Ninguno, solo tomo el turno</SelectItem>
+                      {upcoming.map(shift => (
+                        <SelectItem key={occurrenceKey(shift)} value={occurrenceKey(shift)}>{shiftLabel(shift)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex space-x-2">
+                  <Button size="sm" onClick={() => respondMutation.mutate({ id: request.id, accept: true })} disabled={respondMutation.isPending}>
+                    <Check className="w-4 h-4 mr-1" />
+                    Aceptar
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => respondMutation.mutate({ id: request.id, accept: false })} disabled={respondMutation.isPending}>
+                    <X className="w-4 h-4 mr-1" />
+                    Rechazar
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardContent className="p-4 sm:p-6 space-y-4">
+          <h3 className="text-lg font-semibold text-gray-800">Nueva solicitud</h3>
+
+          <div className="space-y-1">
+            <Label>Tipo</Label>
+            <Select value={type} onValueChange={(value) => setType(value as ShiftRequestType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="intercambio">Intercambio de turno</SelectItem>
+                <SelectItem value="permiso">Permiso (días libres)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {type === "intercambio" ? (
+            <>
+              <div className="space-y-1">
+                <Label>Turno que desea ceder</Label>
+                <Select value={occurrence} onValueChange={setOccurrence}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={upcoming.length === 0 ? "No tiene turnos próximos" : "Seleccione un turno"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {upcoming.map(shift => (
+                      <SelectItem key={occurrenceKey(shift)} value={occurrenceKey(shift)}>{shiftLabel(shift)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Compañero</Label>
+                <Select value={targetDriverId} onValueChange={setTargetDriverId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Seleccione al chofer" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {drivers.filter(d => d.id !== driverId).map(driver => (
+                      <SelectItem key={driver.id} value={driver.id}>{driver.fullName}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          ) : (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="time-off-start">Desde</Label>
+                <Input id="time-off-start" type="date" min={today} value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="time-off-end">Hasta</Label>
+                <Input id="time-off-end" type="date" min={startDate} value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label htmlFor="request-reason">Motivo{type === "intercambio" ? " (opcional)" : ""}</Label>
+            <Textarea id="request-reason" rows={2} value={reason} onChange={(e) => setReason(e.target.value)} />
+          </div>
+
+          <Button onClick={() => createMutation.mutate()} disabled={!formReady || createMutation.isPending} data-testid="button-send-shift-request">
+            <Send className="w-4 h-4 mr-2" />
+            Enviar solicitud
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-4 sm:p-6 space-y-3">
+          <h3 className="text-lg font-semibold text-gray-800">Mis solicitudes</h3>
+          {mine.length === 0 ? (
+            <p className="text-sm text-gray-500">No ha realizado solicitudes</p>
+          ) : (
+            mine.map(request => (
+              <div key={request.id} className="border rounded-lg p-3 flex items-start justify-between gap-3">
+                <div className="text-sm space-y-1 min-w-0">
+                  <p className="font-medium flex items-center">
+                    {request.type === "intercambio" && <ArrowLeftRight className="w-4 h-4 mr-1 flex-shrink-0" />}
+                    {describeShiftRequest(request, driverName(request.targetDriverId))}
+                  </p>
+                  {request.reviewNote && <p className="text-xs text-gray-600">Nota: {request.reviewNote}</p>}
+                  <ShiftRequestStatusBadge status={request.status as ShiftRequestStatus} />
+                </div>
+                {(request.status === "pendiente_chofer" || request.status === "pendiente_admin") && (
+                  <Button size="sm" variant="ghost" onClick={() => cancelMutation.mutate(request.id)} disabled={cancelMutation.isPending}>
+                    Cancelar
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
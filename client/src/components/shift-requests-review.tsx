@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorBody, queryClient } from "@/lib/queryClient";
+import {
+  AssignmentConflict,
+  AssignmentHistoryEntry,
+  PublicUser,
+  ReviewShiftRequest,
+  Route,
+  ShiftRequestStatus,
+  ShiftRequestWithShifts,
+  ShiftSummary,
+  shiftRequestStatuses,
+} from "@shared/schema";
+import { formatShiftWindow } from "@shared/shifts";
+import { Check, History, X } from "lucide-react";
+import { ShiftRequestStatusBadge, shiftRequestStatusLabel } from "@/components/shift-request-status";
+
+interface ShiftRequestsReviewProps {
+  drivers: PublicUser[];
+  schedules: Route[];
+  canManage: boolean;
+}
+
+type ReviewVariables = ReviewShiftRequest & { id: string };
+
+export function ShiftRequestsReview({ drivers, schedules, canManage }: ShiftRequestsReviewProps) {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<ShiftRequestStatus | "all">("pendiente_admin");
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+
+  const { data: requests = [], isLoading } = useQuery<ShiftRequestWithShifts[]>({
+    queryKey: ['/api/shift-requests'],
+    refetchInterval: 60000,
+  });
+
+  const { data: history = [] } = useQuery<AssignmentHistoryEntry[]>({
+    queryKey: ['/api/shift-requests', historyFor, 'history'],
+    enabled: !!historyFor,
+  });
+
+  const driverName = (id: string | null) => drivers.find(d => d.id === id)?.fullName ?? "—";
+  const shiftDetail = (date: string | null, shift: ShiftSummary | null) => {
+    if (!date) return null;
+    const route = shift ? schedules.find(s => s.id === shift.scheduleId) : undefined;
+    return shift
+      ? `${date} · ${formatShiftWindow(shift)}${route ? ` · Ruta ${route.routeNumber}` : ""}`
+      : date;
+  };
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ id, ...data }: ReviewVariables) => apiRequest("POST", `/api/shift-requests/${id}/review`, data),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/shift-requests'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/roster'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/shifts'] });
+      toast({ title: variables.approve ? "Solicitud aprobada" : "Solicitud rechazada" });
+    },
+    onError: (error: any, variables) => {
+      const body = getErrorBody<{ message: string; conflicts?: AssignmentConflict[] }>(error);
+      const conflicts = body?.conflicts ?? [];
+
+      // Solo advertencias: se puede aprobar de todos modos
+      if (conflicts.length > 0 && conflicts.every(c => c.overridable) && !variables.override) {
+        const details = conflicts.map(c => `• ${c.message}`).join("\n");
+        if (confirm(`${details}\n\n¿Aprobar el intercambio de todos modos?`)) {
+          reviewMutation.mutate({ ...variables, override: true });
+        }
+        return;
+      }
+
+      toast({
+        variant: "destructive",
+        title: "No se pudo revisar la solicitud",
+        description: conflicts.length > 0 ? conflicts.map(c => c.message).join(" · ") : body?.message || error.message,
+      });
+    },
+  });
+
+  const review = (id: string, approve: boolean) => {
+    reviewMutation.mutate({ id, approve, note: notes[id] || null });
+  };
+
+  const rows = requests.filter(r => statusFilter === "all" || r.status === statusFilter);
+
+  return (
+    <Card>
+      <CardContent className="p-4 sm:p-6">
+        <div className="flex items-end justify-between mb-4">
+          <div className="space-y-1 w-56">
+            <Label>Estado</Label>
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as ShiftRequestStatus | "all")}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todas</SelectItem>
+                {shiftRequestStatuses.map(status => (
+                  <SelectItem key={status} value={status}>{shiftRequestStatusLabel(status)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Cargando solicitudes...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-gray-500">No hay solicitudes</p>
+        ) : (
+          <div className="space-y-3">
+            {rows.map(request => (
+              <div key={request.id} className="border rounded-lg p-4 space-y-2" data-testid={`shift-request-${request.id}`}>
+                <div className="flex items-start justify-between gap-3">
+                  <div className="text-sm space-y-1">
+                    <p className="font-medium">
+                      {request.type === "intercambio" ? "Intercambio" : "Permiso"} · {driverName(request.requesterId)}
+                    </p>
+                    {request.type === "intercambio" ? (
+                      <>
+                        <p>Cede: {shiftDetail(request.shiftDate, request.shift)} → {driverName(request.targetDriverId)}</p>
+                        {request.targetShiftDate && (
+                          <p>Recibe: {shiftDetail(request.targetShiftDate, request.targetShift)}</p>
+                        )}
+                      </>
+                    ) : (
+                      <p>Del {request.startDate} al {request.endDate}</p>
+                    )}
+                    {request.reason && <p className="text-gray-600">Motivo: {request.reason}</p>}
+                    {request.reviewNote && <p className="text-gray-600">Nota: {request.reviewNote}</p>}
+                  </div>
+                  <ShiftRequestStatusBadge status={request.status as ShiftRequestStatus} />
+                </div>
+
+                {canManage && request.status === "pendiente_admin" && (
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <Input
+                      placeholder="Nota para el chofer (opcional)"
+                      value={notes[request.id] || ""}
+                      onChange={(e) => setNotes({ ...notes, [request.id]: e.target.value })}
+                    />
+                    <Button size="sm" onClick={() => review(request.id, true)} disabled={reviewMutation.isPending}>
+                      <Check className="w-4 h-4 mr-1" />
+                      Aprobar
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => review(request.id, false)} disabled={reviewMutation.isPending}>
+                      <X className="w-4 h-4 mr-1" />
+                      Rechazar
+                    </Button>
+                  </div>
+                )}
+
+                {request.status === "aprobada" && (
+                  <Button size="sm" variant="ghost" onClick={() => setHistoryFor(historyFor === request.id ? null : request.id)}>
+                    <History className="w-4 h-4 mr-1" />
+                    {historyFor === request.id ? "Ocultar cambios" : "Ver cambios aplicados"}
+                  </Button>
+                )}
+                {historyFor === request.id && (
+                  <ul className="text-xs text-gray-600 space-y-1 pl-4 list-disc">
+                    {history.length === 0 ? (
+                      <li>Sin cambios registrados</li>
+                    ) : history.map(entry => (
+                      <li key={entry.id}>
+                        {entry.shiftDate}: {driverName(entry.previousDriverId)} → {entry.newDriverId ? driverName(entry.newDriverId) : "sin chofer"}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,145 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { SosIncidentWithDriver } from "@shared/schema";
+import { SosStatusBadge, SosTimelineDialog } from "@/components/sos-timeline";
+import { CheckCircle, History, Navigation, Siren } from "lucide-react";
+
+interface SosAlarmProps {
+  canManage: boolean;
+  onLocateDriver: (driverId: string) => void;
+}
+
+const formatTime = (value: Date | string) =>
+  new Date(value).toLocaleTimeString("es-GT", {
+    timeZone: "America/Guatemala",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// Pitido intermitente mientras haya emergencias sin reconocer. Los navegadores pueden
+// bloquear el audio hasta que el usuario interactúe con la página; en ese caso solo
+// queda la alarma visual.
+function useAlarmSound(active: boolean) {
+  useEffect(() => {
+    if (!active) return;
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    if (!AudioContextClass) return;
+
+    const context: AudioContext = new AudioContextClass();
+    const beep = () => {
+      context.resume().catch(() => {});
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.type = "square";
+      oscillator.frequency.value = 880;
+      gain.gain.value = 0.15;
+      oscillator.connect(gain);
+      gain.connect(context.destination);
+      oscillator.start();
+      oscillator.stop(context.currentTime + 0.4);
+    };
+
+    beep();
+    const interval = setInterval(beep, 1500);
+    return () => {
+      clearInterval(interval);
+      context.close().catch(() => {});
+    };
+  }, [active]);
+}
+
+// Alarma persistente en el panel administrativo: se muestra en todas las secciones
+// hasta que la emergencia se cierra, y suena hasta que un administrador la reconoce
+export function SosAlarm({ canManage, onLocateDriver }: SosAlarmProps) {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: incidents = [] } = useQuery<SosIncidentWithDriver[]>({
+    queryKey: ['/api/sos', 'open'],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/sos?open=true");
+      return res.json();
+    },
+    // Respaldo por si se pierde un mensaje WebSocket
+    refetchInterval: 30000,
+  });
+
+  const hasUnacknowledged = incidents.some(incident => incident.status === "activa");
+  useAlarmSound(hasUnacknowledged);
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/sos/${id}/acknowledge`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sos'] });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "No se pudo reconocer la emergencia",
+      });
+    },
+  });
+
+  const selected = incidents.find(incident => incident.id === selectedId) ?? null;
+
+  return (
+    <>
+      {incidents.length > 0 && (
+        <div className="space-y-2 mb-6" data-testid="sos-alarm">
+          {incidents.map(incident => {
+            const unacknowledged = incident.status === "activa";
+            return (
+              <div
+                key={incident.id}
+                className={`flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg p-4 border-2 ${
+                  unacknowledged ? 'border-red-600 bg-red-600 text-white animate-pulse' : 'border-orange-400 bg-orange-50'
+                }`}
+                data-testid={`sos-incident-${incident.id}`}
+              >
+                <div className="flex items-center space-x-3">
+                  <Siren className={`w-8 h-8 flex-shrink-0 ${unacknowledged ? 'text-white' : 'text-orange-600'}`} />
+                  <div>
+                    <p className="font-bold">EMERGENCIA · {incident.driverName}</p>
+                    <p className={`text-sm ${unacknowledged ? 'text-red-50' : 'text-gray-700'}`}>
+                      Activada a las {formatTime(incident.triggeredAt)}
+                      {incident.note ? ` · ${incident.note}` : ''}
+                    </p>
+                  </div>
+                  {!unacknowledged && <SosStatusBadge status={incident.status} />}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button size="sm" variant="outline" className="text-gray-900" onClick={() => onLocateDriver(incident.driverId)}>
+                    <Navigation className="w-4 h-4 mr-1" />
+                    Ubicar
+                  </Button>
+                  <Button size="sm" variant="outline" className="text-gray-900" onClick={() => setSelectedId(incident.id)}>
+                    <History className="w-4 h-4 mr-1" />
+                    Detalle
+                  </Button>
+                  {canManage && unacknowledged && (
+                    <Button
+                      size="sm"
+                      className="bg-white text-red-700 hover:bg-red-50"
+                      onClick={() => acknowledgeMutation.mutate(incident.id)}
+                      disabled={acknowledgeMutation.isPending}
+                      data-testid={`button-ack-sos-${incident.id}`}
+                    >
+                      <CheckCircle className="w-4 h-4 mr-1" />
+                      Reconocer
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <SosTimelineDialog incident={selected} onClose={() => setSelectedId(null)} canManage={canManage} />
+    </>
+  );
+}
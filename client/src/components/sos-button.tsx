@@ -0,0 +1,122 @@
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { capturePosition, type CapturedPosition } from "@/lib/geolocation";
+import { SOS_LOCATION_INTERVAL_MS, SosIncidentWithDriver } from "@shared/schema";
+import { Siren } from "lucide-react";
+
+interface SosButtonProps {
+  incident: SosIncidentWithDriver | null | undefined;
+}
+
+// En una emergencia no se espera al GPS más de unos segundos: el servidor usa la
+// última posición conocida y la transmisión forzada envía la actual enseguida
+const POSITION_WAIT_MS = 3000;
+
+const formatTime = (value: Date | string) =>
+  new Date(value).toLocaleTimeString("es-GT", {
+    timeZone: "America/Guatemala",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export function SosButton({ incident }: SosButtonProps) {
+  const { toast } = useToast();
+
+  const triggerMutation = useMutation({
+    mutationFn: async () => {
+      const position = await Promise.race([
+        capturePosition(),
+        new Promise<CapturedPosition>((resolve) =>
+          setTimeout(() => resolve({ latitude: null, longitude: null }), POSITION_WAIT_MS)
+        ),
+      ]);
+      const res = await apiRequest("POST", "/api/sos", position);
+      return await res.json() as SosIncidentWithDriver;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(['/api/sos', 'current'], data);
+      toast({
+        variant: "destructive",
+        title: "Alerta de emergencia enviada",
+        description: "La central fue notificada. Su ubicación se transmite de forma continua.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "No se pudo enviar la alerta",
+        description: error.message || "Intente nuevamente o comuníquese por radio",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/sos/${id}/cancel`, {}),
+    onSuccess: () => {
+      queryClient.setQueryData(['/api/sos', 'current'], null);
+      toast({ title: "Emergencia cancelada" });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "No se pudo cancelar la emergencia",
+        description: error.message,
+      });
+    },
+  });
+
+  if (!incident) {
+    return (
+      <Button
+        onClick={() => {
+          if (confirm("¿Enviar una alerta de emergencia a la central?")) {
+            triggerMutation.mutate();
+          }
+        }}
+        disabled={triggerMutation.isPending}
+        className="w-full py-6 text-lg font-bold bg-red-600 hover:bg-red-700 text-white"
+        data-testid="button-sos"
+      >
+        <Siren className="w-6 h-6 mr-2" />
+        {triggerMutation.isPending ? "Enviando alerta..." : "SOS - Emergencia"}
+      </Button>
+    );
+  }
+
+  return (
+    <Card className="border-red-500 bg-red-50" data-testid="sos-active">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center space-x-3">
+          <Siren className="w-8 h-8 text-red-600 animate-pulse flex-shrink-0" />
+          <div>
+            <p className="font-bold text-red-700">Emergencia activa desde las {formatTime(incident.triggeredAt)}</p>
+            <p className="text-sm text-red-700">
+              {incident.status === "reconocida"
+                ? "La central recibió su alerta y está atendiendo la emergencia."
+                : "Esperando confirmación de la central..."}
+            </p>
+            <p className="text-xs text-gray-600">
+              Su ubicación se transmite cada {SOS_LOCATION_INTERVAL_MS / 1000} segundos hasta que se cierre la emergencia.
+            </p>
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            if (confirm("¿Cancelar la emergencia? Use esta opción solo si la activó por error.")) {
+              cancelMutation.mutate(incident.id);
+            }
+          }}
+          disabled={cancelMutation.isPending}
+          data-testid="button-cancel-sos"
+        >
+          Cancelar (activada por error)
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+import { SosIncidentWithDriver } from "@shared/schema";
+import { SosStatusBadge, SosTimelineDialog } from "@/components/sos-timeline";
+import { History, Siren } from "lucide-react";
+
+interface SosIncidentsProps {
+  canManage: boolean;
+}
+
+// Ventana de emergencias mostradas en el historial
+const INCIDENTS_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+const formatDateTime = (value: Date | string) =>
+  new Date(value).toLocaleString("es-GT", {
+    timeZone: "America/Guatemala",
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export function SosIncidents({ canManage }: SosIncidentsProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: incidents = [], isLoading } = useQuery<SosIncidentWithDriver[]>({
+    queryKey: ['/api/sos', 'recent'],
+    queryFn: async () => {
+      const since = new Date(Date.now() - INCIDENTS_WINDOW_MS).toISOString();
+      const res = await apiRequest("GET", `/api/sos?since=${encodeURIComponent(since)}`);
+      return res.json();
+    },
+  });
+
+  const selected = incidents.find(incident => incident.id === selectedId) ?? null;
+
+  return (
+    <Card>
+      <CardContent className="p-4 sm:p-6">
+        <div className="flex items-center space-x-2 mb-4">
+          <Siren className="w-5 h-5 text-red-600" />
+          <h3 className="text-lg font-semibold">Emergencias</h3>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Cargando emergencias...</p>
+        ) : incidents.length === 0 ? (
+          <p className="text-sm text-gray-500">Sin emergencias en los últimos 7 días</p>
+        ) : (
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {incidents.map(incident => (
+              <div key={incident.id} className="flex items-center justify-between gap-2 p-3 border rounded-lg">
+                <div className="min-w-0 text-sm">
+                  <p className="font-medium">{incident.driverName}</p>
+                  <p className="text-xs text-gray-600">
+                    {formatDateTime(incident.triggeredAt)}
+                    {incident.closedAt && ` · cerrada ${formatDateTime(incident.closedAt)}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <SosStatusBadge status={incident.status} />
+                  <Button size="sm" variant="outline" onClick={() => setSelectedId(incident.id)}>
+                    <History className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <SosTimelineDialog incident={selected} onClose={() => setSelectedId(null)} canManage={canManage} />
+    </Card>
+  );
+}
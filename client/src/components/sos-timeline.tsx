@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { SosEventType, SosEventWithActor, SosIncidentWithDriver, SosStatus } from "@shared/schema";
+import { MapPin } from "lucide-react";
+
+export const SOS_STATUS_LABELS: Record<SosStatus, { label: string; className: string }> = {
+  activa: { label: "Activa", className: "bg-red-600 text-white" },
+  reconocida: { label: "En atención", className: "bg-orange-100 text-orange-800" },
+  cancelada: { label: "Cancelada", className: "bg-gray-100 text-gray-700" },
+  cerrada: { label: "Cerrada", className: "bg-green-100 text-green-800" },
+};
+
+const SOS_EVENT_LABELS: Record<SosEventType, string> = {
+  activada: "Emergencia activada",
+  ubicacion: "Posición recibida",
+  reconocida: "Reconocida por la central",
+  nota: "Nota",
+  cancelada: "Cancelada por el chofer",
+  cerrada: "Emergencia cerrada",
+};
+
+export function SosStatusBadge({ status }: { status: string }) {
+  const label = SOS_STATUS_LABELS[status as SosStatus];
+  return label ? <Badge className={label.className}>{label.label}</Badge> : <Badge variant="outline">{status}</Badge>;
+}
+
+const formatTime = (value: Date | string) =>
+  new Date(value).toLocaleString("es-GT", {
+    timeZone: "America/Guatemala",
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+const mapLink = (latitude: string | null, longitude: string | null) =>
+  latitude && longitude ? `https://www.google.com/maps?q=${latitude},${longitude}` : null;
+
+interface SosTimelineDialogProps {
+  incident: SosIncidentWithDriver | null;
+  onClose: () => void;
+  canManage: boolean;
+}
+
+export function SosTimelineDialog({ incident, onClose, canManage }: SosTimelineDialogProps) {
+  const { toast } = useToast();
+  const [note, setNote] = useState("");
+  const [resolutionNotes, setResolutionNotes] = useState("");
+  const isOpen = incident?.status === "activa" || incident?.status === "reconocida";
+
+  const { data: events = [], isLoading } = useQuery<SosEventWithActor[]>({
+    queryKey: ['/api/sos', incident?.id, 'events'],
+    enabled: !!incident,
+    // Las posiciones llegan sin aviso por WebSocket mientras la emergencia sigue abierta
+    refetchInterval: isOpen ? 10000 : false,
+  });
+
+  const onError = (error: any) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message,
+    });
+  };
+
+  const noteMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/sos/${incident!.id}/notes`, { note }),
+    onSuccess: () => {
+      setNote("");
+      queryClient.invalidateQueries({ queryKey: ['/api/sos'] });
+    },
+    onError,
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/sos/${incident!.id}/close`, { resolutionNotes }),
+    onSuccess: () => {
+      setResolutionNotes("");
+      queryClient.invalidateQueries({ queryKey: ['/api/sos'] });
+      toast({ title: "Emergencia cerrada" });
+      onClose();
+    },
+    onError,
+  });
+
+  if (!incident) return null;
+
+  // Las posiciones periódicas se resumen para no ocultar el resto de la línea de tiempo
+  const positions = events.filter(e => e.type === "ubicacion");
+  const lastPosition = positions[positions.length - 1];
+  const milestones = events.filter(e => e.type !== "ubicacion");
+  const currentLink = lastPosition
+    ? mapLink(lastPosition.latitude, lastPosition.longitude)
+    : mapLink(incident.latitude, incident.longitude);
+
+  return (
+    <Dialog open={!!incident} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Emergencia de {incident.driverName}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <SosStatusBadge status={incident.status} />
+            <span className="text-gray-600">Activada {formatTime(incident.triggeredAt)}</span>
+            {currentLink && (
+              <a href={currentLink} target="_blank" rel="noreferrer" className="inline-flex items-center text-blue-600">
+                <MapPin className="w-3 h-3 mr-1" />
+                {lastPosition ? "Última posición" : "Posición inicial"}
+              </a>
+            )}
+          </div>
+
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Cargando línea de tiempo...</p>
+          ) : (
+            <ol className="border-l-2 border-gray-200 pl-4 space-y-3" data-testid="sos-timeline">
+              {milestones.map(event => {
+                const link = mapLink(event.latitude, event.longitude);
+                return (
+                  <li key={event.id} className="text-sm">
+                    <p className="font-medium">
+                      {SOS_EVENT_LABELS[event.type as SosEventType] ?? event.type}
+                      {event.actorName && <span className="font-normal text-gray-600"> · {event.actorName}</span>}
+                    </p>
+                    <p className="text-xs text-gray-500">{formatTime(event.createdAt)}</p>
+                    {event.note && <p className="text-gray-700 whitespace-pre-wrap">{event.note}</p>}
+                    {link && (
+                      <a href={link} target="_blank" rel="noreferrer" className="text-xs text-blue-600">Ver ubicación</a>
+                    )}
+                  </li>
+                );
+              })}
+              {positions.length > 0 && (
+                <li className="text-sm text-gray-600">
+                  {positions.length} posiciones recibidas, la última {formatTime(lastPosition.createdAt)}
+                </li>
+              )}
+            </ol>
+          )}
+
+          {canManage && (
+            <div className="space-y-3 border-t pt-4">
+              <div className="space-y-1">
+                <Label htmlFor="sos-note">Agregar nota</Label>
+                <Textarea
+                  id="sos-note"
+                  rows={2}
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Ej. Unidad de apoyo en camino"
+                />
+                <div className="flex justify-end">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => noteMutation.mutate()}
+                    disabled={noteMutation.isPending || !note.trim()}
+                  >
+                    Agregar
+                  </Button>
+                </div>
+              </div>
+
+              {isOpen && (
+                <div className="space-y-1">
+                  <Label htmlFor="sos-resolution">Cierre de la emergencia</Label>
+                  <Textarea
+                    id="sos-resolution"
+                    rows={3}
+                    value={resolutionNotes}
+                    onChange={(e) => setResolutionNotes(e.target.value)}
+                    placeholder="Cómo se atendió la emergencia"
+                  />
+                  <div className="flex justify-end">
+                    <Button
+                      size="sm"
+                      onClick={() => closeMutation.mutate()}
+                      disabled={closeMutation.isPending || !resolutionNotes.trim()}
+                      data-testid="button-close-sos"
+                    >
+                      Cerrar emergencia
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {incident.resolutionNotes && (
+            <p className="text-sm text-gray-600 border-t pt-4">Resolución: {incident.resolutionNotes}</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -77,6 +77,7 @@ export function StatusModal({ driverId, currentStatus = "disponible" }: StatusMo
       // Invalidar las consultas para refrescar los datos
       queryClient.invalidateQueries({ queryKey: ['/api/users'] });
       queryClient.invalidateQueries({ queryKey: ['/api/drivers'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/drivers/public'] });
       queryClient.refetchQueries({ queryKey: ['/api/users'] });
     },
     onError: (error: any) => {
@@ -0,0 +1,229 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { insertStopSchema, type InsertStop, type Stop } from "@shared/schema";
+
+interface StopModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  stop?: Stop | null;
+}
+
+const accessibilityFields = [
+  { name: "wheelchairAccessible", label: "Accesible en silla de ruedas" },
+  { name: "hasShelter", label: "Tiene techo o caseta" },
+  { name: "hasTactilePaving", label: "Piso podotáctil" },
+] as const;
+
+const stopDefaults = (stop?: Stop | null): InsertStop => ({
+  name: stop?.name || "",
+  code: stop?.code || "",
+  latitude: stop?.latitude || "",
+  longitude: stop?.longitude || "",
+  wheelchairAccessible: stop?.wheelchairAccessible ?? false,
+  hasShelter: stop?.hasShelter ?? false,
+  hasTactilePaving: stop?.hasTactilePaving ?? false,
+  isActive: stop?.isActive ?? true,
+});
+
+export function StopModal({ isOpen, onClose, stop }: StopModalProps) {
+  const { toast } = useToast();
+  const isEditing = !!stop;
+
+  const form = useForm<InsertStop>({
+    resolver: zodResolver(insertStopSchema),
+    defaultValues: stopDefaults(stop),
+  });
+
+  // Cargar los datos de la parada seleccionada al abrir el modal
+  useEffect(() => {
+    if (isOpen) {
+      form.reset(stopDefaults(stop));
+    }
+  }, [isOpen, stop]);
+
+  const createStopMutation = useMutation({
+    mutationFn: (stopData: InsertStop) =>
+      apiRequest("POST", "/api/stops", stopData),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/stops'] });
+      toast({
+        title: "Parada creada",
+        description: "La parada ha sido creada exitosamente",
+      });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "No se pudo crear la parada",
+      });
+    },
+  });
+
+  const updateStopMutation = useMutation({
+    mutationFn: (stopData: InsertStop) =>
+      apiRequest("PUT", `/api/stops/${stop?.id}`, stopData),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/stops'] });
+      toast({
+        title: "Parada actualizada",
+        description: "La parada ha sido actualizada exitosamente",
+      });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "No se pudo actualizar la parada",
+      });
+    },
+  });
+
+  const onSubmit = (data: InsertStop) => {
+    if (isEditing) {
+      updateStopMutation.mutate(data);
+    } else {
+      createStopMutation.mutate(data);
+    }
+  };
+
+  const isPending = createStopMutation.isPending || updateStopMutation.isPending;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {isEditing ? "Editar Parada" : "Crear Nueva Parada"}
+          </DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Código</FormLabel>
+                    <FormControl>
+                      <Input placeholder="P-001" {...field} data-testid="input-stop-code" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>Nombre</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Parque Central" {...field} data-testid="input-stop-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="latitude"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Latitud</FormLabel>
+                    <FormControl>
+                      <Input placeholder="14.634915" {...field} data-testid="input-stop-latitude" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="longitude"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Longitud</FormLabel>
+                    <FormControl>
+                      <Input placeholder="-90.506882" {...field} data-testid="input-stop-longitude" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <FormLabel>Accesibilidad</FormLabel>
+              {accessibilityFields.map(({ name, label }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem className="flex items-center space-x-2 space-y-0">
+                      <FormControl>
+                        <Checkbox
+                          checked={!!field.value}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                        />
+                      </FormControl>
+                      <FormLabel className="font-normal">{label}</FormLabel>
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="isActive"
+              render={({ field }) => (
+                <FormItem className="flex items-center space-x-2 space-y-0">
+                  <FormControl>
+                    <Checkbox
+                      checked={!!field.value}
+                      onCheckedChange={(checked) => field.onChange(checked === true)}
+                    />
+                  </FormControl>
+                  <FormLabel className="font-normal">Parada activa</FormLabel>
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancelar
+              </Button>
+              <Button
+                type="submit"
+                disabled={isPending}
+                data-testid={isEditing ? "button-update-stop" : "button-create-stop"}
+              >
+                {isPending ? "Guardando..." : (isEditing ? "Actualizar" : "Crear")}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,333 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GoogleMap, type MapPoint } from "@/components/google-map";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Bus, LocationHistoryPoint, LocationHistoryResponse, PublicUser, Route } from "@shared/schema";
+import { Pause, Play, History, Search, Spline } from "lucide-react";
+
+interface TripPlaybackProps {
+  drivers: PublicUser[];
+  buses: Bus[];
+  schedules: Route[];
+  canManage: boolean;
+}
+
+interface PlaybackQuery {
+  filter: "driverId" | "busId";
+  id: string;
+  from: string;
+  to: string;
+}
+
+// Multiplicadores de velocidad de reproducción (1 segundo real = N segundos del recorrido)
+const PLAYBACK_SPEEDS = [10, 30, 60, 120, 300];
+const TICK_MS = 250;
+// Puntos conservados al guardar un recorrido como trazado de ruta
+const SHAPE_MAX_POINTS = 300;
+
+const statusLabels: Record<string, { label: string; color: string }> = {
+  "disponible": { label: "🟢 Disponible", color: "#16a34a" },
+  "en_ruta_cargar": { label: "🟡 En ruta a cargar", color: "#ca8a04" },
+  "en_ruta_descargar": { label: "🟠 En ruta a descargar", color: "#ea580c" },
+  "cargando": { label: "🔵 Cargando", color: "#2563eb" },
+  "descargando": { label: "🟣 Descargando", color: "#9333ea" },
+  "no_disponible": { label: "🔴 No disponible", color: "#dc2626" }
+};
+
+// Valor para un input datetime-local en hora local del navegador
+const toDateTimeLocal = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const pointTime = (point: LocationHistoryPoint) => new Date(point.recordedAt).getTime();
+
+const toMapPoint = (point: LocationHistoryPoint): MapPoint => ({
+  lat: parseFloat(point.latitude),
+  lng: parseFloat(point.longitude)
+});
+
+export function TripPlayback({ drivers, buses, schedules, canManage }: TripPlaybackProps) {
+  const { toast } = useToast();
+  const startOfDay = new Date();
+  startOfDay.setHours(0, 0, 0, 0);
+
+  const [filter, setFilter] = useState<"driverId" | "busId">("driverId");
+  const [selectedId, setSelectedId] = useState("");
+  const [from, setFrom] = useState(toDateTimeLocal(startOfDay));
+  const [to, setTo] = useState(toDateTimeLocal(new Date()));
+  const [query, setQuery] = useState<PlaybackQuery | null>(null);
+  const [cursor, setCursor] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(60);
+  const [shapeRouteId, setShapeRouteId] = useState("");
+
+  const { data: history, isLoading, error } = useQuery<LocationHistoryResponse>({
+    queryKey: ['/api/locations/history', query],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        [query!.filter]: query!.id,
+        from: new Date(query!.from).toISOString(),
+        to: new Date(query!.to).toISOString(),
+        maxPoints: "2000",
+      });
+      const res = await apiRequest("GET", `/api/locations/history?${params}`);
+      return res.json();
+    },
+    enabled: !!query,
+  });
+
+  // Usar el recorrido cargado como trazado de referencia de una ruta
+  const saveShapeMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/schedules/${shapeRouteId}/shape/from-history`, {
+      [query!.filter]: query!.id,
+      from: new Date(query!.from).toISOString(),
+      to: new Date(query!.to).toISOString(),
+      maxPoints: SHAPE_MAX_POINTS,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schedules'] });
+      toast({
+        title: "Trazado guardado",
+        description: "El recorrido se guardó como trazado de la ruta",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "No se pudo guardar el trazado",
+      });
+    },
+  });
+
+  const points = history?.points ?? [];
+  const startTime = points.length > 0 ? pointTime(points[0]) : 0;
+  const endTime = points.length > 0 ? pointTime(points[points.length - 1]) : 0;
+
+  // Reiniciar la línea de tiempo al cargar un recorrido nuevo
+  useEffect(() => {
+    setIsPlaying(false);
+    setCursor(startTime);
+  }, [history, startTime]);
+
+  // Avanzar el cursor mientras se reproduce
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const interval = setInterval(() => {
+      setCursor(prev => Math.min(prev + TICK_MS * speed, endTime));
+    }, TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [isPlaying, speed, endTime]);
+
+  // Pausar al llegar al final del recorrido
+  useEffect(() => {
+    if (isPlaying && cursor >= endTime) {
+      setIsPlaying(false);
+    }
+  }, [isPlaying, cursor, endTime]);
+
+  const track = useMemo(() => points.map(toMapPoint), [points]);
+
+  // Punto vigente en el instante del cursor, interpolando hacia el siguiente
+  const playback = useMemo(() => {
+    if (points.length === 0) return null;
+
+    let index = 0;
+    while (index < points.length - 1 && pointTime(points[index + 1]) <= cursor) {
+      index++;
+    }
+
+    const current = points[index];
+    const next = points[index + 1];
+    let position = toMapPoint(current);
+    if (next && cursor > pointTime(current)) {
+      const ratio = (cursor - pointTime(current)) / (pointTime(next) - pointTime(current));
+      const nextPosition = toMapPoint(next);
+      position = {
+        lat: position.lat + (nextPosition.lat - position.lat) * ratio,
+        lng: position.lng + (nextPosition.lng - position.lng) * ratio
+      };
+    }
+
+    return { point: current, position };
+  }, [points, cursor]);
+
+  const status = statusLabels[playback?.point.driverStatus || "disponible"] || statusLabels["disponible"];
+  const driverName = (driverId: string) => drivers.find(d => d.id === driverId)?.fullName || 'Chofer desconocido';
+
+  const handleLoad = () => {
+    if (!selectedId) return;
+    setQuery({ filter, id: selectedId, from, to });
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4 sm:p-6 space-y-4">
+        <div className="flex items-center space-x-2">
+          <History className="w-5 h-5 text-primary" />
+          <h3 className="text-lg font-semibold">Reproducción de Recorridos</h3>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+          <div className="space-y-1">
+            <Label>Buscar por</Label>
+            <Select value={filter} onValueChange={(value) => {
+              setFilter(value as "driverId" | "busId");
+              setSelectedId("");
+            }}>
+              <SelectTrigger data-testid="select-playback-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="driverId">Chofer</SelectItem>
+                <SelectItem value="busId">Bus</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label>{filter === "driverId" ? "Chofer" : "Bus"}</Label>
+            <Select value={selectedId} onValueChange={setSelectedId}>
+              <SelectTrigger data-testid="select-playback-target">
+                <SelectValue placeholder="Seleccione..." />
+              </SelectTrigger>
+              <SelectContent>
+                {filter === "driverId"
+                  ? drivers.map(driver => (
+                      <SelectItem key={driver.id} value={driver.id}>{driver.fullName}</SelectItem>
+                    ))
+                  : buses.map(bus => (
+                      <SelectItem key={bus.id} value={bus.id}>Unidad #{bus.busNumber} - {bus.plateNumber}</SelectItem>
+                    ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Desde</Label>
+            <Input type="datetime-local" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+
+          <div className="space-y-1">
+            <Label>Hasta</Label>
+            <Input type="datetime-local" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+
+          <Button onClick={handleLoad} disabled={!selectedId || isLoading} data-testid="button-load-playback">
+            <Search className="w-4 h-4 mr-2" />
+            {isLoading ? "Cargando..." : "Cargar recorrido"}
+          </Button>
+        </div>
+
+        {error && (
+          <p className="text-sm text-red-500">No se pudo cargar el recorrido: {String(error)}</p>
+        )}
+
+        {history && points.length === 0 && (
+          <p className="text-sm text-gray-500">No hay posiciones registradas en el rango seleccionado.</p>
+        )}
+
+        <div className="h-96 bg-gray-100 rounded-lg overflow-hidden">
+          <GoogleMap
+            locations={[]}
+            track={track}
+            playbackMarker={playback ? {
+              position: playback.position,
+              title: driverName(playback.point.driverId),
+              color: status.color
+            } : null}
+          />
+        </div>
+
+        {playback && (
+          <div className="space-y-3">
+            <div className="flex items-center space-x-3">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  if (cursor >= endTime) setCursor(startTime);
+                  setIsPlaying(!isPlaying);
+                }}
+                data-testid="button-toggle-playback"
+              >
+                {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              </Button>
+              <Slider
+                min={startTime}
+                max={Math.max(endTime, startTime + 1)}
+                step={1000}
+                value={[cursor]}
+                onValueChange={([value]) => setCursor(value)}
+                className="flex-1"
+              />
+              <Select value={String(speed)} onValueChange={(value) => setSpeed(Number(value))}>
+                <SelectTrigger className="w-24" data-testid="select-playback-speed">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PLAYBACK_SPEEDS.map(option => (
+                    <SelectItem key={option} value={String(option)}>{option}x</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+              <span className="font-medium text-gray-800">
+                {new Date(cursor).toLocaleString('es-GT', { timeZone: 'America/Guatemala' })}
+              </span>
+              <span>👤 {driverName(playback.point.driverId)}</span>
+              <Badge variant="outline">{status.label}</Badge>
+              {playback.point.speed != null && (
+                <span>{(playback.point.speed * 3.6).toFixed(0)} km/h</span>
+              )}
+              {history?.downsampled && (
+                <span className="text-xs text-gray-500">
+                  Mostrando {points.length} de {history.totalPoints} puntos
+                </span>
+              )}
+            </div>
+
+            {canManage && points.length > 1 && (
+              <div className="flex flex-col sm:flex-row gap-2 pt-2 border-t">
+                <Select value={shapeRouteId} onValueChange={setShapeRouteId}>
+                  <SelectTrigger className="sm:max-w-xs" data-testid="select-shape-route">
+                    <SelectValue placeholder="Ruta de referencia..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {schedules.map(schedule => (
+                      <SelectItem key={schedule.id} value={schedule.id}>
+                        Ruta {schedule.routeNumber} - {schedule.routeName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  onClick={() => saveShapeMutation.mutate()}
+                  disabled={!shapeRouteId || saveShapeMutation.isPending}
+                  data-testid="button-save-shape-from-trip"
+                >
+                  <Spline className="w-4 h-4 mr-2" />
+                  {saveShapeMutation.isPending ? "Guardando..." : "Usar como trazado de la ruta"}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,7 +9,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { insertUserSchema, type InsertUser, type User } from "@shared/schema";
+import { insertUserSchema, type InsertUser, type PublicUser, type User } from "@shared/schema";
 import { z } from "zod";
 
 // Esquema extendido para el formulario de usuario
@@ -25,7 +25,7 @@ type UserFormData = z.infer<typeof userFormSchema>;
 interface UserModalProps {
   isOpen: boolean;
   onClose: () => void;
-  user?: User | null;
+  user?: PublicUser | null;
 }
 
 export function UserModal({ isOpen, onClose, user }: UserModalProps) {
@@ -38,7 +38,7 @@ export function UserModal({ isOpen, onClose, user }: UserModalProps) {
       username: user?.username || "",
       password: "",
       confirmPassword: "",
-      role: user?.role || "driver",
+      role: (user?.role as UserFormData["role"]) || "driver",
       fullName: user?.fullName || "",
       licenseNumber: user?.licenseNumber || "",
     },
@@ -156,6 +156,7 @@ export function UserModal({ isOpen, onClose, user }: UserModalProps) {
                     <SelectContent>
                       <SelectItem value="admin">Administrador</SelectItem>
                       <SelectItem value="driver">Chofer</SelectItem>
+                      <SelectItem value="dispatcher">Despachador (solo lectura)</SelectItem>
                     </SelectContent>
                   </Select>
                   <FormMessage />
@@ -22,10 +22,11 @@ export function useAuth() {
     return unsubscribe;
   }, [user]);
 
-  const login = authManager.setCurrentUser.bind(authManager);
+  const login = authManager.setSession.bind(authManager);
   const logout = async () => await authManager.logout();
   const isAdmin = authManager.isAdmin.bind(authManager);
   const isDriver = authManager.isDriver.bind(authManager);
+  const isDispatcher = authManager.isDispatcher.bind(authManager);
 
   return {
     user,
@@ -34,6 +35,7 @@ export function useAuth() {
     logout,
     isAdmin,
     isDriver,
+    isDispatcher,
     isAuthenticated: !!user
   };
 }
\ No newline at end of file
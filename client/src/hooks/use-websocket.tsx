@@ -1,17 +1,16 @@
 import { useEffect, useRef, useState } from 'react';
 import { queryClient } from '@/lib/queryClient';
+import { authManager } from '@/lib/auth';
+import { WS_CLOSE_SESSION_ENDED, serverMessageSchema, decodeWsMessage, encodeWsMessage, topicKey, type ClientMessage, type ServerMessage, type WsTopic } from '@shared/ws-protocol';
 
-interface WebSocketMessage {
-  type: string;
-  data?: any;
-  connectionId?: string;
-  location?: any;
-  driverId?: string;
-  isTransmitting?: boolean;
-}
+// Espera antes de reconectar: se duplica en cada intento fallido hasta el máximo
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
 
 interface UseWebSocketOptions {
-  onMessage?: (message: WebSocketMessage) => void;
+  // Temas a seguir (flota, ruta o bus); se vuelven a suscribir al reconectar
+  topics?: WsTopic[];
+  onMessage?: (message: ServerMessage) => void;
   onConnect?: () => void;
   onDisconnect?: () => void;
 }
@@ -19,64 +18,133 @@ interface UseWebSocketOptions {
 export function useWebSocket(options: UseWebSocketOptions = {}) {
   const [isConnected, setIsConnected] = useState(false);
   const ws = useRef<WebSocket | null>(null);
-  const { onMessage, onConnect, onDisconnect } = options;
+  const { topics = [], onMessage, onConnect, onDisconnect } = options;
+  const wantedTopics = useRef<WsTopic[]>(topics);
+  // Temas ya suscritos en la conexión actual, por clave
+  const subscribedTopics = useRef(new Map<string, WsTopic>());
+  // Cierre pedido por el propio componente (desmontaje): no se reconecta
+  const closedIntentionally = useRef(false);
+  const reconnectAttempts = useRef(0);
+  const reconnectTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Suscribir los temas nuevos y cancelar los que ya no se piden
+  const syncTopics = () => {
+    if (ws.current?.readyState !== WebSocket.OPEN) return;
+    const wanted = new Map(wantedTopics.current.map(topic => [topicKey(topic), topic]));
+    subscribedTopics.current.forEach((topic, key) => {
+      if (!wanted.has(key)) sendMessage({ type: 'unsubscribe', topic });
+    });
+    wanted.forEach((topic, key) => {
+      if (!subscribedTopics.current.has(key)) sendMessage({ type: 'subscribe', topic });
+    });
+    subscribedTopics.current = wanted;
+  };
 
   const connect = () => {
     if (ws.current?.readyState === WebSocket.OPEN) {
       return;
     }
+    closedIntentionally.current = false;
 
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-    const wsUrl = `${protocol}//${window.location.host}/ws`;
+    // El navegador no permite headers en el handshake: el token viaja como parámetro
+    const token = authManager.getToken();
+    const wsUrl = `${protocol}//${window.location.host}/ws${token ? `?token=${encodeURIComponent(token)}` : ''}`;
     
-    ws.current = new WebSocket(wsUrl);
+    const socket = new WebSocket(wsUrl);
+    ws.current = socket;
+    let opened = false;
 
-    ws.current.onopen = () => {
+    socket.onopen = () => {
+      opened = true;
+      reconnectAttempts.current = 0;
       setIsConnected(true);
+      subscribedTopics.current = new Map();
+      syncTopics();
       onConnect?.();
     };
 
-    ws.current.onmessage = (event) => {
+    socket.onmessage = (event) => {
       try {
-        const message: WebSocketMessage = JSON.parse(event.data);
+        // Lo que no cumple el protocolo se descarta en lugar de llegar a los componentes
+        const decoded = decodeWsMessage(serverMessageSchema, event.data);
+        if (!decoded.success) {
+          console.error('Mensaje WebSocket inválido:', decoded.error);
+          return;
+        }
+        const message = decoded.message;
+        if (message.type === 'error') {
+          console.warn('El servidor rechazó un mensaje WebSocket:', message);
+        }
         onMessage?.(message);
         
         // Invalidar cache para actualizaciones automáticas
-        if (message.type === 'locationUpdate') {
+        if (message.type === 'locationUpdate' || message.type === 'transmissionLost') {
           queryClient.invalidateQueries({ queryKey: ['/api/locations'] });
         }
+        if (message.type === 'reportComment') {
+          queryClient.invalidateQueries({ queryKey: ['/api/reports'] });
+          queryClient.invalidateQueries({ queryKey: ['/api/reports/unread-counts'] });
+        }
+        if (message.type === 'sosAlert' || message.type === 'sosUpdate') {
+          queryClient.invalidateQueries({ queryKey: ['/api/sos'] });
+        }
       } catch (error) {
         console.error('Error parsing WebSocket message:', error);
       }
     };
 
-    ws.current.onclose = () => {
+    socket.onclose = (event) => {
+      // Una conexión reemplazada o cerrada a propósito no debe reconectar
+      if (ws.current !== socket) return;
+      ws.current = null;
       setIsConnected(false);
       onDisconnect?.();
-      
-      // Auto-reconnect after 3 seconds
-      setTimeout(() => {
-        connect();
-      }, 3000);
+      if (closedIntentionally.current) return;
+
+      // El servidor rechaza el handshake (401) sin abrir la conexión y cierra las abiertas
+      // cuando la sesión termina: antes de reintentar se verifica el token, que se renueva
+      // o se descarta para no repetir uno revocado
+      const sessionEnded = event.code === WS_CLOSE_SESSION_ENDED || (!opened && !!token);
+      const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempts.current, RECONNECT_MAX_DELAY_MS);
+      reconnectAttempts.current++;
+      reconnectTimer.current = setTimeout(async () => {
+        if (sessionEnded && token === authManager.getToken()) {
+          await authManager.checkSession();
+        }
+        if (!closedIntentionally.current) connect();
+      }, delay);
     };
 
-    ws.current.onerror = (error) => {
+    socket.onerror = (error) => {
       console.error('WebSocket error:', error);
     };
   };
 
   const disconnect = () => {
-    ws.current?.close();
+    closedIntentionally.current = true;
+    if (reconnectTimer.current) {
+      clearTimeout(reconnectTimer.current);
+      reconnectTimer.current = null;
+    }
+    const socket = ws.current;
     ws.current = null;
+    socket?.close();
     setIsConnected(false);
   };
 
-  const sendMessage = (message: WebSocketMessage) => {
+  const sendMessage = (message: ClientMessage) => {
     if (ws.current?.readyState === WebSocket.OPEN) {
-      ws.current.send(JSON.stringify(message));
+      ws.current.send(encodeWsMessage(message));
     }
   };
 
+  const topicsKey = topics.map(topicKey).sort().join(',');
+  useEffect(() => {
+    wantedTopics.current = topics;
+    syncTopics();
+  }, [topicsKey]);
+
   useEffect(() => {
     connect();
 
@@ -1,16 +1,28 @@
-import { User } from "@shared/schema";
+import type { AuthSessionResponse, UserRole } from "@shared/schema";
 
 export interface AuthUser {
   id: string;
   username: string;
-  role: 'admin' | 'driver';
+  role: UserRole;
   fullName: string;
   licenseNumber: string | null;
   driverStatus?: string | null;
 }
 
+interface StoredSession {
+  user: AuthUser;
+  token: string;
+  expiresAt: string;
+}
+
+const SESSION_STORAGE_KEY = 'busapp_session';
+// Renovar el token cuando falten menos de 2 horas para que expire
+const REFRESH_WINDOW_MS = 2 * 60 * 60 * 1000;
+
 class AuthManager {
   private currentUser: AuthUser | null = null;
+  private token: string | null = null;
+  private expiresAt: string | null = null;
   private listeners: ((user: AuthUser | null) => void)[] = [];
 
   constructor() {
@@ -22,39 +34,69 @@ class AuthManager {
     return this.currentUser;
   }
 
+  getToken(): string | null {
+    return this.token;
+  }
+
+  // Headers de autenticación para peticiones al servidor
+  getAuthHeaders(): Record<string, string> {
+    return this.token ? { Authorization: `Bearer ${this.token}` } : {};
+  }
+
+  // Establecer la sesión emitida por el servidor al iniciar sesión o renovar
+  setSession(session: AuthSessionResponse | null): void {
+    if (session) {
+      this.token = session.token;
+      this.expiresAt = session.expiresAt;
+      this.setCurrentUser(session.user as AuthUser);
+    } else {
+      this.token = null;
+      this.expiresAt = null;
+      this.setCurrentUser(null);
+    }
+  }
+
   setCurrentUser(user: AuthUser | null): void {
     console.log('AuthManager - Estableciendo usuario:', user);
     this.currentUser = user;
-    if (user) {
+    if (user && this.token && this.expiresAt) {
       // Guardar sesión en localStorage
-      localStorage.setItem('busapp_user', JSON.stringify(user));
-      console.log('AuthManager - Usuario guardado en localStorage:', user.id);
+      const stored: StoredSession = { user, token: this.token, expiresAt: this.expiresAt };
+      localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(stored));
+      console.log('AuthManager - Sesión guardada en localStorage:', user.id);
     } else {
       // Eliminar sesión del localStorage
-      localStorage.removeItem('busapp_user');
+      this.currentUser = null;
+      this.token = null;
+      this.expiresAt = null;
+      localStorage.removeItem(SESSION_STORAGE_KEY);
       console.log('AuthManager - Sesión eliminada');
     }
     this.notifyListeners();
   }
 
   private loadFromStorage(): void {
+    // Las sesiones antiguas sin token ya no son válidas
+    localStorage.removeItem('busapp_user');
+
     try {
-      const storedUser = localStorage.getItem('busapp_user');
-      if (storedUser) {
-        const user = JSON.parse(storedUser);
-        console.log('AuthManager - Cargando usuario desde localStorage:', user);
-        
-        // Verificar que el usuario tenga un ID válido
-        if (user && user.id && user.username) {
-          this.currentUser = user;
+      const storedSession = localStorage.getItem(SESSION_STORAGE_KEY);
+      if (storedSession) {
+        const session: StoredSession = JSON.parse(storedSession);
+
+        // Verificar que la sesión tenga token y no esté vencida
+        if (session?.user?.id && session.token && new Date(session.expiresAt).getTime() > Date.now()) {
+          this.currentUser = session.user;
+          this.token = session.token;
+          this.expiresAt = session.expiresAt;
         } else {
-          console.warn('AuthManager - Usuario inválido en localStorage, eliminando');
-          localStorage.removeItem('busapp_user');
+          console.warn('AuthManager - Sesión inválida en localStorage, eliminando');
+          localStorage.removeItem(SESSION_STORAGE_KEY);
         }
       }
     } catch (error) {
       console.error('Error al cargar sesión:', error);
-      localStorage.removeItem('busapp_user');
+      localStorage.removeItem(SESSION_STORAGE_KEY);
     }
   }
 
@@ -80,13 +122,22 @@ class AuthManager {
     return this.currentUser?.role === 'driver';
   }
 
+  isDispatcher(): boolean {
+    return this.currentUser?.role === 'dispatcher';
+  }
+
+  // Solo los administradores pueden crear, editar o eliminar registros
+  canManage(): boolean {
+    return this.isAdmin();
+  }
+
   async logout(): Promise<void> {
     // Si el usuario actual es un chofer, detener transmisión antes de cerrar sesión
     if (this.currentUser && this.currentUser.role === 'driver') {
       try {
         await fetch('/api/locations/stop-transmission', {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: { 'Content-Type': 'application/json', ...this.getAuthHeaders() },
           body: JSON.stringify({ driverId: this.currentUser.id })
         });
         console.log('AuthManager - Transmisión detenida al cerrar sesión');
@@ -94,28 +145,65 @@ class AuthManager {
         console.error('Error deteniendo transmisión al cerrar sesión:', error);
       }
     }
-    
-    this.setCurrentUser(null);
+
+    // Revocar el token en el servidor
+    if (this.token) {
+      try {
+        await fetch('/api/auth/logout', {
+          method: 'POST',
+          headers: this.getAuthHeaders(),
+        });
+      } catch (error) {
+        console.error('Error revocando sesión:', error);
+      }
+    }
+
+    this.setSession(null);
+  }
+
+  // Renovar el token de sesión antes de que expire
+  async refreshSession(): Promise<boolean> {
+    if (!this.token) return false;
+
+    try {
+      const response = await fetch('/api/auth/refresh', {
+        method: 'POST',
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok) return false;
+
+      const session: AuthSessionResponse = await response.json();
+      this.setSession(session);
+      return true;
+    } catch (error) {
+      console.error('Error renovando sesión:', error);
+      return false;
+    }
   }
 
   // Método para verificar y renovar sesión si es necesario
   async checkSession(): Promise<boolean> {
-    if (!this.currentUser) return false;
-    
+    if (!this.currentUser || !this.token) return false;
+
     try {
-      // Verificar que la sesión sigue siendo válida con el servidor
+      // Verificar que el token sigue siendo válido con el servidor
       const response = await fetch('/api/auth/verify', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ userId: this.currentUser.id })
+        headers: this.getAuthHeaders(),
       });
-      
+
       if (!response.ok) {
         console.warn('AuthManager - Sesión inválida en servidor, cerrando sesión');
-        this.logout();
+        this.clearInvalidSession();
         return false;
       }
-      
+
+      const { expiresAt } = await response.json();
+      if (new Date(expiresAt).getTime() - Date.now() < REFRESH_WINDOW_MS) {
+        await this.refreshSession();
+      }
+
       return true;
     } catch (error) {
       console.error('Error verificando sesión:', error);
@@ -126,8 +214,10 @@ class AuthManager {
   // Método para limpiar y revalidar localStorage
   clearInvalidSession(): void {
     console.log('AuthManager - Limpiando sesión inválida');
-    localStorage.removeItem('busapp_user');
+    localStorage.removeItem(SESSION_STORAGE_KEY);
     this.currentUser = null;
+    this.token = null;
+    this.expiresAt = null;
     this.notifyListeners();
   }
 }
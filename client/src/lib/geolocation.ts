@@ -0,0 +1,21 @@
+export interface CapturedPosition {
+  latitude: string | null;
+  longitude: string | null;
+}
+
+// Posición actual del dispositivo para marcas y reportes; si no se puede obtener,
+// se resuelve sin ella en lugar de fallar
+export const capturePosition = () => new Promise<CapturedPosition>((resolve) => {
+  if (!navigator.geolocation) {
+    resolve({ latitude: null, longitude: null });
+    return;
+  }
+  navigator.geolocation.getCurrentPosition(
+    (position) => resolve({
+      latitude: position.coords.latitude.toString(),
+      longitude: position.coords.longitude.toString(),
+    }),
+    () => resolve({ latitude: null, longitude: null }),
+    { enableHighAccuracy: true, timeout: 10000, maximumAge: 0 },
+  );
+});
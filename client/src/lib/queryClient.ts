@@ -1,4 +1,5 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { authManager } from "./auth";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -14,7 +15,10 @@ export async function apiRequest(
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: {
+      ...(data ? { "Content-Type": "application/json" } : {}),
+      ...authManager.getAuthHeaders(),
+    },
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -23,6 +27,22 @@ export async function apiRequest(
   return res;
 }
 
+// Subir un archivo como cuerpo binario; el tipo del archivo viaja en Content-Type
+export async function uploadFile(url: string, file: File): Promise<Response> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": file.type,
+      ...authManager.getAuthHeaders(),
+    },
+    body: file,
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -30,6 +50,7 @@ export const getQueryFn: <T>(options: {
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
     const res = await fetch(queryKey.join("/") as string, {
+      headers: authManager.getAuthHeaders(),
       credentials: "include",
     });
 
@@ -55,3 +76,15 @@ export const queryClient = new QueryClient({
     },
   },
 });
+
+// Cuerpo JSON de un error lanzado por apiRequest ("409: {...}"), si lo tiene
+export function getErrorBody<T>(error: unknown): T | null {
+  if (!(error instanceof Error)) return null;
+  const match = error.message.match(/^\d{3}: ([\s\S]*)$/);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[1]) as T;
+  } catch {
+    return null;
+  }
+}
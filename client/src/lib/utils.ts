@@ -4,3 +4,17 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Antigüedad legible de la última señal recibida ("hace 3 min")
+export function formatLastSeen(timestamp: string | Date | null | undefined): string {
+  if (!timestamp) return "sin datos";
+
+  const seconds = Math.max(0, Math.floor((Date.now() - new Date(timestamp).getTime()) / 1000));
+  if (seconds < 60) return `hace ${seconds} s`;
+
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `hace ${minutes} min`;
+
+  const hours = Math.floor(minutes / 60);
+  return `hace ${hours} h ${minutes % 60} min`;
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -6,14 +6,31 @@ import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { useWebSocket } from "@/hooks/use-websocket";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatLastSeen } from "@/lib/utils";
 import { authManager } from "@/lib/auth";
-import { Route as RouteType, Assignment, User, Location, Bus } from "@shared/schema";
+import { decodePolyline } from "@shared/geo";
+import { crossesMidnight, describeRecurrence, formatShiftWindow } from "@shared/shifts";
+import type { WsTopic } from "@shared/ws-protocol";
+import { Route as RouteType, Assignment, EffectiveShift, PublicUser, Location, Bus, Stop, Report } from "@shared/schema";
 import { ScheduleModal } from "@/components/schedule-modal";
 import { AssignmentModal } from "@/components/assignment-modal";
-import { GoogleMap } from "@/components/google-map";
+import { GoogleMap, type ReportPin, type RouteShape } from "@/components/google-map";
 import { UserModal } from "@/components/user-modal";
 import { BusModal } from "@/components/bus-modal";
+import { StopModal } from "@/components/stop-modal";
+import { AssignmentExceptionsModal } from "@/components/assignment-exceptions-modal";
+import { HolidayCalendar } from "@/components/holiday-calendar";
+import { RosterPlanner } from "@/components/roster-planner";
+import { ComplianceReport } from "@/components/compliance-report";
+import { AttendanceReport } from "@/components/attendance-report";
+import { ShiftRequestsReview } from "@/components/shift-requests-review";
+import { RouteStopsEditor } from "@/components/route-stops-editor";
 import { ReportsTable } from "@/components/reports-table";
+import { ReportCategoriesManager } from "@/components/report-categories";
+import { TripPlayback } from "@/components/trip-playback";
+import { OffRouteAlerts } from "@/components/off-route-alerts";
+import { SosAlarm } from "@/components/sos-alarm";
+import { SosIncidents } from "@/components/sos-incidents";
 import { 
   Bus as BusIcon, 
   Users, 
@@ -34,29 +51,44 @@ import {
   AlertTriangle,
   Menu,
   X,
-  BarChart3
+  BarChart3,
+  Signpost,
+  CalendarX,
+  CalendarRange,
+  ShieldCheck,
+  ClipboardCheck,
+  ArrowLeftRight
 } from "lucide-react";
 
+// El panel sigue a toda la flota (el servidor lo permite solo a administradores y despachadores)
+const FLEET_TOPICS: WsTopic[] = [{ scope: "fleet" }];
+
 export default function AdminDashboard() {
   const [isScheduleModalOpen, setIsScheduleModalOpen] = useState(false);
   const [isAssignmentModalOpen, setIsAssignmentModalOpen] = useState(false);
+  const [exceptionsAssignment, setExceptionsAssignment] = useState<Assignment | null>(null);
   const [selectedRoute, setSelectedRoute] = useState<RouteType | null>(null);
   const [activeLocations, setActiveLocations] = useState<Location[]>([]);
   const [mapCenter, setMapCenter] = useState({ lat: -12.0464, lng: -77.0428 });
   const [mapZoom, setMapZoom] = useState(12);
   const mapRef = useRef<any>(null);
   const [isUserModalOpen, setIsUserModalOpen] = useState(false);
-  const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const [selectedUser, setSelectedUser] = useState<PublicUser | null>(null);
   const [isBusModalOpen, setIsBusModalOpen] = useState(false);
   const [selectedBus, setSelectedBus] = useState<Bus | null>(null);
+  const [isStopModalOpen, setIsStopModalOpen] = useState(false);
+  const [selectedStop, setSelectedStop] = useState<Stop | null>(null);
   const [activeTab, setActiveTab] = useState("overview");
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   
   const { toast } = useToast();
   const currentUser = authManager.getCurrentUser();
+  // Los despachadores ven el panel en modo solo lectura
+  const canManage = authManager.canManage();
 
   // WebSocket for real-time updates
   useWebSocket({
+    topics: FLEET_TOPICS,
     onMessage: (message) => {
       if (message.type === 'locationUpdate') {
         setActiveLocations(prev => {
@@ -72,11 +104,41 @@ export default function AdminDashboard() {
       }
       
       if (message.type === 'transmissionStatusUpdate' || 
-          message.type === 'transmissionStatus' || 
           message.type === 'transmissionStopped') {
         queryClient.invalidateQueries({ queryKey: ['/api/locations'] });
         queryClient.refetchQueries({ queryKey: ['/api/locations'] });
       }
+
+      if (message.type === 'transmissionLost') {
+        queryClient.invalidateQueries({ queryKey: ['/api/locations'] });
+        const driver = queryClient.getQueryData<PublicUser[]>(['/api/drivers'])?.find(d => d.id === message.data.driverId);
+        toast({
+          variant: "destructive",
+          title: "Señal perdida",
+          description: `${driver?.fullName || 'Un chofer'} dejó de enviar su ubicación`,
+        });
+      }
+
+      // Alertas de desvío de ruta
+      if (message.type === 'offRouteAlert' || message.type === 'offRouteResolved') {
+        queryClient.invalidateQueries({ queryKey: ['/api/off-route-alerts'] });
+      }
+
+      if (message.type === 'sosAlert') {
+        toast({
+          variant: "destructive",
+          title: "EMERGENCIA",
+          description: `${message.data.driverName} activó el botón de pánico`,
+        });
+      }
+
+      if (message.type === 'offRouteAlert') {
+        toast({
+          variant: "destructive",
+          title: "Bus fuera de ruta",
+          description: `Se alejó ${Math.round(message.data.distanceMeters)} m del trazado de su ruta`,
+        });
+      }
     }
   });
 
@@ -94,11 +156,17 @@ export default function AdminDashboard() {
     queryKey: ['/api/assignments'],
   });
 
-  const { data: drivers = [], isLoading: driversLoading } = useQuery<User[]>({
+  // Turnos que operan hoy según la recurrencia y el calendario de feriados
+  const { data: todayShifts = [] } = useQuery<EffectiveShift[]>({
+    queryKey: ['/api/shifts'],
+    refetchInterval: 60000,
+  });
+
+  const { data: drivers = [], isLoading: driversLoading } = useQuery<PublicUser[]>({
     queryKey: ['/api/drivers'],
   });
 
-  const { data: users = [], isLoading: usersLoading } = useQuery<User[]>({
+  const { data: users = [], isLoading: usersLoading } = useQuery<PublicUser[]>({
     queryKey: ['/api/users'],
   });
 
@@ -106,11 +174,39 @@ export default function AdminDashboard() {
     queryKey: ['/api/buses'],
   });
 
+  const { data: stops = [], isLoading: stopsLoading } = useQuery<Stop[]>({
+    queryKey: ['/api/stops'],
+  });
+
+  // Memorizado para no redibujar los marcadores de paradas en cada actualización
+  const activeStops = useMemo(() => stops.filter(s => s.isActive), [stops]);
+
+  // Trazado de las rutas activas que tienen geometría definida
+  const routeShapes = useMemo<RouteShape[]>(() => schedules
+    .filter(s => s.isActive && s.shape)
+    .map(s => ({ id: s.id, path: decodePolyline(s.shape!), color: s.color, title: s.routeName })), [schedules]);
+
   const { data: locations = [] } = useQuery<Location[]>({
     queryKey: ['/api/locations'],
     refetchInterval: 5000,
   });
 
+  const { data: reports = [] } = useQuery<Report[]>({
+    queryKey: ['/api/reports'],
+    refetchInterval: 60000,
+  });
+
+  // Reportes aún sin cerrar que registraron la ubicación del incidente
+  const reportPins = useMemo<ReportPin[]>(() => reports
+    .filter(r => (r.status === "abierto" || r.status === "en_revision") && r.latitude && r.longitude)
+    .map(r => ({
+      id: r.id,
+      position: { lat: parseFloat(r.latitude!), lng: parseFloat(r.longitude!) },
+      title: `${r.type.charAt(0).toUpperCase()}${r.type.slice(1)} - ${drivers.find(d => d.id === r.driverId)?.fullName ?? 'Chofer'}`,
+      description: r.description,
+      createdAt: r.createdAt,
+    })), [reports, drivers]);
+
   // Helper functions for passenger-like display
   const formatTime = (timeString: string) => {
     return new Date(`2000-01-01T${timeString}`).toLocaleTimeString('es-GT', {
@@ -120,7 +216,7 @@ export default function AdminDashboard() {
     });
   };
 
-  const getDriverStatusDisplay = (driverStatus: string | null | undefined, isTransmitting: boolean) => {
+  const getDriverStatusDisplay = (driverStatus: string | null | undefined, isTransmitting: boolean, signalLost = false) => {
     if (!isTransmitting) {
       return {
         label: "🔴 Inactivo",
@@ -129,6 +225,14 @@ export default function AdminDashboard() {
       };
     }
 
+    if (signalLost) {
+      return {
+        label: "📡 Señal perdida",
+        variant: "secondary" as const,
+        className: "bg-gray-500 text-white"
+      };
+    }
+
     const statusLabels: Record<string, { label: string; variant: "default" | "secondary"; className: string }> = {
       "disponible": { label: "🟢 Disponible", variant: "default", className: "bg-green-600" },
       "en_ruta_cargar": { label: "🟡 En ruta a cargar", variant: "default", className: "bg-yellow-600" },
@@ -153,6 +257,12 @@ export default function AdminDashboard() {
     return users.find((user) => user.id === driverId);
   };
 
+  const roleLabels: Record<string, string> = {
+    admin: "Administrador",
+    driver: "Chofer",
+    dispatcher: "Despachador",
+  };
+
   // Mutations
   const deleteScheduleMutation = useMutation({
     mutationFn: (id: string) => apiRequest("DELETE", `/api/schedules/${id}`),
@@ -166,6 +276,8 @@ export default function AdminDashboard() {
     mutationFn: (id: string) => apiRequest("DELETE", `/api/assignments/${id}`),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/shifts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/roster'] });
       toast({ title: "Asignación eliminada correctamente" });
     },
   });
@@ -187,6 +299,16 @@ export default function AdminDashboard() {
     },
   });
 
+  const deleteStopMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/stops/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/stops'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/route-stops'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/schedules'] });
+      toast({ title: "Parada eliminada correctamente" });
+    },
+  });
+
   // Helper functions
   const handleEditSchedule = (schedule: RouteType) => {
     setSelectedRoute(schedule);
@@ -216,6 +338,17 @@ export default function AdminDashboard() {
     }
   };
 
+  const handleEditStop = (stop: Stop) => {
+    setSelectedStop(stop);
+    setIsStopModalOpen(true);
+  };
+
+  const handleDeleteStop = (id: string) => {
+    if (confirm("¿Está seguro de que desea eliminar esta parada? Se quitará de todas las rutas.")) {
+      deleteStopMutation.mutate(id);
+    }
+  };
+
   const locateDriver = async (driverId: string) => {
     try {
       // Buscar la ubicación específica del chofer
@@ -307,6 +440,12 @@ export default function AdminDashboard() {
       icon: Calendar,
       description: "Gestión de rutas"
     },
+    {
+      id: "stops",
+      label: "Paradas",
+      icon: Signpost,
+      description: "Paradas y recorridos"
+    },
     {
       id: "buses",
       label: "Buses",
@@ -319,6 +458,30 @@ export default function AdminDashboard() {
       icon: UserCog,
       description: "Asignar choferes"
     },
+    {
+      id: "roster",
+      label: "Planificador",
+      icon: CalendarRange,
+      description: "Turnos de la semana"
+    },
+    {
+      id: "compliance",
+      label: "Jornada",
+      icon: ShieldCheck,
+      description: "Horas y descansos de choferes"
+    },
+    {
+      id: "attendance",
+      label: "Asistencia",
+      icon: ClipboardCheck,
+      description: "Entradas y salidas de turnos"
+    },
+    {
+      id: "requests",
+      label: "Solicitudes",
+      icon: ArrowLeftRight,
+      description: "Intercambios y permisos de choferes"
+    },
     {
       id: "monitoring",
       label: "Monitoreo",
@@ -409,7 +572,7 @@ export default function AdminDashboard() {
                 </div>
                 <div className="min-w-0">
                   <div className="font-medium text-sm truncate">{currentUser?.fullName}</div>
-                  <div className="text-xs text-primary-foreground/70">Administrador</div>
+                  <div className="text-xs text-primary-foreground/70">{roleLabels[currentUser?.role || "admin"]}</div>
                 </div>
               </div>
               <Button
@@ -464,6 +627,15 @@ export default function AdminDashboard() {
         {/* Área de contenido */}
         <main className="flex-1 overflow-auto">
           <div className="px-4 sm:px-6 lg:px-8 py-8">
+
+            {/* Emergencias abiertas: visibles en todas las secciones */}
+            <SosAlarm
+              canManage={canManage}
+              onLocateDriver={(driverId) => {
+                setActiveTab("overview");
+                locateDriver(driverId);
+              }}
+            />
             
             {/* Sección Resumen */}
             {activeTab === "overview" && (
@@ -559,13 +731,15 @@ export default function AdminDashboard() {
               <div className="space-y-6">
                 <div className="flex justify-between items-center">
                   <h2 className="text-xl font-semibold">Gestión de Rutas</h2>
-                  <Button
-                    onClick={() => setIsScheduleModalOpen(true)}
-                    className="bg-primary hover:bg-primary-dark"
-                  >
-                    <Plus className="w-4 h-4 mr-2" />
-                    Nueva Ruta
-                  </Button>
+                  {canManage && (
+                    <Button
+                      onClick={() => setIsScheduleModalOpen(true)}
+                      className="bg-primary hover:bg-primary-dark"
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Nueva Ruta
+                    </Button>
+                  )}
                 </div>
 
                 <div className="hidden lg:block overflow-x-auto">
@@ -609,20 +783,24 @@ export default function AdminDashboard() {
                             </td>
                             <td className="px-6 py-4">
                               <div className="flex space-x-2">
-                                <Button
-                                  size="sm"
-                                  variant="outline"
-                                  onClick={() => handleEditSchedule(schedule)}
-                                >
-                                  <Edit className="w-4 h-4" />
-                                </Button>
-                                <Button
-                                  size="sm"
-                                  variant="destructive"
-                                  onClick={() => handleDeleteSchedule(schedule.id)}
-                                >
-                                  <Trash2 className="w-4 h-4" />
-                                </Button>
+                                {canManage && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => handleEditSchedule(schedule)}
+                                  >
+                                    <Edit className="w-4 h-4" />
+                                  </Button>
+                                )}
+                                {canManage && (
+                                  <Button
+                                    size="sm"
+                                    variant="destructive"
+                                    onClick={() => handleDeleteSchedule(schedule.id)}
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </Button>
+                                )}
                               </div>
                             </td>
                           </tr>
@@ -663,24 +841,28 @@ export default function AdminDashboard() {
                             </Badge>
                           </div>
                           <div className="flex space-x-2">
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => handleEditSchedule(schedule)}
-                              className="flex-1"
-                            >
-                              <Edit className="w-4 h-4 mr-2" />
-                              Editar
-                            </Button>
-                            <Button
-                              size="sm"
-                              variant="destructive"
-                              onClick={() => handleDeleteSchedule(schedule.id)}
-                              className="flex-1"
-                            >
-                              <Trash2 className="w-4 h-4 mr-2" />
-                              Eliminar
-                            </Button>
+                            {canManage && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleEditSchedule(schedule)}
+                                className="flex-1"
+                              >
+                                <Edit className="w-4 h-4 mr-2" />
+                                Editar
+                              </Button>
+                            )}
+                            {canManage && (
+                              <Button
+                                size="sm"
+                                variant="destructive"
+                                onClick={() => handleDeleteSchedule(schedule.id)}
+                                className="flex-1"
+                              >
+                                <Trash2 className="w-4 h-4 mr-2" />
+                                Eliminar
+                              </Button>
+                            )}
                           </div>
                         </CardContent>
                       </Card>
@@ -690,22 +872,120 @@ export default function AdminDashboard() {
               </div>
             )}
 
+            {/* Sección Paradas */}
+            {activeTab === "stops" && (
+              <div className="space-y-6">
+                <div className="flex justify-between items-center">
+                  <h2 className="text-xl font-semibold">Gestión de Paradas</h2>
+                  {canManage && (
+                    <Button
+                      onClick={() => {
+                        setSelectedStop(null);
+                        setIsStopModalOpen(true);
+                      }}
+                      className="bg-primary hover:bg-primary-dark"
+                      data-testid="button-new-stop"
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Nueva Parada
+                    </Button>
+                  )}
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full table-auto">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Código</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Nombre</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase hidden lg:table-cell">Coordenadas</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Accesibilidad</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Estado</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Acciones</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {stopsLoading ? (
+                        <tr>
+                          <td colSpan={6} className="px-6 py-4 text-center">Cargando...</td>
+                        </tr>
+                      ) : stops.length === 0 ? (
+                        <tr>
+                          <td colSpan={6} className="px-6 py-4 text-center text-gray-500">
+                            No hay paradas registradas
+                          </td>
+                        </tr>
+                      ) : (
+                        stops.map((stop) => (
+                          <tr key={stop.id} className="hover:bg-gray-50" data-testid={`row-stop-${stop.id}`}>
+                            <td className="px-6 py-4 font-medium">{stop.code}</td>
+                            <td className="px-6 py-4">{stop.name}</td>
+                            <td className="px-6 py-4 text-sm text-gray-600 hidden lg:table-cell">
+                              {parseFloat(stop.latitude).toFixed(5)}, {parseFloat(stop.longitude).toFixed(5)}
+                            </td>
+                            <td className="px-6 py-4 space-x-1 whitespace-nowrap">
+                              {stop.wheelchairAccessible && <span title="Accesible en silla de ruedas">♿</span>}
+                              {stop.hasShelter && <span title="Con techo">🏠</span>}
+                              {stop.hasTactilePaving && <span title="Piso podotáctil">⠿</span>}
+                            </td>
+                            <td className="px-6 py-4">
+                              <Badge variant={stop.isActive ? "default" : "secondary"}>
+                                {stop.isActive ? "Activa" : "Inactiva"}
+                              </Badge>
+                            </td>
+                            <td className="px-6 py-4">
+                              <div className="flex space-x-2">
+                                {canManage && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => handleEditStop(stop)}
+                                    data-testid={`button-edit-stop-${stop.id}`}
+                                  >
+                                    <Edit className="w-4 h-4" />
+                                  </Button>
+                                )}
+                                {canManage && (
+                                  <Button
+                                    size="sm"
+                                    variant="destructive"
+                                    onClick={() => handleDeleteStop(stop.id)}
+                                    data-testid={`button-delete-stop-${stop.id}`}
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </Button>
+                                )}
+                              </div>
+                            </td>
+                          </tr>
+                        ))
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+
+                <RouteStopsEditor schedules={schedules} stops={stops} canManage={canManage} />
+              </div>
+            )}
+
             {/* Sección Buses */}
             {activeTab === "buses" && (
               <div className="space-y-6">
                 <div className="flex justify-between items-center">
                   <h2 className="text-xl font-semibold">Gestión de Buses</h2>
-                  <Button
-                    onClick={() => {
-                      setSelectedBus(null);
-                      setIsBusModalOpen(true);
-                    }}
-                    className="bg-primary hover:bg-primary-dark"
-                    data-testid="button-new-bus"
-                  >
-                    <Plus className="w-4 h-4 mr-2" />
-                    Nuevo Bus
-                  </Button>
+                  {canManage && (
+                    <Button
+                      onClick={() => {
+                        setSelectedBus(null);
+                        setIsBusModalOpen(true);
+                      }}
+                      className="bg-primary hover:bg-primary-dark"
+                      data-testid="button-new-bus"
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Nuevo Bus
+                    </Button>
+                  )}
                 </div>
 
                 <div className="hidden lg:block overflow-x-auto">
@@ -757,22 +1037,26 @@ export default function AdminDashboard() {
                             </td>
                             <td className="px-6 py-4">
                               <div className="flex space-x-2">
-                                <Button
-                                  size="sm"
-                                  variant="outline"
-                                  onClick={() => handleEditBus(bus)}
-                                  data-testid={`button-edit-bus-${bus.id}`}
-                                >
-                                  <Edit className="w-4 h-4" />
-                                </Button>
-                                <Button
-                                  size="sm"
-                                  variant="destructive"
-                                  onClick={() => handleDeleteBus(bus.id)}
-                                  data-testid={`button-delete-bus-${bus.id}`}
-                                >
-                                  <Trash2 className="w-4 h-4" />
-                                </Button>
+                                {canManage && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => handleEditBus(bus)}
+                                    data-testid={`button-edit-bus-${bus.id}`}
+                                  >
+                                    <Edit className="w-4 h-4" />
+                                  </Button>
+                                )}
+                                {canManage && (
+                                  <Button
+                                    size="sm"
+                                    variant="destructive"
+                                    onClick={() => handleDeleteBus(bus.id)}
+                                    data-testid={`button-delete-bus-${bus.id}`}
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </Button>
+                                )}
                               </div>
                             </td>
                           </tr>
@@ -820,26 +1104,30 @@ export default function AdminDashboard() {
                             </Badge>
                           </div>
                           <div className="flex space-x-2">
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              onClick={() => handleEditBus(bus)}
-                              className="flex-1"
-                              data-testid={`button-edit-bus-mobile-${bus.id}`}
-                            >
-                              <Edit className="w-4 h-4 mr-2" />
-                              Editar
-                            </Button>
-                            <Button
-                              size="sm"
-                              variant="destructive"
-                              onClick={() => handleDeleteBus(bus.id)}
-                              className="flex-1"
-                              data-testid={`button-delete-bus-mobile-${bus.id}`}
-                            >
-                              <Trash2 className="w-4 h-4 mr-2" />
-                              Eliminar
-                            </Button>
+                            {canManage && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleEditBus(bus)}
+                                className="flex-1"
+                                data-testid={`button-edit-bus-mobile-${bus.id}`}
+                              >
+                                <Edit className="w-4 h-4 mr-2" />
+                                Editar
+                              </Button>
+                            )}
+                            {canManage && (
+                              <Button
+                                size="sm"
+                                variant="destructive"
+                                onClick={() => handleDeleteBus(bus.id)}
+                                className="flex-1"
+                                data-testid={`button-delete-bus-mobile-${bus.id}`}
+                              >
+                                <Trash2 className="w-4 h-4 mr-2" />
+                                Eliminar
+                              </Button>
+                            )}
                           </div>
                         </CardContent>
                       </Card>
@@ -854,13 +1142,15 @@ export default function AdminDashboard() {
               <div className="space-y-6">
                 <div className="flex justify-between items-center">
                   <h2 className="text-xl font-semibold">Asignación de Choferes</h2>
-                  <Button
-                    onClick={() => setIsAssignmentModalOpen(true)}
-                    className="bg-primary hover:bg-primary-dark"
-                  >
-                    <Plus className="w-4 h-4 mr-2" />
-                    Nueva Asignación
-                  </Button>
+                  {canManage && (
+                    <Button
+                      onClick={() => setIsAssignmentModalOpen(true)}
+                      className="bg-primary hover:bg-primary-dark"
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Nueva Asignación
+                    </Button>
+                  )}
                 </div>
 
                 <div className="hidden lg:block overflow-x-auto">
@@ -870,7 +1160,7 @@ export default function AdminDashboard() {
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Chofer</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Ruta</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Bus</th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Fecha</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Vigencia</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Turno</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Estado</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Acciones</th>
@@ -922,9 +1212,9 @@ export default function AdminDashboard() {
                                 <span className="text-gray-500">Sin bus</span>
                               )}
                             </td>
-                            <td className="px-6 py-4 text-sm text-gray-500">{assignment.assignedDate}</td>
+                            <td className="px-6 py-4 text-sm text-gray-500">{describeRecurrence(assignment)}</td>
                             <td className="px-6 py-4 text-sm text-gray-500">
-                              {assignment.shiftStart} - {assignment.shiftEnd}
+                              {formatShiftWindow(assignment)}
                             </td>
                             <td className="px-6 py-4">
                               <Badge variant={assignment.isActive ? "default" : "secondary"}>
@@ -932,13 +1222,28 @@ export default function AdminDashboard() {
                               </Badge>
                             </td>
                             <td className="px-6 py-4">
-                              <Button
-                                size="sm"
-                                variant="destructive"
-                                onClick={() => handleDeleteAssignment(assignment.id)}
-                              >
-                                <Trash2 className="w-4 h-4" />
-                              </Button>
+                              <div className="flex space-x-2">
+                                {assignment.isRecurring && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => setExceptionsAssignment(assignment)}
+                                    title="Excepciones"
+                                    data-testid={`button-assignment-exceptions-${assignment.id}`}
+                                  >
+                                    <CalendarX className="w-4 h-4" />
+                                  </Button>
+                                )}
+                                {canManage && (
+                                  <Button
+                                    size="sm"
+                                    variant="destructive"
+                                    onClick={() => handleDeleteAssignment(assignment.id)}
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </Button>
+                                )}
+                              </div>
                             </td>
                           </tr>
                         ))
@@ -995,25 +1300,78 @@ export default function AdminDashboard() {
                             )}
                             
                             <div className="text-xs text-gray-500 space-y-1">
-                              <p>Fecha: {assignment.assignedDate}</p>
-                              <p>Turno: {assignment.shiftStart} - {assignment.shiftEnd}</p>
+                              <p>Vigencia: {describeRecurrence(assignment)}</p>
+                              <p>Turno: {formatShiftWindow(assignment)}</p>
                             </div>
                             
-                            <Button
-                              size="sm"
-                              variant="destructive"
-                              onClick={() => handleDeleteAssignment(assignment.id)}
-                              className="w-full"
-                            >
-                              <Trash2 className="w-4 h-4 mr-2" />
-                              Eliminar Asignación
-                            </Button>
+                            {assignment.isRecurring && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setExceptionsAssignment(assignment)}
+                                className="w-full"
+                              >
+                                <CalendarX className="w-4 h-4 mr-2" />
+                                Excepciones
+                              </Button>
+                            )}
+
+                            {canManage && (
+                              <Button
+                                size="sm"
+                                variant="destructive"
+                                onClick={() => handleDeleteAssignment(assignment.id)}
+                                className="w-full"
+                              >
+                                <Trash2 className="w-4 h-4 mr-2" />
+                                Eliminar Asignación
+                              </Button>
+                            )}
                           </div>
                         </CardContent>
                       </Card>
                     ))
                   )}
                 </div>
+
+                <HolidayCalendar canManage={canManage} />
+              </div>
+            )}
+
+            {/* Sección Planificador semanal */}
+            {activeTab === "roster" && (
+              <div className="space-y-6">
+                <h2 className="text-xl font-semibold">Planificador Semanal</h2>
+                <RosterPlanner
+                  drivers={drivers}
+                  schedules={schedules}
+                  buses={buses}
+                  canManage={canManage}
+                />
+              </div>
+            )}
+
+            {/* Sección Jornada de choferes */}
+            {activeTab === "compliance" && (
+              <div className="space-y-6">
+                <h2 className="text-xl font-semibold">Cumplimiento de Jornada</h2>
+                <ComplianceReport drivers={drivers} canManage={canManage} />
+              </div>
+            )}
+
+            {/* Sección Asistencia */}
+            {activeTab === "attendance" && (
+              <div className="space-y-6">
+                <h2 className="text-xl font-semibold">Asistencia de Choferes</h2>
+                <AttendanceReport drivers={drivers} schedules={schedules} />
+              </div>
+            )}
+
+            {/* Sección Solicitudes de turno */}
+            {activeTab === "requests" && (
+              <div className="space-y-6">
+                <h2 className="text-xl font-semibold">Solicitudes de Turno</h2>
+                <ShiftRequestsReview drivers={drivers} schedules={schedules} canManage={canManage} />
               </div>
             )}
 
@@ -1029,13 +1387,13 @@ export default function AdminDashboard() {
                       <CardContent className="p-4 sm:p-6">
                         <h3 className="text-lg font-semibold mb-4">Estado de Choferes</h3>
                         <div className="space-y-3 max-h-96 overflow-y-auto">
-                          {assignments.length === 0 ? (
+                          {todayShifts.length === 0 ? (
                             <div className="text-center py-4">
                               <Car className="h-12 w-12 text-gray-300 mx-auto mb-2" />
-                              <p className="text-gray-500">No hay asignaciones programadas</p>
+                              <p className="text-gray-500">No hay turnos programados para hoy</p>
                             </div>
                           ) : (
-                            assignments
+                            todayShifts
                               .sort((a, b) => a.shiftStart.localeCompare(b.shiftStart))
                               .map((assignment, index) => {
                                 const route = getRouteInfo(assignment.scheduleId);
@@ -1052,7 +1410,7 @@ export default function AdminDashboard() {
                                           {route?.routeName || 'Ruta sin nombre'}
                                         </p>
                                         <p className="text-xs text-gray-600">
-                                          {formatTime(assignment.shiftStart)} - {formatTime(assignment.shiftEnd)}
+                                          {formatTime(assignment.shiftStart)} - {formatTime(assignment.shiftEnd)}{crossesMidnight(assignment) && " (+1 día)"}
                                         </p>
                                         <div className="mt-1 space-y-1">
                                           <p className="text-xs text-gray-500 flex items-center">
@@ -1067,7 +1425,7 @@ export default function AdminDashboard() {
                                       </div>
                                       <div className="flex flex-col items-end space-y-2">
                                         {(() => {
-                                          const statusDisplay = getDriverStatusDisplay(driver?.driverStatus, isTransmitting);
+                                          const statusDisplay = getDriverStatusDisplay(driver?.driverStatus, isTransmitting, !!driverLocation?.signalLostAt);
                                           return (
                                             <Badge 
                                               variant={statusDisplay.variant}
@@ -1078,6 +1436,11 @@ export default function AdminDashboard() {
                                             </Badge>
                                           );
                                         })()}
+                                        {isTransmitting && driverLocation?.signalLostAt && (
+                                          <span className="text-xs text-gray-500" data-testid={`text-last-seen-${index}`}>
+                                            Última señal {formatLastSeen(driverLocation.timestamp)}
+                                          </span>
+                                        )}
                                         {isTransmitting && (
                                           <Button
                                             size="sm"
@@ -1109,12 +1472,30 @@ export default function AdminDashboard() {
                             center={mapCenter}
                             zoom={mapZoom}
                             locations={locations.filter((l: Location) => l.isTransmitting)}
+                            stops={activeStops}
+                            routeShapes={routeShapes}
+                            reportPins={reportPins}
                           />
                         </div>
                       </CardContent>
                     </Card>
                   </div>
                 </div>
+
+                {/* Desvíos de ruta detectados */}
+                <OffRouteAlerts
+                  drivers={drivers}
+                  buses={buses}
+                  schedules={schedules}
+                  canManage={canManage}
+                  onLocateDriver={locateDriver}
+                />
+
+                {/* Historial de emergencias con su línea de tiempo */}
+                <SosIncidents canManage={canManage} />
+
+                {/* Reproducción de recorridos para revisar quejas y reportes */}
+                <TripPlayback drivers={drivers} buses={buses} schedules={schedules} canManage={canManage} />
               </div>
             )}
 
@@ -1123,16 +1504,18 @@ export default function AdminDashboard() {
               <div className="space-y-6">
                 <div className="flex justify-between items-center">
                   <h2 className="text-xl font-semibold">Gestión de Usuarios</h2>
-                  <Button
-                    onClick={() => {
-                      setSelectedUser(null);
-                      setIsUserModalOpen(true);
-                    }}
-                    className="bg-primary hover:bg-primary-dark"
-                  >
-                    <UserPlus className="w-4 h-4 mr-2" />
-                    Nuevo Usuario
-                  </Button>
+                  {canManage && (
+                    <Button
+                      onClick={() => {
+                        setSelectedUser(null);
+                        setIsUserModalOpen(true);
+                      }}
+                      className="bg-primary hover:bg-primary-dark"
+                    >
+                      <UserPlus className="w-4 h-4 mr-2" />
+                      Nuevo Usuario
+                    </Button>
+                  )}
                 </div>
 
                 <div className="hidden lg:block overflow-x-auto">
@@ -1163,9 +1546,9 @@ export default function AdminDashboard() {
                             <td className="px-6 py-4">
                               <div className="flex items-center">
                                 <div className={`w-8 h-8 rounded-full flex items-center justify-center text-white text-sm font-semibold mr-3 ${
-                                  user.role === 'admin' ? 'bg-blue-500' : 'bg-green-500'
+                                  user.role === 'admin' ? 'bg-blue-500' : user.role === 'dispatcher' ? 'bg-purple-500' : 'bg-green-500'
                                 }`}>
-                                  {user.role === 'admin' ? <Shield className="w-4 h-4" /> : <Car className="w-4 h-4" />}
+                                  {user.role === 'driver' ? <Car className="w-4 h-4" /> : <Shield className="w-4 h-4" />}
                                 </div>
                                 <span className="font-medium">{user.username}</span>
                               </div>
@@ -1173,7 +1556,7 @@ export default function AdminDashboard() {
                             <td className="px-6 py-4 text-sm text-gray-900">{user.fullName}</td>
                             <td className="px-6 py-4">
                               <Badge variant={user.role === 'admin' ? 'default' : 'secondary'}>
-                                {user.role === 'admin' ? 'Administrador' : 'Chofer'}
+                                {roleLabels[user.role] || user.role}
                               </Badge>
                             </td>
                             <td className="px-6 py-4 text-sm text-gray-500">
@@ -1181,27 +1564,31 @@ export default function AdminDashboard() {
                             </td>
                             <td className="px-6 py-4">
                               <div className="flex space-x-2">
-                                <Button
-                                  size="sm"
-                                  variant="outline"
-                                  onClick={() => {
-                                    setSelectedUser(user);
-                                    setIsUserModalOpen(true);
-                                  }}
-                                >
-                                  <Edit className="w-4 h-4" />
-                                </Button>
-                                <Button
-                                  size="sm"
-                                  variant="destructive"
-                                  onClick={() => {
-                                    if (confirm("¿Está seguro de que desea eliminar este usuario?")) {
-                                      deleteUserMutation.mutate(user.id);
-                                    }
-                                  }}
-                                >
-                                  <Trash2 className="w-4 h-4" />
-                                </Button>
+                                {canManage && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => {
+                                      setSelectedUser(user);
+                                      setIsUserModalOpen(true);
+                                    }}
+                                  >
+                                    <Edit className="w-4 h-4" />
+                                  </Button>
+                                )}
+                                {canManage && (
+                                  <Button
+                                    size="sm"
+                                    variant="destructive"
+                                    onClick={() => {
+                                      if (confirm("¿Está seguro de que desea eliminar este usuario?")) {
+                                        deleteUserMutation.mutate(user.id);
+                                      }
+                                    }}
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </Button>
+                                )}
                               </div>
                             </td>
                           </tr>
@@ -1231,9 +1618,9 @@ export default function AdminDashboard() {
                             <div className="flex items-center justify-between">
                               <div className="flex items-center space-x-3">
                                 <div className={`w-8 h-8 rounded-full flex items-center justify-center text-white text-sm ${
-                                  user.role === 'admin' ? 'bg-blue-500' : 'bg-green-500'
+                                  user.role === 'admin' ? 'bg-blue-500' : user.role === 'dispatcher' ? 'bg-purple-500' : 'bg-green-500'
                                 }`}>
-                                  {user.role === 'admin' ? <Shield className="w-4 h-4" /> : <Car className="w-4 h-4" />}
+                                  {user.role === 'driver' ? <Car className="w-4 h-4" /> : <Shield className="w-4 h-4" />}
                                 </div>
                                 <div>
                                   <p className="font-medium text-sm">{user.username}</p>
@@ -1241,7 +1628,7 @@ export default function AdminDashboard() {
                                 </div>
                               </div>
                               <Badge variant={user.role === 'admin' ? 'default' : 'secondary'}>
-                                {user.role === 'admin' ? 'Admin' : 'Chofer'}
+                                {roleLabels[user.role] || user.role}
                               </Badge>
                             </div>
                             
@@ -1252,31 +1639,35 @@ export default function AdminDashboard() {
                             )}
                             
                             <div className="flex space-x-2">
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                onClick={() => {
-                                  setSelectedUser(user);
-                                  setIsUserModalOpen(true);
-                                }}
-                                className="flex-1"
-                              >
-                                <Edit className="w-4 h-4 mr-2" />
-                                Editar
-                              </Button>
-                              <Button
-                                size="sm"
-                                variant="destructive"
-                                onClick={() => {
-                                  if (confirm("¿Está seguro de que desea eliminar este usuario?")) {
-                                    deleteUserMutation.mutate(user.id);
-                                  }
-                                }}
-                                className="flex-1"
-                              >
-                                <Trash2 className="w-4 h-4 mr-2" />
-                                Eliminar
-                              </Button>
+                              {canManage && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => {
+                                    setSelectedUser(user);
+                                    setIsUserModalOpen(true);
+                                  }}
+                                  className="flex-1"
+                                >
+                                  <Edit className="w-4 h-4 mr-2" />
+                                  Editar
+                                </Button>
+                              )}
+                              {canManage && (
+                                <Button
+                                  size="sm"
+                                  variant="destructive"
+                                  onClick={() => {
+                                    if (confirm("¿Está seguro de que desea eliminar este usuario?")) {
+                                      deleteUserMutation.mutate(user.id);
+                                    }
+                                  }}
+                                  className="flex-1"
+                                >
+                                  <Trash2 className="w-4 h-4 mr-2" />
+                                  Eliminar
+                                </Button>
+                              )}
                             </div>
                           </div>
                         </CardContent>
@@ -1293,7 +1684,8 @@ export default function AdminDashboard() {
                 <div className="flex justify-between items-center">
                   <h2 className="text-xl font-semibold">Reportes de Incidentes</h2>
                 </div>
-                <ReportsTable />
+                <ReportsTable canManage={canManage} />
+                <ReportCategoriesManager canManage={canManage} />
               </div>
             )}
 
@@ -1319,6 +1711,13 @@ export default function AdminDashboard() {
         buses={buses}
       />
 
+      <AssignmentExceptionsModal
+        isOpen={!!exceptionsAssignment}
+        onClose={() => setExceptionsAssignment(null)}
+        assignment={exceptionsAssignment}
+        canManage={canManage}
+      />
+
       <UserModal
         isOpen={isUserModalOpen}
         onClose={() => {
@@ -1336,6 +1735,15 @@ export default function AdminDashboard() {
         }}
         bus={selectedBus}
       />
+
+      <StopModal
+        isOpen={isStopModalOpen}
+        onClose={() => {
+          setIsStopModalOpen(false);
+          setSelectedStop(null);
+        }}
+        stop={selectedStop}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -7,7 +7,8 @@ import { useWebSocket } from "@/hooks/use-websocket";
 import { useGeolocation } from "@/hooks/use-geolocation";
 import { apiRequest } from "@/lib/queryClient";
 import { authManager } from "@/lib/auth";
-import { Assignment, Route as RouteType } from "@shared/schema";
+import { EffectiveShift, Route as RouteType, SOS_LOCATION_INTERVAL_MS, SosIncidentWithDriver } from "@shared/schema";
+import { formatShiftWindow, getShiftPhase, isShiftActiveAt, minutesOfDay, minutesUntilShiftEnd } from "@shared/shifts";
 import { 
   Compass, 
   LogOut,
@@ -26,9 +27,18 @@ import {
   Home,
   Car,
   AlertTriangle,
-  RefreshCw
+  RefreshCw,
+  ArrowLeftRight,
+  MessageSquare
 } from "lucide-react";
 import { StatusModal } from "@/components/status-modal";
+import { AttendanceCard } from "@/components/attendance-card";
+import { ShiftRequestsPanel } from "@/components/shift-requests-panel";
+import { DriverReports } from "@/components/driver-reports";
+import { SosButton } from "@/components/sos-button";
+
+// Intervalo normal de envío de ubicación
+const LOCATION_INTERVAL_MS = 15000;
 
 export default function DriverDashboard() {
   const [isTransmitting, setIsTransmitting] = useState(false);
@@ -44,6 +54,25 @@ export default function DriverDashboard() {
 
   // WebSocket connection
   const { sendMessage, isConnected } = useWebSocket({
+    onMessage: (message) => {
+      // Respuesta de la administración a uno de sus reportes
+      if (message.type === 'reportComment') {
+        toast({
+          title: "Nuevo mensaje sobre su reporte",
+          description: message.data?.body,
+        });
+      }
+
+      // Cambios de la emergencia hechos desde la central
+      if (message.type === 'sosUpdate') {
+        if (message.data?.status === 'reconocida') {
+          toast({ title: "La central recibió su alerta", description: "Mantenga la calma, la emergencia está siendo atendida." });
+        }
+        if (message.data?.status === 'cerrada') {
+          toast({ title: "Emergencia cerrada", description: message.data?.resolutionNotes });
+        }
+      }
+    },
     onConnect: () => {
       console.log('WebSocket connected');
     },
@@ -73,7 +102,8 @@ export default function DriverDashboard() {
         // Usar sendBeacon para garantizar que la petición se envíe antes de cerrar
         const data = JSON.stringify({ driverId: currentUser.id });
         const blob = new Blob([data], { type: 'application/json' });
-        navigator.sendBeacon('/api/locations/stop-transmission', blob);
+        const token = authManager.getToken();
+        navigator.sendBeacon(`/api/locations/stop-transmission?token=${encodeURIComponent(token || '')}`, blob);
         console.log('Transmisión detenida por cierre de página');
       }
     };
@@ -98,7 +128,7 @@ export default function DriverDashboard() {
         const timestamp = new Date().toISOString();
         console.log(`Nueva ubicación obtenida [${timestamp}]:`, coords);
         
-        // Send location update via API
+        // Send location update via API (el servidor la guarda en el historial y la publica por WebSocket)
         apiRequest("POST", "/api/locations", {
           driverId: currentUser.id,
           latitude: coords.latitude.toString(),
@@ -109,18 +139,6 @@ export default function DriverDashboard() {
         }).catch(error => {
           console.error(`Error enviando ubicación [${timestamp}]:`, error);
         });
-
-        // Also send via WebSocket for real-time updates
-        sendMessage({
-          type: 'locationUpdate',
-          location: {
-            driverId: currentUser.id,
-            latitude: coords.latitude.toString(),
-            longitude: coords.longitude.toString(),
-            isTransmitting: true,
-            timestamp: timestamp
-          }
-        });
       }
     },
     onError: (error) => {
@@ -135,13 +153,15 @@ export default function DriverDashboard() {
 
   // Query para obtener turnos actual y siguiente
   const { data: shifts, isLoading: shiftsLoading, error: shiftsError } = useQuery<{
-    current: Assignment | null,
-    next: Assignment | null
+    current: EffectiveShift | null,
+    next: EffectiveShift | null
   }>({
     queryKey: ['/api/assignments/driver', currentUser?.id, 'shifts'],
     queryFn: async () => {
       if (!currentUser?.id) return { current: null, next: null };
-      const response = await fetch(`/api/assignments/driver/${currentUser.id}/shifts`);
+      const response = await fetch(`/api/assignments/driver/${currentUser.id}/shifts`, {
+        headers: authManager.getAuthHeaders(),
+      });
       if (!response.ok) {
         throw new Error(`Error loading shifts: ${response.status}`);
       }
@@ -156,7 +176,9 @@ export default function DriverDashboard() {
     queryKey: ['/api/schedules', shifts?.current?.scheduleId],
     queryFn: async () => {
       if (!shifts?.current?.scheduleId) return null;
-      const response = await fetch(`/api/schedules/${shifts.current.scheduleId}`);
+      const response = await fetch(`/api/schedules/${shifts.current.scheduleId}`, {
+        headers: authManager.getAuthHeaders(),
+      });
       if (!response.ok) {
         throw new Error(`Error loading current schedule: ${response.status}`);
       }
@@ -170,7 +192,9 @@ export default function DriverDashboard() {
     queryKey: ['/api/schedules', shifts?.next?.scheduleId],
     queryFn: async () => {
       if (!shifts?.next?.scheduleId) return null;
-      const response = await fetch(`/api/schedules/${shifts.next.scheduleId}`);
+      const response = await fetch(`/api/schedules/${shifts.next.scheduleId}`, {
+        headers: authManager.getAuthHeaders(),
+      });
       if (!response.ok) {
         throw new Error(`Error loading next schedule: ${response.status}`);
       }
@@ -180,11 +204,13 @@ export default function DriverDashboard() {
   });
 
   // Query para obtener todos los turnos del día (cola de turnos)
-  const { data: allTodayShifts = [], isLoading: allShiftsLoading } = useQuery<Assignment[]>({
+  const { data: allTodayShifts = [], isLoading: allShiftsLoading } = useQuery<EffectiveShift[]>({
     queryKey: ['/api/assignments/driver', currentUser?.id, 'all'],
     queryFn: async () => {
       if (!currentUser?.id) return [];
-      const response = await fetch(`/api/assignments/driver/${currentUser.id}`);
+      const response = await fetch(`/api/assignments/driver/${currentUser.id}`, {
+        headers: authManager.getAuthHeaders(),
+      });
       if (!response.ok) {
         throw new Error(`Error loading all shifts: ${response.status}`);
       }
@@ -194,6 +220,13 @@ export default function DriverDashboard() {
     refetchInterval: 30000, // Actualizar cada 30 segundos
   });
 
+  // Emergencia abierta del chofer (se retoma al recargar la página)
+  const { data: activeSos } = useQuery<SosIncidentWithDriver | null>({
+    queryKey: ['/api/sos', 'current'],
+    enabled: currentUser?.role === 'driver',
+  });
+  const isSosActive = !!activeSos;
+
   // Debug data
   console.log('Shifts data:', shifts);
   console.log('Current schedule:', currentSchedule);
@@ -218,12 +251,7 @@ export default function DriverDashboard() {
       forceLocationUpdate();
       
       // Configurar intervalo para enviar ubicación cada 15 segundos
-      const interval = setInterval(() => {
-        console.log('⏰ Ejecutando envío programado de ubicación...');
-        forceLocationUpdate();
-      }, 15000); // 15 segundos
-      
-      setTransmissionInterval(interval);
+      scheduleLocationUpdates(LOCATION_INTERVAL_MS);
       
       // Notify server about transmission status
       if (currentUser) {
@@ -279,6 +307,39 @@ export default function DriverDashboard() {
     window.location.href = '/';
   };
 
+  // Programar el envío periódico de ubicación reemplazando el intervalo anterior
+  const scheduleLocationUpdates = (intervalMs: number, quiet = false) => {
+    if (transmissionInterval) {
+      clearInterval(transmissionInterval);
+    }
+    const interval = setInterval(() => {
+      console.log('⏰ Ejecutando envío programado de ubicación...');
+      forceLocationUpdate(quiet);
+    }, intervalMs);
+    setTransmissionInterval(interval);
+  };
+
+  // Mientras haya una emergencia abierta la transmisión se fuerza con mayor frecuencia;
+  // al cerrarse sigue transmitiendo con el intervalo normal
+  useEffect(() => {
+    if (!currentUser || currentUser.role !== 'driver') return;
+
+    if (isSosActive) {
+      if (!isTransmitting) {
+        setIsTransmitting(true);
+        sendMessage({
+          type: 'transmissionStatus',
+          driverId: currentUser.id,
+          isTransmitting: true
+        });
+      }
+      forceLocationUpdate(true);
+      scheduleLocationUpdates(SOS_LOCATION_INTERVAL_MS, true);
+    } else if (isTransmitting) {
+      scheduleLocationUpdates(LOCATION_INTERVAL_MS);
+    }
+  }, [isSosActive]);
+
   // Limpiar intervalo al desmontar el componente
   useEffect(() => {
     return () => {
@@ -288,8 +349,8 @@ export default function DriverDashboard() {
     };
   }, [transmissionInterval]);
 
-  // Función para forzar una obtención de ubicación nueva
-  const forceLocationUpdate = () => {
+  // Función para forzar una obtención de ubicación nueva (quiet: sin aviso en pantalla)
+  const forceLocationUpdate = (quiet = false) => {
     if (!currentUser) return;
     
     console.log('Forzando obtención de nueva ubicación...');
@@ -299,14 +360,19 @@ export default function DriverDashboard() {
         const timestamp = new Date().toISOString();
         console.log(`Ubicación forzada obtenida [${timestamp}]:`, coords);
         
-        // Enviar inmediatamente via API
+        // Enviar inmediatamente via API (con precisión, velocidad y rumbo para el historial)
         apiRequest("POST", "/api/locations", {
           driverId: currentUser.id,
           latitude: coords.latitude.toString(),
           longitude: coords.longitude.toString(),
           isTransmitting: true,
+          accuracy: coords.accuracy,
+          speed: coords.speed,
+          heading: Number.isNaN(coords.heading) ? null : coords.heading,
+          deviceTimestamp: new Date(position.timestamp).toISOString(),
         }).then(response => {
           console.log('Ubicación forzada enviada:', response);
+          if (quiet) return;
           toast({
             title: "Ubicación actualizada",
             description: `Nueva posición: ${coords.latitude.toFixed(4)}, ${coords.longitude.toFixed(4)}`,
@@ -331,24 +397,29 @@ export default function DriverDashboard() {
     );
   };
 
-  // Calculate remaining time in current shift
+  // Calculate remaining time in current shift (los turnos nocturnos terminan al día siguiente)
   const getRemainingTime = () => {
     if (!shifts?.current) return null;
     
-    const now = new Date();
-    const [endHour, endMinute] = shifts.current.shiftEnd.split(':').map(Number);
-    const endTime = new Date();
-    endTime.setHours(endHour, endMinute, 0, 0);
-    
-    if (endTime < now) {
+    const now = minutesOfDay();
+    if (!isShiftActiveAt(shifts.current, now)) {
       return "Turno finalizado";
     }
     
-    const diff = endTime.getTime() - now.getTime();
-    const hours = Math.floor(diff / (1000 * 60 * 60));
-    const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
-    
-    return `${hours}h ${minutes}m`;
+    const remaining = minutesUntilShiftEnd(shifts.current, now);
+    return `${Math.floor(remaining / 60)}h ${remaining % 60}m`;
+  };
+
+  // Cola de turnos de hoy: en curso, pendientes y al final los completados
+  const getShiftQueue = () => {
+    const now = minutesOfDay();
+    const phaseOrder = { en_curso: 0, pendiente: 1, completado: 2 };
+    return allTodayShifts
+      .map(shift => ({ shift, phase: getShiftPhase(shift, now) }))
+      .sort((a, b) =>
+        phaseOrder[a.phase] - phaseOrder[b.phase] ||
+        a.shift.shiftStart.localeCompare(b.shift.shiftStart)
+      );
   };
 
   const routeStops = [
@@ -374,6 +445,18 @@ export default function DriverDashboard() {
       icon: Calendar,
       description: "Turnos asignados"
     },
+    {
+      id: "requests",
+      label: "Solicitudes",
+      icon: ArrowLeftRight,
+      description: "Intercambios y permisos"
+    },
+    {
+      id: "reports",
+      label: "Reportes",
+      icon: MessageSquare,
+      description: "Incidentes y mensajes"
+    },
     {
       id: "status",
       label: "Estado",
@@ -508,9 +591,24 @@ export default function DriverDashboard() {
         <main className="flex-1 overflow-auto">
           <div className="px-4 sm:px-6 lg:px-8 py-8">
 
+            {/* Botón de pánico: visible en todas las secciones */}
+            {currentUser && (
+              <div className="mb-6">
+                <SosButton incident={activeSos} />
+              </div>
+            )}
+
             {/* Sección Inicio - Control de Ubicación */}
             {activeTab === "home" && (
               <div className="space-y-6">
+                {currentUser && (
+                  <AttendanceCard
+                    driverId={currentUser.id}
+                    currentShift={shifts?.current ?? null}
+                    nextShift={shifts?.next ?? null}
+                  />
+                )}
+
                 {/* Location Control Card */}
                 <Card className="mb-6 sm:mb-8">
           <CardContent className="p-4 sm:p-6 text-center">
@@ -531,7 +629,7 @@ export default function DriverDashboard() {
               </p>
               {isTransmitting && (
                 <p className="text-sm text-gray-500">
-                  Ubicación compartida cada 30 segundos
+                  Ubicación compartida cada {(isSosActive ? SOS_LOCATION_INTERVAL_MS : LOCATION_INTERVAL_MS) / 1000} segundos
                 </p>
               )}
               {locationError && (
@@ -551,7 +649,7 @@ export default function DriverDashboard() {
                   ? 'bg-red-500 hover:bg-red-600' 
                   : 'bg-accent hover:bg-accent-dark'
               }`}
-              disabled={!isSupported}
+              disabled={!isSupported || isSosActive}
             >
               {isTransmitting ? (
                 <>
@@ -608,8 +706,8 @@ export default function DriverDashboard() {
                   </div>
                   <div className="min-w-0 flex-1">
                     <h4 className="text-base sm:text-lg font-semibold truncate">Ruta {currentSchedule.routeName}</h4>
-                    <p className="text-sm sm:text-base text-gray-600">Turno: {shifts.current.shiftStart} - {shifts.current.shiftEnd}</p>
-                    <p className="text-xs sm:text-sm text-gray-500">Fecha: {shifts.current.assignedDate}</p>
+                    <p className="text-sm sm:text-base text-gray-600">Turno: {formatShiftWindow(shifts.current)}</p>
+                    <p className="text-xs sm:text-sm text-gray-500">Fecha: {shifts.current.shiftDate}</p>
                     {getRemainingTime() && (
                       <p className="text-xs sm:text-sm text-blue-600 font-medium">Tiempo restante: {getRemainingTime()}</p>
                     )}
@@ -648,8 +746,8 @@ export default function DriverDashboard() {
                       </div>
                       <div className="min-w-0 flex-1">
                         <h4 className="text-base sm:text-lg font-semibold truncate">Ruta {nextSchedule.routeName}</h4>
-                        <p className="text-sm sm:text-base text-gray-600">Turno: {shifts.next.shiftStart} - {shifts.next.shiftEnd}</p>
-                        <p className="text-xs sm:text-sm text-gray-500">Fecha: {shifts.next.assignedDate}</p>
+                        <p className="text-sm sm:text-base text-gray-600">Turno: {formatShiftWindow(shifts.next)}</p>
+                        <p className="text-xs sm:text-sm text-gray-500">Fecha: {shifts.next.shiftDate}</p>
                         <p className="text-xs sm:text-sm text-blue-600 font-medium">Inicia a las {shifts.next.shiftStart}</p>
                       </div>
                     </div>
@@ -719,12 +817,10 @@ export default function DriverDashboard() {
                 <p className="text-gray-500 text-center py-4">No hay turnos programados para hoy</p>
               ) : (
                 <div className="space-y-3">
-                  {allTodayShifts.map((shift, index) => {
-                    const now = new Date();
-                    const currentTime = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
-                    const isCurrentShift = currentTime >= shift.shiftStart && currentTime <= shift.shiftEnd;
-                    const isCompleted = currentTime > shift.shiftEnd;
-                    const isPending = currentTime < shift.shiftStart;
+                  {getShiftQueue().map(({ shift, phase }, index) => {
+                    const isCurrentShift = phase === "en_curso";
+                    const isCompleted = phase === "completado";
+                    const isPending = phase === "pendiente";
                     
                     return (
                       <div key={shift.id} className={`border rounded-lg p-4 ${
@@ -743,10 +839,10 @@ export default function DriverDashboard() {
                             </div>
                             <div>
                               <p className="font-medium">
-                                Turno {shift.shiftStart} - {shift.shiftEnd}
+                                Turno {formatShiftWindow(shift)}
                               </p>
                               <p className="text-sm text-gray-600">
-                                Fecha: {shift.assignedDate}
+                                Fecha: {shift.shiftDate}
                               </p>
                             </div>
                           </div>
@@ -842,6 +938,16 @@ export default function DriverDashboard() {
               </div>
             )}
 
+            {/* Sección Solicitudes */}
+            {activeTab === "requests" && currentUser && (
+              <ShiftRequestsPanel driverId={currentUser.id} />
+            )}
+
+            {/* Sección Reportes */}
+            {activeTab === "reports" && currentUser && (
+              <DriverReports driverId={currentUser.id} />
+            )}
+
           </div>
         </main>
       </div>
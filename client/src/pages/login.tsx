@@ -2,7 +2,7 @@ import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useLocation } from "wouter";
-import { LoginRequest, loginSchema } from "@shared/schema";
+import { LoginRequest, loginSchema, type AuthSessionResponse } from "@shared/schema";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -29,16 +29,17 @@ export default function Login() {
     setIsLoading(true);
     try {
       const res = await apiRequest("POST", "/api/auth/login", data);
-      const user = await res.json();
+      const session: AuthSessionResponse = await res.json();
+      const { user } = session;
       
-      authManager.setCurrentUser(user);
+      authManager.setSession(session);
       toast({
         title: "Inicio de sesión exitoso",
         description: `Bienvenido, ${user.fullName}`,
       });
       
       // Redirigir según el rol del usuario
-      if (user.role === 'admin') {
+      if (user.role === 'admin' || user.role === 'dispatcher') {
         navigate('/admin');
       } else if (user.role === 'driver') {
         navigate('/driver');
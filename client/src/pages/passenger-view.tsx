@@ -1,11 +1,17 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { ArrowLeft, MapPin, Clock, Bus, AlertTriangle, Navigation } from 'lucide-react';
+import { ArrowLeft, MapPin, Clock, Bus, AlertTriangle, Navigation, Signpost, Timer } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { GoogleMap } from '@/components/google-map';
-import { Location, Assignment, Route, User, Bus as BusType } from '@shared/schema';
+import { GoogleMap, type RouteShape } from '@/components/google-map';
+import { useWebSocket } from '@/hooks/use-websocket';
+import { queryClient } from '@/lib/queryClient';
+import { formatLastSeen } from '@/lib/utils';
+import { Location, EffectiveShift, Route, PublicDriverCard, Bus as BusType, Stop, RouteStop, StopArrivalsResponse } from '@shared/schema';
+import { decodePolyline } from '@shared/geo';
+import { crossesMidnight } from '@shared/shifts';
+import type { WsTopic } from '@shared/ws-protocol';
 
 interface PassengerViewProps {
   onBackToLogin: () => void;
@@ -14,6 +20,44 @@ interface PassengerViewProps {
 export default function PassengerView({ onBackToLogin }: PassengerViewProps) {
   const [mapCenter, setMapCenter] = useState({ lat: 14.634915, lng: -90.506882 }); // Guatemala City
   const [mapZoom, setMapZoom] = useState(12);
+  const [selectedStopId, setSelectedStopId] = useState<string | null>(null);
+
+  // Consultar rutas para obtener nombres
+  const { data: routes = [] } = useQuery<Route[]>({
+    queryKey: ['/api/schedules'],
+  });
+
+  // Seguir por WebSocket los buses de las rutas activas; el servidor solo publica
+  // la flota completa al personal administrativo
+  const routeTopics = useMemo<WsTopic[]>(() => routes
+    .filter(route => route.isActive)
+    .map(route => ({ scope: 'route', routeId: route.id })), [routes]);
+
+  // Recibir por WebSocket las llegadas estimadas de la parada seleccionada
+  const { sendMessage, isConnected } = useWebSocket({
+    topics: routeTopics,
+    onMessage: (message) => {
+      if (message.type === 'stopArrivals' && message.data) {
+        queryClient.setQueryData(['/api/stops', message.data.stopId, 'arrivals'], message.data);
+      }
+    },
+  });
+
+  // Suscribirse de nuevo al cambiar de parada o al reconectar
+  useEffect(() => {
+    if (!isConnected) return;
+    if (selectedStopId) {
+      sendMessage({ type: 'subscribeArrivals', stopId: selectedStopId });
+    } else {
+      sendMessage({ type: 'unsubscribeArrivals' });
+    }
+  }, [selectedStopId, isConnected]);
+
+  const { data: stopArrivals, isLoading: arrivalsLoading } = useQuery<StopArrivalsResponse>({
+    queryKey: ['/api/stops', selectedStopId, 'arrivals'],
+    enabled: !!selectedStopId,
+    refetchInterval: 60000, // Respaldo por si el WebSocket no está disponible
+  });
 
   // Consultar ubicaciones en tiempo real
   const { data: locations = [], isLoading: locationsLoading } = useQuery<Location[]>({
@@ -21,20 +65,15 @@ export default function PassengerView({ onBackToLogin }: PassengerViewProps) {
     refetchInterval: 5000, // Actualizar cada 5 segundos
   });
 
-  // Consultar asignaciones/turnos
-  const { data: assignments = [], isLoading: assignmentsLoading } = useQuery<Assignment[]>({
-    queryKey: ['/api/assignments'],
+  // Consultar los turnos que operan hoy
+  const { data: assignments = [], isLoading: assignmentsLoading } = useQuery<EffectiveShift[]>({
+    queryKey: ['/api/shifts'],
     refetchInterval: 30000, // Actualizar cada 30 segundos
   });
 
-  // Consultar rutas para obtener nombres
-  const { data: routes = [] } = useQuery<Route[]>({
-    queryKey: ['/api/schedules'],
-  });
-
-  // Consultar usuarios para obtener nombres de choferes y estados
-  const { data: users = [] } = useQuery<User[]>({
-    queryKey: ['/api/users'],
+  // Consultar tarjetas públicas de choferes para obtener nombres y estados
+  const { data: drivers = [] } = useQuery<PublicDriverCard[]>({
+    queryKey: ['/api/drivers/public'],
     refetchInterval: 5000, // Actualizar cada 5 segundos para mostrar cambios de estado
   });
 
@@ -43,6 +82,35 @@ export default function PassengerView({ onBackToLogin }: PassengerViewProps) {
     queryKey: ['/api/buses'],
   });
 
+  // Consultar paradas y su orden dentro de cada ruta
+  const { data: stops = [] } = useQuery<Stop[]>({
+    queryKey: ['/api/stops'],
+  });
+
+  const { data: routeStops = [] } = useQuery<RouteStop[]>({
+    queryKey: ['/api/route-stops'],
+  });
+
+  // Memorizado para no redibujar los marcadores de paradas en cada actualización
+  const activeStops = useMemo(() => stops.filter(stop => stop.isActive), [stops]);
+
+  // Trazado de las rutas activas con el color de cada una
+  const routeShapes = useMemo<RouteShape[]>(() => routes
+    .filter(route => route.isActive && route.shape)
+    .map(route => ({ id: route.id, path: decodePolyline(route.shape!), color: route.color, title: route.routeName })), [routes]);
+
+  // Rutas activas con sus paradas en orden de recorrido
+  const routesWithStops = routes
+    .filter(route => route.isActive)
+    .map(route => ({
+      route,
+      stops: routeStops
+        .filter(rs => rs.routeId === route.id)
+        .map(rs => ({ ...rs, stop: activeStops.find(stop => stop.id === rs.stopId) }))
+        .filter(rs => rs.stop)
+    }))
+    .filter(item => item.stops.length > 0);
+
   // Obtener información de choferes transmitiendo
   const transmittingDrivers = locations.filter(loc => loc.isTransmitting);
 
@@ -58,6 +126,21 @@ export default function PassengerView({ onBackToLogin }: PassengerViewProps) {
     }
   };
 
+  const selectedStop = stops.find(stop => stop.id === selectedStopId);
+
+  // Texto de llegada para pasajeros
+  const formatEta = (minutes: number) => minutes < 1 ? 'llegando' : `llega en ${minutes} min`;
+
+  // Función para centrar el mapa en una parada y mostrar sus llegadas
+  const centerOnStop = (stop: Stop) => {
+    setSelectedStopId(stop.id);
+    setMapCenter({
+      lat: parseFloat(stop.latitude),
+      lng: parseFloat(stop.longitude)
+    });
+    setMapZoom(17);
+  };
+
   // Obtener información de la ruta por ID
   const getRouteInfo = (scheduleId: string) => {
     return routes.find((route) => route.id === scheduleId);
@@ -65,7 +148,7 @@ export default function PassengerView({ onBackToLogin }: PassengerViewProps) {
 
   // Obtener información del chofer por ID
   const getDriverInfo = (driverId: string) => {
-    return users.find((user) => user.id === driverId);
+    return drivers.find((driver) => driver.id === driverId);
   };
 
   // Obtener información del bus por ID
@@ -83,7 +166,7 @@ export default function PassengerView({ onBackToLogin }: PassengerViewProps) {
   };
 
   // Obtener etiqueta y color para el estado del chofer
-  const getDriverStatusDisplay = (driverStatus: string | null | undefined, isTransmitting: boolean) => {
+  const getDriverStatusDisplay = (driverStatus: string | null | undefined, isTransmitting: boolean, signalLost = false) => {
     if (!isTransmitting) {
       return {
         label: "🔴 Inactivo",
@@ -92,6 +175,14 @@ export default function PassengerView({ onBackToLogin }: PassengerViewProps) {
       };
     }
 
+    if (signalLost) {
+      return {
+        label: "📡 Señal perdida",
+        variant: "secondary" as const,
+        className: "bg-gray-500 text-white"
+      };
+    }
+
     const statusLabels: Record<string, { label: string; variant: "default" | "secondary"; className: string }> = {
       "disponible": { label: "🟢 Disponible", variant: "default", className: "bg-green-600" },
       "en_ruta_cargar": { label: "🟡 En ruta a cargar", variant: "default", className: "bg-yellow-600" },
@@ -159,6 +250,8 @@ export default function PassengerView({ onBackToLogin }: PassengerViewProps) {
                     center={mapCenter}
                     zoom={mapZoom}
                     className="w-full h-96 rounded-lg"
+                    stops={activeStops}
+                    routeShapes={routeShapes}
                   />
                 )}
               </CardContent>
@@ -185,7 +278,7 @@ export default function PassengerView({ onBackToLogin }: PassengerViewProps) {
                 ) : assignments.length === 0 ? (
                   <div className="text-center py-4">
                     <Clock className="h-12 w-12 text-gray-300 mx-auto mb-2" />
-                    <p className="text-gray-500">No hay turnos programados</p>
+                    <p className="text-gray-500">No hay turnos programados para hoy</p>
                   </div>
                 ) : (
                   <div className="space-y-3 max-h-96 overflow-y-auto">
@@ -206,7 +299,7 @@ export default function PassengerView({ onBackToLogin }: PassengerViewProps) {
                                   {route?.routeName || 'Ruta sin nombre'}
                                 </p>
                                 <p className="text-sm text-gray-600">
-                                  {formatTime(assignment.shiftStart)} - {formatTime(assignment.shiftEnd)}
+                                  {formatTime(assignment.shiftStart)} - {formatTime(assignment.shiftEnd)}{crossesMidnight(assignment) && " (+1 día)"}
                                 </p>
                                 <div className="mt-1 space-y-1">
                                   <p className="text-xs text-gray-500 flex items-center">
@@ -217,11 +310,17 @@ export default function PassengerView({ onBackToLogin }: PassengerViewProps) {
                                     <span className="mr-1">🚌</span>
                                     Bus: {bus?.model || 'No especificado'} ({bus?.busNumber || 'N/A'})
                                   </p>
+                                  {isTransmitting && driverLocation?.signalLostAt && (
+                                    <p className="text-xs text-gray-500 flex items-center" data-testid={`text-last-seen-${index}`}>
+                                      <span className="mr-1">📡</span>
+                                      Última señal {formatLastSeen(driverLocation.timestamp)}
+                                    </p>
+                                  )}
                                 </div>
                               </div>
                               <div className="flex items-center space-x-2">
                                 {(() => {
-                                  const statusDisplay = getDriverStatusDisplay(driver?.driverStatus, isTransmitting);
+                                  const statusDisplay = getDriverStatusDisplay(driver?.driverStatus, isTransmitting, !!driverLocation?.signalLostAt);
                                   return (
                                     <Badge 
                                       variant={statusDisplay.variant}
@@ -252,6 +351,94 @@ export default function PassengerView({ onBackToLogin }: PassengerViewProps) {
               </CardContent>
             </Card>
 
+            {/* Próximas llegadas a la parada seleccionada */}
+            {selectedStop && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Timer className="h-5 w-5" />
+                    <span>Próximas Llegadas</span>
+                  </CardTitle>
+                  <p className="text-sm text-gray-600">🚏 {selectedStop.name} ({selectedStop.code})</p>
+                </CardHeader>
+                <CardContent>
+                  {arrivalsLoading ? (
+                    <p className="text-sm text-gray-500">Calculando llegadas...</p>
+                  ) : !stopArrivals || stopArrivals.arrivals.length === 0 ? (
+                    <p className="text-sm text-gray-500">No hay buses en camino a esta parada</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {stopArrivals.arrivals.map((arrival) => {
+                        const bus = arrival.busId ? getBusInfo(arrival.busId) : undefined;
+                        return (
+                          <div
+                            key={arrival.driverId}
+                            className="flex items-center justify-between p-2 border rounded-lg"
+                            data-testid={`arrival-${arrival.driverId}`}
+                          >
+                            <div className="flex items-center space-x-2 min-w-0">
+                              <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: arrival.routeColor }} />
+                              <div className="min-w-0">
+                                <p className="text-sm font-medium truncate">{arrival.routeName}</p>
+                                <p className="text-xs text-gray-500">🚌 Unidad {bus?.busNumber || 'N/A'}</p>
+                              </div>
+                            </div>
+                            <Badge
+                              variant="default"
+                              className="bg-blue-600"
+                              title={arrival.source === 'historico' ? 'Estimado con tiempos reales de viajes anteriores' : 'Estimado con tiempos planificados'}
+                            >
+                              {formatEta(arrival.etaMinutes)}
+                            </Badge>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Paradas por ruta */}
+            {routesWithStops.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Signpost className="h-5 w-5" />
+                    <span>Paradas</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4 max-h-96 overflow-y-auto">
+                    {routesWithStops.map(({ route, stops: routeStopList }) => (
+                      <div key={route.id}>
+                        <p className="font-medium mb-2">
+                          Ruta {route.routeNumber} - {route.routeName}
+                        </p>
+                        <ol className="space-y-1 border-l-2 border-blue-200 ml-2">
+                          {routeStopList.map(({ id, stop, travelOffsetMinutes }) => (
+                            <li key={id}>
+                              <button
+                                className={`w-full text-left pl-3 py-1 text-sm hover:bg-gray-50 flex items-center justify-between ${stop!.id === selectedStopId ? 'bg-blue-50' : ''}`}
+                                onClick={() => centerOnStop(stop!)}
+                                data-testid={`button-stop-${id}`}
+                              >
+                                <span>
+                                  🚏 {stop!.name}
+                                  {stop!.wheelchairAccessible && <span className="ml-1" title="Accesible en silla de ruedas">♿</span>}
+                                </span>
+                                <span className="text-xs text-gray-500">+{travelOffsetMinutes} min</span>
+                              </button>
+                            </li>
+                          ))}
+                        </ol>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Información General */}
             <Card>
               <CardHeader>
@@ -0,0 +1,121 @@
+import { storage } from "./storage";
+import { findHoursOfServiceConflicts } from "./hours-of-service";
+import { dateInTimeZone, findOverlapDate, formatShiftWindow } from "@shared/shifts";
+import type { Assignment, AssignmentConflict, Bus, InsertAssignment, Route } from "@shared/schema";
+
+// Estados de bus que impiden ponerlo en servicio
+const UNAVAILABLE_BUS_STATUSES: Record<string, string> = {
+  mantenimiento: "en mantenimiento",
+  fuera_de_servicio: "fuera de servicio",
+};
+
+// Descripción de un turno existente para los mensajes de conflicto
+export function describeShift(assignment: Assignment, routes: Map<string, Route>, buses: Map<string, Bus>): string {
+  const route = routes.get(assignment.scheduleId);
+  const bus = buses.get(assignment.busId);
+  const routeLabel = route ? `Ruta ${route.routeNumber} - ${route.routeName}` : "ruta desconocida";
+  const busLabel = bus ? `Unidad #${bus.busNumber}` : "bus desconocido";
+  return `${formatShiftWindow(assignment)} en ${routeLabel} (${busLabel})`;
+}
+
+// Conflictos por el estado de la ruta y del bus, independientes del horario
+export function findStatusConflicts(route: Route, bus: Bus): AssignmentConflict[] {
+  const conflicts: AssignmentConflict[] = [];
+
+  if (!route.isActive) {
+    conflicts.push({
+      type: "route_inactive",
+      message: `La ruta ${route.routeNumber} - ${route.routeName} está inactiva`,
+      overridable: true,
+    });
+  }
+
+  const unavailableStatus = UNAVAILABLE_BUS_STATUSES[bus.status];
+  if (unavailableStatus || !bus.isActive) {
+    conflicts.push({
+      type: "bus_unavailable",
+      message: `La unidad #${bus.busNumber} (${bus.plateNumber}) está ${unavailableStatus || "desactivada"}`,
+      overridable: true,
+    });
+  }
+
+  return conflicts;
+}
+
+// Los traslapes siempre bloquean; el resto solo con confirmación explícita
+export const hasBlockingConflicts = (conflicts: AssignmentConflict[], override?: boolean): boolean =>
+  conflicts.some(c => !c.overridable || !override);
+
+export interface ConflictCheckOptions {
+  ignoreAssignmentId?: string; // La propia asignación cuando se está modificando
+  skipOccurrences?: { assignmentId: string; date: string }[]; // Ocurrencias que se cancelan junto con el cambio
+  fromDate?: string; // Primera fecha a revisar (YYYY-MM-DD); por defecto hoy
+}
+
+// Detectar los conflictos de una asignación contra los turnos activos, el estado del bus y la ruta,
+// además de las advertencias por límites de jornada del chofer.
+export async function findAssignmentConflicts(
+  data: InsertAssignment,
+  route: Route,
+  bus: Bus,
+  options: ConflictCheckOptions = {},
+): Promise<AssignmentConflict[]> {
+  const { ignoreAssignmentId, skipOccurrences = [], fromDate = dateInTimeZone() } = options;
+  const conflicts = findStatusConflicts(route, bus);
+
+  // Una asignación inactiva no ocupa al chofer ni al bus
+  if (data.isActive === false) {
+    return conflicts;
+  }
+
+  const [driverShifts, busShifts, allRoutes, allBuses, serviceCalendar] = await Promise.all([
+    storage.getActiveAssignmentsByDriverId(data.driverId),
+    storage.getActiveAssignmentsByBusId(data.busId),
+    storage.getAllSchedules(),
+    storage.getAllBuses(),
+    storage.getServiceCalendar(),
+  ]);
+  const routes = new Map(allRoutes.map(r => [r.id, r]));
+  const buses = new Map(allBuses.map(b => [b.id, b]));
+
+  // Las ocurrencias que se cancelan se tratan como excepciones
+  const calendar = { ...serviceCalendar, exceptions: new Map(serviceCalendar.exceptions) };
+  for (const { assignmentId, date } of skipOccurrences) {
+    calendar.exceptions.set(assignmentId, new Set(calendar.exceptions.get(assignmentId)).add(date));
+  }
+
+  // La asignación nueva aún no tiene excepciones; solo importan las fechas desde `fromDate`
+  const rule = {
+    ...data,
+    id: "",
+    isRecurring: data.isRecurring ?? true,
+    daysOfWeek: data.daysOfWeek ?? null,
+    validUntil: data.validUntil ?? null,
+    skipHolidays: data.skipHolidays ?? false,
+  };
+  for (const assignment of driverShifts.filter(a => a.id !== ignoreAssignmentId)) {
+    const date = findOverlapDate(rule, assignment, calendar, fromDate);
+    if (!date) continue;
+    conflicts.push({
+      type: "driver_overlap",
+      message: `El chofer ya tiene el turno ${describeShift(assignment, routes, buses)} (choca el ${date})`,
+      assignmentId: assignment.id,
+      overridable: false,
+    });
+  }
+
+  // Los turnos del mismo chofer ya se reportaron arriba
+  for (const assignment of busShifts.filter(a => a.driverId !== data.driverId && a.id !== ignoreAssignmentId)) {
+    const date = findOverlapDate(rule, assignment, calendar, fromDate);
+    if (!date) continue;
+    conflicts.push({
+      type: "bus_overlap",
+      message: `La unidad #${bus.busNumber} ya está asignada al turno ${describeShift(assignment, routes, buses)} (choca el ${date})`,
+      assignmentId: assignment.id,
+      overridable: false,
+    });
+  }
+
+  conflicts.push(...await findHoursOfServiceConflicts(data, { ignoreAssignmentId, skipOccurrences, fromDate }));
+  return conflicts;
+}
@@ -0,0 +1,68 @@
+import { storage } from "./storage";
+import { minutesSinceShiftStart, shiftDurationMinutes } from "@shared/shifts";
+import type { AttendanceRecord, AttendanceReportQuery, AttendanceReportResponse, AttendanceReportRow, AttendanceStatus } from "@shared/schema";
+
+// Minutos antes del inicio del turno desde los que se puede marcar entrada
+export const CHECK_IN_EARLY_MINUTES = 60;
+// Tolerancia de llegada: hasta estos minutos de atraso la entrada cuenta como a tiempo
+export const LATE_GRACE_MINUTES = 5;
+// Sin marca de entrada pasado este tiempo desde el inicio, el chofer se considera ausente
+export const NO_SHOW_AFTER_MINUTES = 30;
+
+// Estado de asistencia de un turno según su marca de entrada (o la falta de ella)
+export function getAttendanceStatus(
+  shift: { shiftDate: string; shiftStart: string },
+  record: AttendanceRecord | null,
+  at: Date = new Date(),
+): AttendanceStatus {
+  if (record) return record.lateMinutes > LATE_GRACE_MINUTES ? "tarde" : "a_tiempo";
+  return minutesSinceShiftStart(shift, at) > NO_SHOW_AFTER_MINUTES ? "ausente" : "pendiente";
+}
+
+// Ventana en la que se acepta la entrada: desde un rato antes del inicio hasta el fin del turno
+export function isWithinCheckInWindow(shift: { shiftDate: string; shiftStart: string; shiftEnd: string }, at: Date = new Date()): boolean {
+  const elapsed = minutesSinceShiftStart(shift, at);
+  return elapsed >= -CHECK_IN_EARLY_MINUTES && elapsed < shiftDurationMinutes(shift);
+}
+
+// Turnos programados del rango con su marca de asistencia. Las marcas de turnos que ya no
+// están programados (asignación eliminada o movida) se incluyen igualmente.
+export async function getAttendanceReport({ from, to, driverId }: AttendanceReportQuery): Promise<AttendanceReportResponse> {
+  const [shifts, records] = await Promise.all([
+    storage.getEffectiveShiftsBetween(from, to, driverId),
+    storage.getAttendanceRecords(from, to, driverId),
+  ]);
+  const now = new Date();
+  const matched = new Set<string>();
+
+  const rows: AttendanceReportRow[] = shifts.map(shift => {
+    const record = records.find(r => r.assignmentId === shift.id && r.shiftDate === shift.shiftDate) || null;
+    if (record) matched.add(record.id);
+    return {
+      driverId: shift.driverId,
+      assignmentId: shift.id,
+      scheduleId: shift.scheduleId,
+      shiftDate: shift.shiftDate,
+      shiftStart: shift.shiftStart,
+      shiftEnd: shift.shiftEnd,
+      status: getAttendanceStatus(shift, record, now),
+      record,
+    };
+  });
+
+  for (const record of records.filter(r => !matched.has(r.id))) {
+    rows.push({
+      driverId: record.driverId,
+      assignmentId: record.assignmentId,
+      scheduleId: null,
+      shiftDate: record.shiftDate,
+      shiftStart: record.shiftStart,
+      shiftEnd: record.shiftEnd,
+      status: getAttendanceStatus(record, record, now),
+      record,
+    });
+  }
+
+  rows.sort((a, b) => a.shiftDate.localeCompare(b.shiftDate) || a.shiftStart.localeCompare(b.shiftStart));
+  return { from, to, rows };
+}
@@ -0,0 +1,127 @@
+import type { Request, Response, NextFunction } from "express";
+import type { IncomingMessage } from "http";
+import { createHash, randomBytes } from "crypto";
+import { storage } from "./storage";
+import type { AuthSessionResponse, Session, User, UserRole } from "@shared/schema";
+
+// Duración de una sesión emitida al iniciar sesión
+export const SESSION_TTL_MS = 12 * 60 * 60 * 1000; // 12 horas
+
+declare global {
+  namespace Express {
+    interface Request {
+      authUser?: User;
+      authSession?: Session;
+    }
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Crear una sesión nueva y devolver el token en claro (solo se guarda su hash)
+export async function issueSession(user: User): Promise<AuthSessionResponse> {
+  const token = randomBytes(32).toString("hex");
+  const session = await storage.createSession({
+    userId: user.id,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+  });
+
+  return {
+    user: {
+      id: user.id,
+      username: user.username,
+      role: user.role,
+      fullName: user.fullName,
+      licenseNumber: user.licenseNumber,
+      driverStatus: user.driverStatus,
+    },
+    token,
+    expiresAt: session.expiresAt.toISOString(),
+  };
+}
+
+// Validar un token: debe existir, no estar revocado ni vencido y pertenecer a un usuario existente
+export async function resolveSession(token: string | undefined): Promise<{ session: Session; user: User } | null> {
+  if (!token) return null;
+
+  const session = await storage.getSessionByTokenHash(hashToken(token));
+  if (!session || session.revokedAt || session.expiresAt.getTime() <= Date.now()) {
+    return null;
+  }
+
+  const user = await storage.getUser(session.userId);
+  if (!user) return null;
+
+  return { session, user };
+}
+
+// El token viaja en el header Authorization; sendBeacon y WebSocket no permiten
+// headers personalizados, por lo que también se acepta como parámetro ?token=
+export function getRequestToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (header?.startsWith("Bearer ")) {
+    return header.slice("Bearer ".length).trim();
+  }
+  return typeof req.query.token === "string" ? req.query.token : undefined;
+}
+
+export function getHandshakeToken(req: IncomingMessage): string | undefined {
+  const url = new URL(req.url || "", "http://localhost");
+  return url.searchParams.get("token") || undefined;
+}
+
+// Adjunta el usuario autenticado a la petición si el token es válido (no rechaza)
+export async function attachSession(req: Request, _res: Response, next: NextFunction) {
+  try {
+    const resolved = await resolveSession(getRequestToken(req));
+    if (resolved) {
+      req.authUser = resolved.user;
+      req.authSession = resolved.session;
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Rechaza la petición si no hay una sesión válida
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.authUser || !req.authSession) {
+    return res.status(401).json({ message: "Sesión inválida o expirada" });
+  }
+  next();
+}
+
+// Permite el acceso solo a los roles indicados
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.authUser) {
+      return res.status(401).json({ message: "Sesión inválida o expirada" });
+    }
+    if (!roles.includes(req.authUser.role as UserRole)) {
+      return res.status(403).json({ message: "No tiene permisos para realizar esta acción" });
+    }
+    next();
+  };
+}
+
+// Un chofer solo puede actuar sobre sus propios datos; los roles indicados
+// en `bypassRoles` pueden hacerlo sobre cualquier chofer
+export function requireOwnDriver(getDriverId: (req: Request) => unknown, ...bypassRoles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user = req.authUser;
+    if (!user) {
+      return res.status(401).json({ message: "Sesión inválida o expirada" });
+    }
+    if (bypassRoles.includes(user.role as UserRole)) {
+      return next();
+    }
+    if (user.role !== "driver" || getDriverId(req) !== user.id) {
+      return res.status(403).json({ message: "No tiene permisos para realizar esta acción" });
+    }
+    next();
+  };
+}
@@ -0,0 +1,201 @@
+import { storage } from "./storage";
+import { distanceMeters, type LatLng } from "@shared/geo";
+import { dateInTimeZone } from "@shared/shifts";
+import type { LocationHistoryPoint, RouteStopWithStop, StopArrival, StopArrivalsResponse } from "@shared/schema";
+
+// Cada cuánto se envían por WebSocket las llegadas a las paradas suscritas
+export const ARRIVALS_PUSH_INTERVAL_MS = 15 * 1000;
+
+// Distancia a la que se considera que el bus pasó por una parada
+const STOP_RADIUS_M = 60;
+// Historial usado para aprender los tiempos reales entre paradas
+const HISTORY_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+const HISTORY_CACHE_MS = 15 * 60 * 1000;
+// Descartar tramos históricos absurdos (GPS apagado, bus detenido en terminal, etc.)
+const MAX_SEGMENT_SECONDS = 60 * 60;
+// Ubicaciones más antiguas que esto no se usan para estimar
+const MAX_LOCATION_AGE_MS = 5 * 60 * 1000;
+// Velocidad usada cuando no hay datos planificados ni históricos (20 km/h)
+const FALLBACK_SPEED_MPS = 20 / 3.6;
+
+interface SegmentTimes {
+  computedAt: number;
+  stopIds: string; // Secuencia de paradas con la que se calcularon los tramos
+  seconds: (number | null)[]; // Mediana histórica del tramo i -> i+1
+}
+
+const segmentCache = new Map<string, SegmentTimes>();
+
+const stopPoint = (routeStop: RouteStopWithStop): LatLng => ({
+  lat: parseFloat(routeStop.stop.latitude),
+  lng: parseFloat(routeStop.stop.longitude),
+});
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Separar el historial en viajes: un viaje por turno y por día de operación (hora local
+// de la agencia, no UTC, para no partir los viajes de la tarde)
+function groupTrips(points: LocationHistoryPoint[]): LocationHistoryPoint[][] {
+  const trips = new Map<string, LocationHistoryPoint[]>();
+  for (const point of points) {
+    const key = `${point.assignmentId}|${dateInTimeZone(point.recordedAt)}`;
+    const trip = trips.get(key);
+    if (trip) {
+      trip.push(point);
+    } else {
+      trips.set(key, [point]);
+    }
+  }
+  return Array.from(trips.values());
+}
+
+// Medir cuánto tardó el bus entre paradas consecutivas en viajes anteriores
+function learnSegmentTimes(points: LocationHistoryPoint[], routeStops: RouteStopWithStop[]): (number | null)[] {
+  const samples: number[][] = routeStops.slice(1).map(() => []);
+  const stopPoints = routeStops.map(stopPoint);
+
+  for (const trip of groupTrips(points)) {
+    let nextIndex = 0;
+    let lastPass: { index: number; time: number } | null = null;
+
+    for (const point of trip) {
+      const position = { lat: parseFloat(point.latitude), lng: parseFloat(point.longitude) };
+
+      // Se acepta la parada esperada o la siguiente (por si faltó un punto GPS cerca de una parada)
+      const candidates = [nextIndex, nextIndex + 1].filter(i => i < stopPoints.length);
+      const reached = candidates.find(i => distanceMeters(position, stopPoints[i]) <= STOP_RADIUS_M);
+      if (reached === undefined) continue;
+
+      const time = point.recordedAt.getTime();
+      if (lastPass && reached === lastPass.index + 1) {
+        const seconds = (time - lastPass.time) / 1000;
+        if (seconds > 0 && seconds <= MAX_SEGMENT_SECONDS) {
+          samples[lastPass.index].push(seconds);
+        }
+      }
+      lastPass = { index: reached, time };
+
+      // Al llegar a la última parada comienza una nueva vuelta
+      nextIndex = reached + 1 >= stopPoints.length ? 0 : reached + 1;
+      if (nextIndex === 0) lastPass = null;
+    }
+  }
+
+  return samples.map(median);
+}
+
+async function getSegmentTimes(routeId: string, routeStops: RouteStopWithStop[]): Promise<(number | null)[]> {
+  const stopIds = routeStops.map(rs => rs.stopId).join(",");
+  const cached = segmentCache.get(routeId);
+  if (cached && cached.stopIds === stopIds && Date.now() - cached.computedAt < HISTORY_CACHE_MS) {
+    return cached.seconds;
+  }
+
+  const history = await storage.getRouteLocationHistory(routeId, new Date(Date.now() - HISTORY_LOOKBACK_MS));
+  const seconds = learnSegmentTimes(history, routeStops);
+  segmentCache.set(routeId, { computedAt: Date.now(), stopIds, seconds });
+  return seconds;
+}
+
+// Ubicar al bus en la secuencia: próxima parada por visitar y fracción del tramo que le falta
+function locateOnRoute(position: LatLng, stopPoints: LatLng[]): { nextIndex: number; remaining: number } {
+  let nearest = 0;
+  stopPoints.forEach((point, i) => {
+    if (distanceMeters(position, point) < distanceMeters(position, stopPoints[nearest])) {
+      nearest = i;
+    }
+  });
+
+  if (distanceMeters(position, stopPoints[nearest]) <= STOP_RADIUS_M) {
+    return { nextIndex: nearest, remaining: 0 };
+  }
+
+  // Si el bus está más cerca de la siguiente parada que la parada más cercana, ya la pasó
+  const next = stopPoints[nearest + 1];
+  const nextIndex = next && distanceMeters(position, next) < distanceMeters(stopPoints[nearest], next)
+    ? nearest + 1
+    : nearest;
+
+  if (nextIndex === 0) {
+    return { nextIndex, remaining: 1 };
+  }
+
+  const segmentLength = distanceMeters(stopPoints[nextIndex - 1], stopPoints[nextIndex]);
+  const remaining = segmentLength > 0 ? distanceMeters(position, stopPoints[nextIndex]) / segmentLength : 0;
+  return { nextIndex, remaining: Math.min(1, remaining) };
+}
+
+// Calcular las llegadas estimadas de los buses en servicio a una parada
+export async function computeStopArrivals(stopId: string): Promise<StopArrivalsResponse> {
+  const now = Date.now();
+  const allRouteStops = await storage.getAllRouteStops();
+  const servingRouteIds = new Set(allRouteStops.filter(rs => rs.stopId === stopId).map(rs => rs.routeId));
+  const arrivals: StopArrival[] = [];
+
+  if (servingRouteIds.size > 0) {
+    const locations = await storage.getAllActiveLocations();
+    const routeCache = new Map<string, RouteStopWithStop[]>();
+
+    for (const location of locations) {
+      if (!location.isTransmitting || !location.timestamp || now - location.timestamp.getTime() > MAX_LOCATION_AGE_MS) {
+        continue;
+      }
+
+      const { current } = await storage.getCurrentAndNextShifts(location.driverId);
+      if (!current || !servingRouteIds.has(current.scheduleId)) continue;
+
+      const route = await storage.getSchedule(current.scheduleId);
+      if (!route) continue;
+
+      if (!routeCache.has(route.id)) {
+        routeCache.set(route.id, await storage.getRouteStops(route.id));
+      }
+      const routeStops = routeCache.get(route.id)!;
+      const targetIndex = routeStops.findIndex(rs => rs.stopId === stopId);
+      const stopPoints = routeStops.map(stopPoint);
+      const position = { lat: parseFloat(location.latitude), lng: parseFloat(location.longitude) };
+      const { nextIndex, remaining } = locateOnRoute(position, stopPoints);
+
+      // El bus ya pasó por la parada en esta vuelta
+      if (targetIndex < nextIndex) continue;
+
+      const historical = await getSegmentTimes(route.id, routeStops);
+      let usedPlanned = false;
+
+      // Duración del tramo i-1 -> i: histórica, planificada o por distancia
+      const segmentSeconds = (i: number) => {
+        const learned = historical[i - 1];
+        if (learned != null) return learned;
+        usedPlanned = true;
+        const planned = (routeStops[i].travelOffsetMinutes - routeStops[i - 1].travelOffsetMinutes) * 60;
+        return planned > 0 ? planned : distanceMeters(stopPoints[i - 1], stopPoints[i]) / FALLBACK_SPEED_MPS;
+      };
+
+      let seconds = nextIndex === 0
+        ? distanceMeters(position, stopPoints[0]) / FALLBACK_SPEED_MPS
+        : segmentSeconds(nextIndex) * remaining;
+      for (let i = nextIndex + 1; i <= targetIndex; i++) {
+        seconds += segmentSeconds(i);
+      }
+
+      arrivals.push({
+        driverId: location.driverId,
+        busId: current.busId,
+        routeId: route.id,
+        routeName: route.routeName,
+        routeColor: route.color,
+        etaMinutes: Math.round(seconds / 60),
+        expectedAt: new Date(now + seconds * 1000).toISOString(),
+        source: usedPlanned ? "planificado" : "historico",
+      });
+    }
+  }
+
+  arrivals.sort((a, b) => a.etaMinutes - b.etaMinutes);
+  return { stopId, generatedAt: new Date(now).toISOString(), arrivals };
+}
@@ -0,0 +1,48 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+
+// Almacenamiento de archivos subidos (fotos de reportes). Las rutas solo conocen esta
+// interfaz, de modo que el disco local se puede reemplazar por un servicio externo.
+export interface IFileStorage {
+  save(data: Buffer, extension: string): Promise<string>; // Devuelve la clave del archivo
+  read(key: string): Promise<Buffer | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+export class LocalDiskFileStorage implements IFileStorage {
+  constructor(private readonly root: string) {}
+
+  // Las claves las genera el servidor; aun así se rechaza cualquier ruta fuera del directorio
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error("Clave de archivo inválida");
+    }
+    return filePath;
+  }
+
+  async save(data: Buffer, extension: string): Promise<string> {
+    const key = `${randomUUID()}.${extension}`;
+    await fs.mkdir(this.root, { recursive: true });
+    await fs.writeFile(this.resolve(key), data);
+    return key;
+  }
+
+  async read(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+export const fileStorage: IFileStorage = new LocalDiskFileStorage(
+  process.env.UPLOADS_DIR || path.resolve(process.cwd(), "uploads"),
+);
@@ -0,0 +1,14 @@
+// Reducir una serie de puntos a como máximo `maxPoints`, tomando muestras a
+// intervalos regulares y conservando siempre el primer y el último punto
+export function downsampleTrack<T>(points: T[], maxPoints: number): T[] {
+  if (points.length <= maxPoints || maxPoints < 2) {
+    return points;
+  }
+
+  const step = (points.length - 1) / (maxPoints - 1);
+  const sampled: T[] = [];
+  for (let i = 0; i < maxPoints; i++) {
+    sampled.push(points[Math.round(i * step)]);
+  }
+  return sampled;
+}
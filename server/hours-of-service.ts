@@ -0,0 +1,215 @@
+import { storage } from "./storage";
+import { addDays, dateInTimeZone, daysBetween, isScheduledOn, shiftDurationMinutes, startOfWeek, timeToMinutes } from "@shared/shifts";
+import type {
+  AssignmentConflict,
+  ComplianceLimits,
+  ComplianceReportQuery,
+  ComplianceReportResponse,
+  ComplianceViolation,
+  DriverComplianceReport,
+  InsertAssignment,
+} from "@shared/schema";
+import type { ConflictCheckOptions } from "./assignment-conflicts";
+
+const MINUTES_PER_DAY = 24 * 60;
+// Dos posiciones separadas por más de este tiempo no cuentan como tiempo trabajado
+const MAX_TRACKING_GAP_MS = 5 * 60 * 1000;
+// Días de una asignación recurrente que se revisan contra los límites de jornada
+const HOURS_CHECK_DAYS = 28;
+
+// Turno programado con su intervalo en minutos absolutos desde una fecha base
+interface ScheduledBlock {
+  date: string;
+  start: number;
+  end: number;
+}
+
+const toBlock = (base: string, shift: { shiftDate: string; shiftStart: string; shiftEnd: string }): ScheduledBlock => {
+  const start = daysBetween(base, shift.shiftDate) * MINUTES_PER_DAY + timeToMinutes(shift.shiftStart);
+  return { date: shift.shiftDate, start, end: start + shiftDurationMinutes(shift) };
+};
+
+const formatHours = (minutes: number) => `${Math.round((minutes / 60) * 10) / 10} h`;
+
+const sumBy = <T>(items: T[], key: (item: T) => string, value: (item: T) => number): Map<string, number> => {
+  const totals = new Map<string, number>();
+  for (const item of items) totals.set(key(item), (totals.get(key(item)) || 0) + value(item));
+  return totals;
+};
+
+// Incumplimientos de los turnos programados: las horas se cuentan en el día en que inicia cada turno
+function findScheduleViolations(blocks: ScheduledBlock[], limits: ComplianceLimits): ComplianceViolation[] {
+  const violations: ComplianceViolation[] = [];
+  const duration = (block: ScheduledBlock) => block.end - block.start;
+
+  sumBy(blocks, b => b.date, duration).forEach((minutes, date) => {
+    if (minutes > limits.maxDailyHours * 60) {
+      violations.push({
+        type: "daily_hours",
+        source: "programado",
+        date,
+        message: `${formatHours(minutes)} programadas el ${date} (máximo ${limits.maxDailyHours} h)`,
+      });
+    }
+  });
+
+  sumBy(blocks, b => startOfWeek(b.date), duration).forEach((minutes, weekStart) => {
+    if (minutes > limits.maxWeeklyHours * 60) {
+      violations.push({
+        type: "weekly_hours",
+        source: "programado",
+        date: weekStart,
+        message: `${formatHours(minutes)} programadas en la semana del ${weekStart} (máximo ${limits.maxWeeklyHours} h)`,
+      });
+    }
+  });
+
+  // Los traslapes ya se reportan como conflictos; aquí solo importan los descansos cortos
+  const sorted = [...blocks].sort((a, b) => a.start - b.start);
+  for (let i = 1; i < sorted.length; i++) {
+    const rest = sorted[i].start - sorted[i - 1].end;
+    if (rest >= 0 && rest < limits.minRestHours * 60) {
+      violations.push({
+        type: "rest",
+        source: "programado",
+        date: sorted[i].date,
+        message: `Solo ${formatHours(rest)} de descanso antes del turno del ${sorted[i].date} (mínimo ${limits.minRestHours} h)`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+// Minutos transmitiendo por día: se suman los intervalos entre posiciones consecutivas cercanas
+function trackedMinutesByDay(timestamps: Date[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (let i = 1; i < timestamps.length; i++) {
+    const gap = timestamps[i].getTime() - timestamps[i - 1].getTime();
+    if (gap > MAX_TRACKING_GAP_MS) continue;
+    const date = dateInTimeZone(timestamps[i]);
+    totals.set(date, (totals.get(date) || 0) + gap / 60000);
+  }
+  return totals;
+}
+
+const conflictTypes: Record<ComplianceViolation["type"], AssignmentConflict["type"]> = {
+  daily_hours: "daily_hours_exceeded",
+  weekly_hours: "weekly_hours_exceeded",
+  rest: "insufficient_rest",
+};
+
+// Advertencias de jornada que provocaría una asignación nueva: solo se informan los
+// incumplimientos que no existían antes, uno por tipo para no saturar el formulario.
+export async function findHoursOfServiceConflicts(data: InsertAssignment, options: ConflictCheckOptions = {}): Promise<AssignmentConflict[]> {
+  const { ignoreAssignmentId, skipOccurrences = [], fromDate = dateInTimeZone() } = options;
+  const first = data.assignedDate > fromDate ? data.assignedDate : fromDate;
+  const last = data.isRecurring === false ? first : addDays(first, HOURS_CHECK_DAYS - 1);
+  // Se incluye la semana completa y el día anterior para los totales semanales y el descanso
+  const base = addDays(startOfWeek(first), -1);
+
+  const [limits, calendar, existing] = await Promise.all([
+    storage.getComplianceLimits(),
+    storage.getServiceCalendar(),
+    storage.getEffectiveShiftsBetween(base, addDays(startOfWeek(last), 7), data.driverId),
+  ]);
+
+  const rule = {
+    ...data,
+    id: "",
+    isRecurring: data.isRecurring ?? true,
+    daysOfWeek: data.daysOfWeek ?? null,
+    validUntil: data.validUntil ?? null,
+    skipHolidays: data.skipHolidays ?? false,
+  };
+  const added: ScheduledBlock[] = [];
+  for (let date = first; date <= last; date = addDays(date, 1)) {
+    if (isScheduledOn(rule, date, calendar)) added.push(toBlock(base, { ...data, shiftDate: date }));
+  }
+  if (added.length === 0) return [];
+
+  const current = existing
+    .filter(s => s.id !== ignoreAssignmentId)
+    .filter(s => !skipOccurrences.some(skip => skip.assignmentId === s.id && skip.date === s.shiftDate))
+    .map(s => toBlock(base, s));
+  const key = (v: ComplianceViolation) => `${v.type}|${v.date}`;
+  const before = new Set(findScheduleViolations(current, limits).map(key));
+
+  const conflicts: AssignmentConflict[] = [];
+  for (const violation of findScheduleViolations([...current, ...added], limits)) {
+    const type = conflictTypes[violation.type];
+    if (before.has(key(violation)) || conflicts.some(c => c.type === type)) continue;
+    conflicts.push({ type, message: violation.message, overridable: true });
+  }
+  return conflicts;
+}
+
+// Horas programadas y trabajadas de cada chofer, por día y por semana, con sus incumplimientos
+export async function getComplianceReport({ from, to, driverId }: ComplianceReportQuery): Promise<ComplianceReportResponse> {
+  const firstWeek = startOfWeek(from);
+  const lastDay = addDays(startOfWeek(to), 6);
+  const base = addDays(firstWeek, -1);
+
+  // Las posiciones se piden con un día de margen porque el rango está en la zona horaria de la operación
+  const [limits, allDrivers, shifts, tracked] = await Promise.all([
+    storage.getComplianceLimits(),
+    storage.getAllDrivers(),
+    storage.getEffectiveShiftsBetween(base, lastDay, driverId),
+    storage.getTrackedTimestamps(new Date(`${base}T00:00:00Z`), new Date(`${addDays(lastDay, 2)}T00:00:00Z`), driverId),
+  ]);
+  const drivers = driverId ? allDrivers.filter(d => d.id === driverId) : allDrivers;
+  const days = Array.from({ length: daysBetween(from, to) + 1 }, (_, i) => addDays(from, i));
+  const weeks = Array.from({ length: Math.floor(daysBetween(firstWeek, lastDay) / 7) + 1 }, (_, i) => addDays(firstWeek, i * 7));
+
+  const reports: DriverComplianceReport[] = drivers.map(driver => {
+    const blocks = shifts.filter(s => s.driverId === driver.id).map(s => toBlock(base, s));
+    const scheduled = sumBy(blocks, b => b.date, b => b.end - b.start);
+    const worked = trackedMinutesByDay(tracked.filter(t => t.driverId === driver.id).map(t => t.recordedAt));
+    const sumWeek = (totals: Map<string, number>, weekStart: string) =>
+      Array.from({ length: 7 }, (_, i) => totals.get(addDays(weekStart, i)) || 0).reduce((a, b) => a + b, 0);
+
+    const violations = findScheduleViolations(blocks, limits);
+    worked.forEach((minutes, date) => {
+      if (minutes > limits.maxDailyHours * 60) {
+        violations.push({
+          type: "daily_hours",
+          source: "real",
+          date,
+          message: `${formatHours(minutes)} transmitiendo el ${date} (máximo ${limits.maxDailyHours} h)`,
+        });
+      }
+    });
+    for (const weekStart of weeks) {
+      const minutes = sumWeek(worked, weekStart);
+      if (minutes > limits.maxWeeklyHours * 60) {
+        violations.push({
+          type: "weekly_hours",
+          source: "real",
+          date: weekStart,
+          message: `${formatHours(minutes)} transmitiendo en la semana del ${weekStart} (máximo ${limits.maxWeeklyHours} h)`,
+        });
+      }
+    }
+
+    // Los semanales se identifican por su lunes, que puede quedar antes de `from`
+    const inRange = (v: ComplianceViolation) =>
+      v.type === "weekly_hours" ? v.date >= firstWeek && v.date <= to : v.date >= from && v.date <= to;
+
+    return {
+      driverId: driver.id,
+      days: days.map(date => ({
+        date,
+        scheduledMinutes: scheduled.get(date) || 0,
+        workedMinutes: Math.round(worked.get(date) || 0),
+      })),
+      weeks: weeks.map(weekStart => ({
+        weekStart,
+        scheduledMinutes: sumWeek(scheduled, weekStart),
+        workedMinutes: Math.round(sumWeek(worked, weekStart)),
+      })),
+      violations: violations.filter(inRange).sort((a, b) => a.date.localeCompare(b.date)),
+    };
+  });
+
+  return { from, to, limits, drivers: reports };
+}
@@ -0,0 +1,107 @@
+import { storage } from "./storage";
+import { decodePolyline, distanceToPathMeters, type LatLng } from "@shared/geo";
+import type { OffRouteAlert } from "@shared/schema";
+
+// Evento que se difunde por WebSocket al abrir o cerrar una alerta de desvío
+export interface OffRouteEvent {
+  type: "offRouteAlert" | "offRouteResolved";
+  alert: OffRouteAlert;
+}
+
+// Momento en que cada chofer salió del corredor (aún sin alerta generada)
+const outsideSince = new Map<string, number>();
+// Trazados decodificados por ruta, se invalidan cuando cambia la polilínea
+const pathCache = new Map<string, { shape: string; path: LatLng[] }>();
+// Cola por chofer: la misma posición puede llegar por HTTP y por WebSocket a la vez
+const pendingChecks = new Map<string, Promise<unknown>>();
+
+function getRoutePath(routeId: string, shape: string): LatLng[] {
+  const cached = pathCache.get(routeId);
+  if (cached && cached.shape === shape) return cached.path;
+
+  const path = decodePolyline(shape);
+  pathCache.set(routeId, { shape, path });
+  return path;
+}
+
+function serialize<T>(driverId: string, task: () => Promise<T>): Promise<T> {
+  const previous = pendingChecks.get(driverId) || Promise.resolve();
+  const result = previous.catch(() => undefined).then(task);
+  pendingChecks.set(driverId, result);
+  result.finally(() => {
+    if (pendingChecks.get(driverId) === result) pendingChecks.delete(driverId);
+  }).catch(() => undefined);
+  return result;
+}
+
+async function resolveAlert(alert: OffRouteAlert): Promise<OffRouteEvent | null> {
+  const resolved = await storage.updateOffRouteAlert(alert.id, { resolvedAt: new Date() });
+  return resolved ? { type: "offRouteResolved", alert: resolved } : null;
+}
+
+// Evaluar una posición contra el trazado de la ruta del turno en curso
+export function checkOffRoute(driverId: string, position: LatLng): Promise<OffRouteEvent | null> {
+  return serialize(driverId, async () => {
+    const { current } = await storage.getCurrentAndNextShifts(driverId);
+    const route = current ? await storage.getSchedule(current.scheduleId) : undefined;
+    let openAlert = await storage.getOpenOffRouteAlert(driverId);
+
+    // Sin turno o sin trazado de referencia no hay contra qué comparar
+    if (!current || !route?.shape) {
+      outsideSince.delete(driverId);
+      return openAlert ? resolveAlert(openAlert) : null;
+    }
+
+    // La alerta abierta pertenece a otro turno: se cierra y se evalúa desde cero
+    if (openAlert && openAlert.assignmentId !== current.id) {
+      await resolveAlert(openAlert);
+      openAlert = undefined;
+    }
+
+    const distance = distanceToPathMeters(position, getRoutePath(route.id, route.shape));
+
+    if (distance <= route.offRouteCorridorMeters) {
+      outsideSince.delete(driverId);
+      return openAlert ? resolveAlert(openAlert) : null;
+    }
+
+    if (openAlert) {
+      if (distance > openAlert.maxDistanceMeters) {
+        await storage.updateOffRouteAlert(openAlert.id, { maxDistanceMeters: distance });
+      }
+      return null;
+    }
+
+    const now = Date.now();
+    const leftAt = outsideSince.get(driverId) ?? now;
+    outsideSince.set(driverId, leftAt);
+
+    // Tolerar desvíos breves (GPS impreciso, rodeos cortos)
+    if (now - leftAt < route.offRouteGraceSeconds * 1000) {
+      return null;
+    }
+
+    outsideSince.delete(driverId);
+    const alert = await storage.createOffRouteAlert({
+      driverId,
+      routeId: route.id,
+      assignmentId: current.id,
+      busId: current.busId,
+      latitude: String(position.lat),
+      longitude: String(position.lng),
+      distanceMeters: distance,
+      maxDistanceMeters: distance,
+      leftRouteAt: new Date(leftAt),
+    });
+    return { type: "offRouteAlert", alert };
+  });
+}
+
+// Cerrar la alerta abierta de un chofer que dejó de transmitir
+export function clearOffRoute(driverId: string): Promise<OffRouteEvent | null> {
+  return serialize(driverId, async () => {
+    outsideSince.delete(driverId);
+    const openAlert = await storage.getOpenOffRouteAlert(driverId);
+    return openAlert ? resolveAlert(openAlert) : null;
+  });
+}
@@ -0,0 +1,147 @@
+import { storage } from "./storage";
+import { addDays, daysBetween, minutesToTime, shiftDurationMinutes, startOfWeek, timeToMinutes } from "@shared/shifts";
+import type { Bus, ProposedShift, Route, RosterGenerateRequest, RosterProposal } from "@shared/schema";
+
+const MINUTES_PER_DAY = 24 * 60;
+// Los cortes entre turnos se redondean a este múltiplo de minutos
+const BLOCK_ROUNDING_MINUTES = 15;
+// Estados de bus que no pueden recibir turnos nuevos
+const UNAVAILABLE_BUS_STATUSES = ["mantenimiento", "fuera_de_servicio"];
+
+interface Interval {
+  start: number; // Minutos absolutos desde el día anterior al rango
+  end: number;
+}
+
+interface Block {
+  start: number; // Minuto del día
+  duration: number;
+}
+
+// Dividir el horario de operación de la ruta en turnos que no superen el máximo diario
+function splitOperatingWindow(route: Route, maxMinutes: number): Block[] {
+  const start = timeToMinutes(route.startTime);
+  const total = shiftDurationMinutes({ shiftStart: route.startTime, shiftEnd: route.endTime });
+  if (total === 0) return [];
+
+  const count = Math.ceil(total / maxMinutes);
+  const cuts = Array.from({ length: count + 1 }, (_, i) =>
+    i === count ? total : Math.round((i * total) / count / BLOCK_ROUNDING_MINUTES) * BLOCK_ROUNDING_MINUTES
+  );
+  return cuts.slice(0, -1).map((cut, i) => ({ start: start + cut, duration: cuts[i + 1] - cut }));
+}
+
+const overlaps = (a: Interval, b: Interval, gap = 0) => a.start < b.end + gap && b.start < a.end + gap;
+
+// Proponer turnos para cubrir el horario de las rutas respetando horas máximas y descanso mínimo
+export async function generateRoster(request: RosterGenerateRequest): Promise<RosterProposal> {
+  const { from, to, routeIds, busesPerRoute } = request;
+
+  // Se consideran los turnos desde el inicio de la semana (límite semanal) y el día posterior (descanso)
+  const firstDay = addDays(from, -1);
+  const [limits, allRoutes, allBuses, drivers, existing] = await Promise.all([
+    storage.getComplianceLimits(),
+    storage.getAllSchedules(),
+    storage.getAllBuses(),
+    storage.getAllDrivers(),
+    storage.getEffectiveShiftsBetween(startOfWeek(firstDay), addDays(to, 1)),
+  ]);
+  // Los límites de la solicitud no pueden ser más permisivos que los configurados: los turnos
+  // propuestos se validan contra estos al confirmarse
+  const maxHoursPerDay = Math.min(request.maxHoursPerDay ?? limits.maxDailyHours, limits.maxDailyHours);
+  const minRestHours = Math.max(request.minRestHours ?? limits.minRestHours, limits.minRestHours);
+  const maxMinutes = Math.round(maxHoursPerDay * 60);
+  const restMinutes = Math.round(minRestHours * 60);
+  const maxWeeklyMinutes = limits.maxWeeklyHours * 60;
+
+  const routes = allRoutes
+    .filter(r => r.isActive && (!routeIds || routeIds.includes(r.id)))
+    .sort((a, b) => a.startTime.localeCompare(b.startTime));
+  const buses = allBuses.filter(b => b.isActive && !UNAVAILABLE_BUS_STATUSES.includes(b.status));
+
+  const toInterval = (date: string, startMinute: number, duration: number): Interval => {
+    const start = daysBetween(firstDay, date) * MINUTES_PER_DAY + startMinute;
+    return { start, end: start + duration };
+  };
+
+  // Ocupación actual de choferes y buses, y minutos trabajados por chofer y día / semana
+  const driverBusy = new Map<string, Interval[]>();
+  const busBusy = new Map<string, Interval[]>();
+  const routeCoverage = new Map<string, Interval[]>();
+  const workedMinutes = new Map<string, number>();
+  const assignedMinutes = new Map<string, number>(); // Para repartir la carga entre choferes
+
+  const occupy = (driverId: string, busId: string, routeId: string, date: string, interval: Interval) => {
+    driverBusy.set(driverId, [...(driverBusy.get(driverId) || []), interval]);
+    busBusy.set(busId, [...(busBusy.get(busId) || []), interval]);
+    routeCoverage.set(routeId, [...(routeCoverage.get(routeId) || []), interval]);
+    for (const key of [`${driverId}|${date}`, `${driverId}|semana|${startOfWeek(date)}`]) {
+      workedMinutes.set(key, (workedMinutes.get(key) || 0) + interval.end - interval.start);
+    }
+  };
+
+  for (const shift of existing) {
+    occupy(shift.driverId, shift.busId, shift.scheduleId, shift.shiftDate,
+      toInterval(shift.shiftDate, timeToMinutes(shift.shiftStart), shiftDurationMinutes(shift)));
+  }
+
+  // Bus usado por cada ruta, para mantener la misma unidad entre días
+  const preferredBus = new Map<string, string>();
+  const proposal: RosterProposal = { from, to, shifts: [], unfilled: [] };
+
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    for (const route of routes) {
+      const blocks = splitOperatingWindow(route, maxMinutes);
+
+      for (const block of blocks) {
+        const interval = toInterval(date, block.start, block.duration);
+        const shiftStart = minutesToTime(block.start);
+        const shiftEnd = minutesToTime(block.start + block.duration);
+
+        // Turnos ya existentes en la ruta cubren parte de los buses requeridos
+        const covered = (routeCoverage.get(route.id) || []).filter(i => overlaps(i, interval)).length;
+
+        for (let slot = covered; slot < busesPerRoute; slot++) {
+          const bus = pickBus(buses, busBusy, interval, preferredBus.get(`${route.id}|${slot}`));
+          if (!bus) {
+            proposal.unfilled.push({ scheduleId: route.id, date, shiftStart, shiftEnd, reason: "No hay buses disponibles" });
+            continue;
+          }
+
+          const driver = drivers
+            .filter(d =>
+              !(driverBusy.get(d.id) || []).some(i => overlaps(i, interval, restMinutes)) &&
+              (workedMinutes.get(`${d.id}|${date}`) || 0) + block.duration <= maxMinutes &&
+              (workedMinutes.get(`${d.id}|semana|${startOfWeek(date)}`) || 0) + block.duration <= maxWeeklyMinutes
+            )
+            .sort((a, b) => (assignedMinutes.get(a.id) || 0) - (assignedMinutes.get(b.id) || 0))[0];
+          if (!driver) {
+            proposal.unfilled.push({ scheduleId: route.id, date, shiftStart, shiftEnd, reason: "No hay choferes con horas o descanso disponibles" });
+            continue;
+          }
+
+          occupy(driver.id, bus.id, route.id, date, interval);
+          assignedMinutes.set(driver.id, (assignedMinutes.get(driver.id) || 0) + block.duration);
+          preferredBus.set(`${route.id}|${slot}`, bus.id);
+
+          const shift: ProposedShift = {
+            driverId: driver.id,
+            scheduleId: route.id,
+            busId: bus.id,
+            assignedDate: date,
+            shiftStart,
+            shiftEnd,
+          };
+          proposal.shifts.push(shift);
+        }
+      }
+    }
+  }
+
+  return proposal;
+}
+
+function pickBus(buses: Bus[], busBusy: Map<string, Interval[]>, interval: Interval, preferredId?: string): Bus | undefined {
+  const free = buses.filter(b => !(busBusy.get(b.id) || []).some(i => overlaps(i, interval)));
+  return free.find(b => b.id === preferredId) || free[0];
+}
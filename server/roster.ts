@@ -0,0 +1,196 @@
+import { storage } from "./storage";
+import { describeShift, findAssignmentConflicts, findStatusConflicts, hasBlockingConflicts } from "./assignment-conflicts";
+import { addDays, daysBetween, isScheduledOn, shiftDurationMinutes, timeToMinutes } from "@shared/shifts";
+import type {
+  Assignment,
+  AssignmentConflict,
+  EffectiveShift,
+  InsertAssignment,
+  RosterBulkCreateRequest,
+  RosterBulkDeleteRequest,
+  RosterBulkResult,
+  RosterCommitRequest,
+  RosterCopyWeekRequest,
+  RosterMoveRequest,
+  WeekRosterResponse,
+} from "@shared/schema";
+
+const WEEK_DAYS = 7;
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface RosterMoveResult {
+  assignment: Assignment | null; // null si el movimiento se rechazó por conflictos
+  conflicts: AssignmentConflict[];
+}
+
+// Turno de fecha única creado desde el planificador (o al aprobar un intercambio)
+export const singleDayShift = (source: Pick<Assignment, "scheduleId" | "busId" | "shiftStart" | "shiftEnd">, driverId: string, date: string): InsertAssignment => ({
+  driverId,
+  scheduleId: source.scheduleId,
+  busId: source.busId,
+  assignedDate: date,
+  shiftStart: source.shiftStart,
+  shiftEnd: source.shiftEnd,
+  isRecurring: false,
+  daysOfWeek: null,
+  validUntil: null,
+  skipHolidays: false,
+  isActive: true,
+});
+
+// Turnos de la semana con los conflictos de cada uno marcados
+export async function getWeekRoster(weekStart: string): Promise<WeekRosterResponse> {
+  const days = Array.from({ length: WEEK_DAYS }, (_, i) => addDays(weekStart, i));
+  // Se incluye el día anterior porque sus turnos nocturnos terminan dentro de la semana
+  const firstDay = addDays(weekStart, -1);
+  const [shifts, allRoutes, allBuses, holidays] = await Promise.all([
+    storage.getEffectiveShiftsBetween(firstDay, days[WEEK_DAYS - 1]),
+    storage.getAllSchedules(),
+    storage.getAllBuses(),
+    storage.getAllHolidays(),
+  ]);
+  const routes = new Map(allRoutes.map(r => [r.id, r]));
+  const buses = new Map(allBuses.map(b => [b.id, b]));
+
+  const intervals = shifts.map(shift => {
+    const start = daysBetween(firstDay, shift.shiftDate) * MINUTES_PER_DAY + timeToMinutes(shift.shiftStart);
+    return { start, end: start + shiftDurationMinutes(shift) };
+  });
+
+  const conflicts: AssignmentConflict[][] = shifts.map(shift => {
+    const route = routes.get(shift.scheduleId);
+    const bus = buses.get(shift.busId);
+    return route && bus ? findStatusConflicts(route, bus) : [];
+  });
+
+  const describe = (shift: EffectiveShift) => `${describeShift(shift, routes, buses)} del ${shift.shiftDate}`;
+
+  for (let i = 0; i < shifts.length; i++) {
+    for (let j = i + 1; j < shifts.length; j++) {
+      if (intervals[i].start >= intervals[j].end || intervals[j].start >= intervals[i].end) continue;
+
+      const [a, b] = [shifts[i], shifts[j]];
+      if (a.driverId === b.driverId) {
+        conflicts[i].push({ type: "driver_overlap", message: `El chofer también tiene el turno ${describe(b)}`, assignmentId: b.id, overridable: false });
+        conflicts[j].push({ type: "driver_overlap", message: `El chofer también tiene el turno ${describe(a)}`, assignmentId: a.id, overridable: false });
+      } else if (a.busId === b.busId) {
+        conflicts[i].push({ type: "bus_overlap", message: `El bus también está en el turno ${describe(b)}`, assignmentId: b.id, overridable: false });
+        conflicts[j].push({ type: "bus_overlap", message: `El bus también está en el turno ${describe(a)}`, assignmentId: a.id, overridable: false });
+      }
+    }
+  }
+
+  return {
+    weekStart,
+    days,
+    holidays: holidays.filter(h => h.date >= weekStart && h.date <= days[WEEK_DAYS - 1]),
+    shifts: shifts
+      .map((shift, i) => ({ ...shift, conflicts: conflicts[i] }))
+      .filter(shift => shift.shiftDate >= weekStart),
+  };
+}
+
+// Mover un turno concreto a otro chofer o día. Si pertenece a una regla recurrente, esa fecha
+// se excluye de la regla y se crea un turno de fecha única en el destino.
+export async function moveRosterShift(request: RosterMoveRequest): Promise<RosterMoveResult | null> {
+  const { assignmentId, date, driverId, targetDate, override } = request;
+  const assignment = await storage.getAssignment(assignmentId);
+  const scheduled = assignment && (await storage.getEffectiveShifts(date, assignment.driverId)).some(s => s.id === assignmentId);
+  if (!assignment || !scheduled) return null;
+
+  const [route, bus] = await Promise.all([storage.getSchedule(assignment.scheduleId), storage.getBus(assignment.busId)]);
+  if (!route || !bus) return null;
+
+  const placement = singleDayShift(assignment, driverId, targetDate);
+
+  if (!assignment.isRecurring) {
+    const conflicts = await findAssignmentConflicts(placement, route, bus, { ignoreAssignmentId: assignment.id, fromDate: targetDate });
+    if (hasBlockingConflicts(conflicts, override)) return { assignment: null, conflicts };
+
+    const updated = await storage.updateAssignment(assignment.id, { driverId, assignedDate: targetDate });
+    return { assignment: updated || null, conflicts };
+  }
+
+  // La ocurrencia original se omite al validar para que el turno no choque consigo mismo
+  const conflicts = await findAssignmentConflicts(placement, route, bus, {
+    skipOccurrences: [{ assignmentId: assignment.id, date }],
+    fromDate: targetDate,
+  });
+  if (hasBlockingConflicts(conflicts, override)) return { assignment: null, conflicts };
+
+  const created = await storage.replaceAssignmentOccurrence(assignment.id, { date, reason: "Movido desde el planificador" }, placement);
+  return { assignment: created, conflicts };
+}
+
+// Crear turnos en lote; se validan uno por uno para detectar también los choques entre ellos
+async function createShifts(placements: InsertAssignment[], override?: boolean): Promise<RosterBulkResult> {
+  const [allRoutes, allBuses] = await Promise.all([storage.getAllSchedules(), storage.getAllBuses()]);
+  const result: RosterBulkResult = { created: 0, skipped: [] };
+
+  for (const placement of placements) {
+    const route = allRoutes.find(r => r.id === placement.scheduleId);
+    const bus = allBuses.find(b => b.id === placement.busId);
+    if (!route || !bus) {
+      result.skipped.push({ driverId: placement.driverId, date: placement.assignedDate, conflicts: [] });
+      continue;
+    }
+
+    const conflicts = await findAssignmentConflicts(placement, route, bus);
+    if (hasBlockingConflicts(conflicts, override)) {
+      result.skipped.push({ driverId: placement.driverId, date: placement.assignedDate, conflicts });
+      continue;
+    }
+
+    await storage.createAssignment(placement);
+    result.created++;
+  }
+
+  return result;
+}
+
+// Copiar los turnos de fecha única de una semana a otra (los recurrentes ya se repiten solos)
+export async function copyRosterWeek({ fromWeekStart, toWeekStart }: RosterCopyWeekRequest): Promise<RosterBulkResult> {
+  const fromWeekEnd = addDays(fromWeekStart, WEEK_DAYS - 1);
+  const offset = daysBetween(fromWeekStart, toWeekStart);
+
+  const source = (await storage.getAllAssignments())
+    .filter(a => a.isActive && !a.isRecurring && a.assignedDate >= fromWeekStart && a.assignedDate <= fromWeekEnd)
+    .sort((a, b) => a.assignedDate.localeCompare(b.assignedDate) || a.shiftStart.localeCompare(b.shiftStart));
+
+  return createShifts(source.map(a => singleDayShift(a, a.driverId, addDays(a.assignedDate, offset))));
+}
+
+export async function bulkCreateRosterShifts(request: RosterBulkCreateRequest): Promise<RosterBulkResult> {
+  const { cells, override, ...template } = request;
+  return createShifts(cells.map(cell => singleDayShift(template, cell.driverId, cell.date)), override);
+}
+
+// Quitar turnos concretos: se borran los de fecha única y se excluye la fecha de las reglas recurrentes
+export async function bulkDeleteRosterShifts({ occurrences }: RosterBulkDeleteRequest): Promise<{ removed: number }> {
+  let removed = 0;
+  const calendar = await storage.getServiceCalendar();
+
+  for (const { assignmentId, date } of occurrences) {
+    const assignment = await storage.getAssignment(assignmentId);
+    if (!assignment) continue;
+
+    if (!assignment.isRecurring) {
+      if (assignment.assignedDate === date && await storage.deleteAssignment(assignmentId)) removed++;
+      continue;
+    }
+
+    // Solo se cancela una fecha en la que la regla realmente opera (día, vigencia, feriados
+    // y excepciones previas)
+    if (!isScheduledOn(assignment, date, calendar)) continue;
+    await storage.createAssignmentException(assignmentId, { date, reason: "Eliminado desde el planificador" });
+    calendar.exceptions.set(assignmentId, new Set(calendar.exceptions.get(assignmentId)).add(date));
+    removed++;
+  }
+
+  return { removed };
+}
+
+// Guardar los turnos aceptados de una propuesta generada; se revalidan por si la planificación cambió
+export async function commitRosterProposal({ shifts, override }: RosterCommitRequest): Promise<RosterBulkResult> {
+  return createShifts(shifts.map(shift => singleDayShift(shift, shift.driverId, shift.assignedDate)), override);
+}
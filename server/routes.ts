@@ -1,27 +1,256 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
+import type { IncomingMessage } from "http";
 import { storage } from "./storage";
+import { downsampleTrack } from "./geo";
+import { computeStopArrivals, ARRIVALS_PUSH_INTERVAL_MS } from "./eta";
+import { checkOffRoute, clearOffRoute, type OffRouteEvent } from "./off-route";
+import { startTransmissionWatchdog } from "./transmission-watchdog";
+import { findAssignmentConflicts, hasBlockingConflicts } from "./assignment-conflicts";
+import { getWeekRoster, moveRosterShift, copyRosterWeek, bulkCreateRosterShifts, bulkDeleteRosterShifts, commitRosterProposal } from "./roster";
+import { generateRoster } from "./roster-generator";
+import { getComplianceReport } from "./hours-of-service";
+import { CHECK_IN_EARLY_MINUTES, getAttendanceReport, isWithinCheckInWindow } from "./attendance";
+import { findOccurrence, reviewShiftRequest } from "./shift-requests";
+import { fileStorage } from "./file-storage";
+import { encodePolyline } from "@shared/geo";
+import { WS_CLOSE_SESSION_ENDED, WS_PROTOCOL_VERSION, clientMessageSchema, decodeWsMessage, encodeWsMessage, topicKey, type ServerMessage, type WsTopic } from "@shared/ws-protocol";
+import { addDays, dateInTimeZone, minutesSinceShiftStart } from "@shared/shifts";
+import { attachSession, requireAuth, requireRole, requireOwnDriver, issueSession, resolveSession, getHandshakeToken } from "./auth";
 import { z } from "zod";
 import bcrypt from "bcrypt";
 import { 
   loginSchema, 
   insertRouteSchema,
   insertBusSchema,
+  insertStopSchema,
+  routeStopsUpdateSchema,
   insertAssignmentSchema,
-  insertLocationSchema,
+  createAssignmentSchema,
+  insertAssignmentExceptionSchema,
+  insertHolidaySchema,
+  shiftsQuerySchema,
+  rosterQuerySchema,
+  rosterMoveSchema,
+  rosterCopyWeekSchema,
+  rosterBulkCreateSchema,
+  rosterBulkDeleteSchema,
+  rosterGenerateSchema,
+  rosterCommitSchema,
+  updateComplianceLimitsSchema,
+  complianceReportQuerySchema,
+  attendanceReportQuerySchema,
+  checkInSchema,
+  checkOutSchema,
+  createShiftRequestSchema,
+  respondShiftRequestSchema,
+  reviewShiftRequestSchema,
+  upcomingShiftsQuerySchema,
+  type LocationUpdate,
+  type ShiftSummary,
+  type ShiftRequestWithShifts,
+  locationUpdateSchema,
+  locationHistoryQuerySchema,
   insertUserSchema,
-  insertReportSchema
+  updateUserSchema,
+  insertReportSchema,
+  updateReportSchema,
+  reportsQuerySchema,
+  reportStatusTransitions,
+  type Report,
+  type ReportPhoto,
+  type User,
+  type Session,
+  reportPhotoMimeTypes,
+  REPORT_PHOTO_MAX_BYTES,
+  REPORT_PHOTO_MAX_COUNT,
+  createReportCommentSchema,
+  insertReportCategorySchema,
+  updateReportCategorySchema,
+  triggerSosSchema,
+  sosNoteSchema,
+  cancelSosSchema,
+  closeSosSchema,
+  sosOpenStatuses,
+  type SosIncident,
+  type EffectiveShift,
+  type UserRole,
 } from "@shared/schema";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
   
-  // WebSocket server for real-time location updates
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
+  // WebSocket server for real-time location updates.
+  // El token se valida en el handshake: uno inválido o vencido rechaza la conexión.
+  // Sin token la conexión es anónima (vista de pasajeros) y solo accede a temas públicos.
+  const handshakeUsers = new WeakMap<IncomingMessage, { session: Session; user: User }>();
+  const wss = new WebSocketServer({
+    server: httpServer,
+    path: '/ws',
+    verifyClient: (info, done) => {
+      const token = getHandshakeToken(info.req);
+      if (!token) return done(true);
+      resolveSession(token)
+        .then((auth) => {
+          if (!auth) return done(false, 401, "Sesión inválida o vencida");
+          handshakeUsers.set(info.req, auth);
+          done(true);
+        })
+        .catch((error) => {
+          console.error('Error validando sesión del WebSocket:', error);
+          done(false, 500);
+        });
+    },
+  });
   
-  // Store active WebSocket connections
-  const driverConnections = new Map<string, WebSocket>();
+  // Conexiones abiertas con su usuario y sesión (null si es anónima) y los temas que sigue
+  interface WsConnection {
+    socket: WebSocket;
+    user: Pick<User, "id" | "role"> | null;
+    session: Pick<Session, "id" | "expiresAt"> | null;
+    topics: Map<string, WsTopic>; // Por clave de tema (topicKey)
+  }
+  const connections = new Map<string, WsConnection>();
+  // Parada cuyas llegadas sigue cada conexión (vista de pasajeros)
+  const arrivalSubscriptions = new Map<string, string>();
+
+  // Cerrar las conexiones cuya sesión terminó (logout, renovación, revocación o cambio de
+  // rol); el cliente vuelve a conectarse con su token vigente o como anónimo
+  const endSessionConnections = (matches: (connection: WsConnection) => boolean) => {
+    connections.forEach((connection, id) => {
+      if (!matches(connection)) return;
+      connections.delete(id);
+      arrivalSubscriptions.delete(id);
+      connection.socket.close(WS_CLOSE_SESSION_ENDED, "Sesión finalizada");
+    });
+  };
+
+  // Una sesión vencida deja de recibir mensajes en cuanto se detecta
+  const isSessionExpired = (connection: WsConnection) =>
+    !!connection.session && connection.session.expiresAt.getTime() <= Date.now();
+
+  const sendTo = (connection: WsConnection | undefined, message: string) => {
+    if (!connection) return;
+    if (isSessionExpired(connection)) {
+      endSessionConnections((other) => other === connection);
+      return;
+    }
+    if (connection.socket.readyState === WebSocket.OPEN) {
+      connection.socket.send(message);
+    }
+  };
+
+  // Publicar un mensaje en las conexiones suscritas a alguno de los temas
+  const publish = (topics: WsTopic[], payload: ServerMessage) => {
+    const keys = topics.map(topicKey);
+    const message = encodeWsMessage(payload);
+    connections.forEach((connection) => {
+      if (keys.some(key => connection.topics.has(key))) {
+        sendTo(connection, message);
+      }
+    });
+  };
+
+  // Los eventos de un chofer van a la flota y a la ruta y el bus de su turno en curso
+  const publishDriverEvent = async (driverId: string, payload: ServerMessage, current?: EffectiveShift | null) => {
+    const shift = current === undefined ? (await storage.getCurrentAndNextShifts(driverId)).current : current;
+    const topics: WsTopic[] = [{ scope: "fleet" }];
+    if (shift) topics.push({ scope: "route", routeId: shift.scheduleId });
+    if (shift?.busId) topics.push({ scope: "bus", busId: shift.busId });
+    publish(topics, payload);
+  };
+
+  const sendStopArrivals = async (stopId: string, connectionIds: string[]) => {
+    const arrivals = await computeStopArrivals(stopId);
+    const message = encodeWsMessage({ type: 'stopArrivals', data: arrivals });
+    connectionIds.forEach((id) => sendTo(connections.get(id), message));
+  };
+
+  // Las alertas de desvío son operativas: solo las recibe el personal que sigue la flota
+  const broadcastOffRouteEvent = (event: OffRouteEvent | null) => {
+    if (!event) return;
+    publish([{ scope: "fleet" }], { type: event.type, data: event.alert });
+  };
+
+  // Registrar una posición del chofer, llegue por HTTP o por WebSocket: ubicación actual,
+  // historial del turno, línea de tiempo de una emergencia abierta, desvíos y publicación
+  const ingestDriverLocation = async (update: LocationUpdate, driverStatus: string | null) => {
+    const { accuracy, speed, heading, deviceTimestamp, ...locationData } = update;
+    const location = await storage.updateDriverLocation(locationData);
+
+    const { current } = await storage.getCurrentAndNextShifts(location.driverId);
+    await storage.addLocationHistoryPoint({
+      driverId: location.driverId,
+      assignmentId: current?.id ?? null,
+      busId: current?.busId ?? null,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      accuracy: accuracy ?? null,
+      speed: speed ?? null,
+      heading: heading ?? null,
+      deviceTimestamp: deviceTimestamp ?? null,
+      driverStatus,
+    });
+
+    // Durante una emergencia cada posición queda también en su línea de tiempo
+    const openSos = await storage.getOpenSosIncident(location.driverId);
+    if (openSos) {
+      await storage.addSosEvent({
+        incidentId: openSos.id,
+        type: "ubicacion",
+        latitude: location.latitude,
+        longitude: location.longitude,
+      });
+    }
+
+    // Verificar que el bus siga dentro del corredor de su ruta
+    broadcastOffRouteEvent(await checkOffRoute(location.driverId, {
+      lat: parseFloat(location.latitude),
+      lng: parseFloat(location.longitude),
+    }));
+
+    // Publicar la posición a quienes siguen la flota, la ruta o el bus
+    await publishDriverEvent(location.driverId, { type: 'locationUpdate', data: location }, current);
+    return location;
+  };
+
+  // Enviar un mensaje solo a las conexiones autenticadas de ciertos usuarios
+  const sendToUsers = (userIds: string[], payload: ServerMessage) => {
+    const message = encodeWsMessage(payload);
+    connections.forEach((connection) => {
+      if (connection.user && userIds.includes(connection.user.id)) {
+        sendTo(connection, message);
+      }
+    });
+  };
+
+  // Avisar cuando un chofer deja de enviar posiciones
+  startTransmissionWatchdog((location) => {
+    publishDriverEvent(location.driverId, { type: 'transmissionLost', data: location })
+      .catch((error) => console.error('Error publicando señal perdida:', error));
+  });
+
+  // Enviar periódicamente las llegadas estimadas a las paradas con suscriptores
+  setInterval(async () => {
+    const subscribersByStop = new Map<string, string[]>();
+    arrivalSubscriptions.forEach((stopId, connectionId) => {
+      subscribersByStop.set(stopId, [...(subscribersByStop.get(stopId) || []), connectionId]);
+    });
+
+    for (const [stopId, connectionIds] of Array.from(subscribersByStop)) {
+      try {
+        await sendStopArrivals(stopId, connectionIds);
+      } catch (error) {
+        console.error('Error enviando llegadas de parada:', error);
+      }
+    }
+  }, ARRIVALS_PUSH_INTERVAL_MS);
+
+  // Resolver el token de sesión en todas las rutas de la API.
+  // Cada ruta declara los roles que la pueden usar; las lecturas sin
+  // middleware (rutas, buses, turnos, ubicaciones) son públicas para pasajeros.
+  app.use("/api", attachSession);
 
   // Authentication routes
   app.post("/api/auth/login", async (req, res) => {
@@ -39,34 +268,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Credenciales inválidas" });
       }
 
-      // Autenticación exitosa
-      res.json({
+      // Autenticación exitosa: emitir token de sesión
+      res.json(await issueSession(user));
+    } catch (error) {
+      console.error('Error en login:', error);
+      res.status(400).json({ message: "Datos de login inválidos" });
+    }
+  });
+
+  // Verificar sesión
+  app.post("/api/auth/verify", requireAuth, async (req, res) => {
+    const user = req.authUser!;
+    res.json({
+      valid: true,
+      expiresAt: req.authSession!.expiresAt.toISOString(),
+      user: {
         id: user.id,
         username: user.username,
         role: user.role,
         fullName: user.fullName,
         licenseNumber: user.licenseNumber,
         driverStatus: user.driverStatus,
-      });
+      },
+    });
+  });
+
+  // Renovar sesión: emite un token nuevo y revoca el anterior
+  app.post("/api/auth/refresh", requireAuth, async (req, res) => {
+    try {
+      const renewed = await issueSession(req.authUser!);
+      await storage.revokeSession(req.authSession!.id);
+      endSessionConnections((connection) => connection.session?.id === req.authSession!.id);
+      res.json(renewed);
     } catch (error) {
-      console.error('Error en login:', error);
-      res.status(400).json({ message: "Datos de login inválidos" });
+      console.error('Error renovando sesión:', error);
+      res.status(500).json({ message: "Error al renovar sesión" });
     }
   });
 
-  // Verificar sesión
-  app.post("/api/auth/verify", async (req, res) => {
+  // Cerrar sesión: revocar el token en el servidor
+  app.post("/api/auth/logout", requireAuth, async (req, res) => {
     try {
-      const { userId } = req.body;
-      const user = await storage.getUser(userId);
-      
-      if (!user) {
-        return res.status(401).json({ message: "Sesión inválida" });
-      }
-      
-      res.json({ valid: true });
+      await storage.revokeSession(req.authSession!.id);
+      endSessionConnections((connection) => connection.session?.id === req.authSession!.id);
+      res.json({ success: true });
     } catch (error) {
-      res.status(401).json({ message: "Sesión inválida" });
+      console.error('Error cerrando sesión:', error);
+      res.status(500).json({ message: "Error al cerrar sesión" });
     }
   });
 
@@ -96,7 +344,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/schedules", async (req, res) => {
+  app.post("/api/schedules", requireRole("admin"), async (req, res) => {
     try {
       const scheduleData = insertRouteSchema.parse(req.body);
       const schedule = await storage.createSchedule(scheduleData);
@@ -106,10 +354,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/schedules/:id", async (req, res) => {
+  app.put("/api/schedules/:id", requireRole("admin"), async (req, res) => {
     try {
       const { id } = req.params;
-      const updates = req.body;
+      const updates = insertRouteSchema.partial().parse(req.body);
       const schedule = await storage.updateSchedule(id, updates);
       
       if (!schedule) {
@@ -118,11 +366,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json(schedule);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Datos de ruta inválidos", errors: error.errors });
+      }
       res.status(500).json({ message: "Error al actualizar horario" });
     }
   });
 
-  app.delete("/api/schedules/:id", async (req, res) => {
+  app.delete("/api/schedules/:id", requireRole("admin"), async (req, res) => {
     try {
       const { id } = req.params;
       const deleted = await storage.deleteSchedule(id);
@@ -164,7 +415,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/buses", async (req, res) => {
+  app.post("/api/buses", requireRole("admin"), async (req, res) => {
     try {
       const busData = insertBusSchema.parse(req.body);
       const bus = await storage.createBus(busData);
@@ -179,7 +430,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/buses/:id", async (req, res) => {
+  app.put("/api/buses/:id", requireRole("admin"), async (req, res) => {
     try {
       const { id } = req.params;
       const updates = req.body;
@@ -196,7 +447,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/buses/:id", async (req, res) => {
+  app.delete("/api/buses/:id", requireRole("admin"), async (req, res) => {
     try {
       const { id } = req.params;
       const deleted = await storage.deleteBus(id);
@@ -212,270 +463,1662 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Assignment routes
-  app.get("/api/assignments", async (req, res) => {
+  // Stop routes
+  app.get("/api/stops", async (req, res) => {
     try {
-      const assignments = await storage.getAllAssignments();
-      res.json(assignments);
+      const stops = await storage.getAllStops();
+      res.json(stops);
     } catch (error) {
-      res.status(500).json({ message: "Error al obtener asignaciones" });
+      console.error('Error getting stops:', error);
+      res.status(500).json({ message: "Error al obtener paradas" });
     }
   });
 
-  app.get("/api/assignments/driver/:driverId", async (req, res) => {
+  app.get("/api/stops/:id", async (req, res) => {
     try {
-      const { driverId } = req.params;
-      const assignments = await storage.getActiveAssignmentsByDriverId(driverId);
-      res.json(assignments);
+      const { id } = req.params;
+      const stop = await storage.getStop(id);
+
+      if (!stop) {
+        return res.status(404).json({ message: "Parada no encontrada" });
+      }
+
+      res.json(stop);
     } catch (error) {
-      res.status(500).json({ message: "Error al obtener asignaciones" });
+      console.error('Error getting stop by ID:', error);
+      res.status(500).json({ message: "Error al obtener parada" });
     }
   });
 
-  // Nuevo endpoint para obtener turnos actual y siguiente
-  app.get("/api/assignments/driver/:driverId/shifts", async (req, res) => {
+  app.post("/api/stops", requireRole("admin"), async (req, res) => {
     try {
-      const { driverId } = req.params;
-      const shifts = await storage.getCurrentAndNextShifts(driverId);
-      res.json(shifts);
+      const stopData = insertStopSchema.parse(req.body);
+      const stop = await storage.createStop(stopData);
+      res.json(stop);
     } catch (error) {
-      console.error('Error getting driver shifts:', error);
-      res.status(500).json({ message: "Error al obtener turnos del chofer" });
+      console.error('Error creating stop:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error interno del servidor" });
+      }
     }
   });
 
-  app.post("/api/assignments", async (req, res) => {
+  app.put("/api/stops/:id", requireRole("admin"), async (req, res) => {
     try {
-      const assignmentData = insertAssignmentSchema.parse(req.body);
-      const assignment = await storage.createAssignment(assignmentData);
-      res.json(assignment);
+      const { id } = req.params;
+      const updates = insertStopSchema.partial().parse(req.body);
+      const stop = await storage.updateStop(id, updates);
+
+      if (!stop) {
+        return res.status(404).json({ message: "Parada no encontrada" });
+      }
+
+      res.json(stop);
     } catch (error) {
-      res.status(400).json({ message: "Datos de asignación inválidos" });
+      console.error('Error updating stop:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al actualizar parada" });
+      }
     }
   });
 
-  app.delete("/api/assignments/:id", async (req, res) => {
+  app.delete("/api/stops/:id", requireRole("admin"), async (req, res) => {
     try {
       const { id } = req.params;
-      const deleted = await storage.deleteAssignment(id);
-      
+      const deleted = await storage.deleteStop(id);
+
       if (!deleted) {
-        return res.status(404).json({ message: "Asignación no encontrada" });
+        return res.status(404).json({ message: "Parada no encontrada" });
       }
-      
-      res.json({ message: "Asignación eliminada" });
+
+      res.json({ message: "Parada eliminada" });
     } catch (error) {
-      res.status(500).json({ message: "Error al eliminar asignación" });
+      console.error('Error deleting stop:', error);
+      res.status(500).json({ message: "Error al eliminar parada" });
     }
   });
 
-  // Driver routes
-  app.get("/api/drivers", async (req, res) => {
+  // Llegadas estimadas de los buses en servicio a una parada
+  app.get("/api/stops/:id/arrivals", async (req, res) => {
     try {
-      const drivers = await storage.getAllDrivers();
-      res.json(drivers);
+      const { id } = req.params;
+      const stop = await storage.getStop(id);
+
+      if (!stop) {
+        return res.status(404).json({ message: "Parada no encontrada" });
+      }
+
+      const arrivals = await computeStopArrivals(id);
+      res.json(arrivals);
     } catch (error) {
-      res.status(500).json({ message: "Error al obtener choferes" });
+      console.error('Error computing stop arrivals:', error);
+      res.status(500).json({ message: "Error al calcular llegadas" });
     }
   });
 
-  // Users management endpoints
-  app.get("/api/users", async (req, res) => {
+  // Alertas de desvío de ruta (las abiertas o las generadas desde una fecha)
+  app.get("/api/off-route-alerts", requireRole("admin", "dispatcher"), async (req, res) => {
     try {
-      const users = await storage.getAllUsers();
-      res.json(users);
+      const openOnly = req.query.open === "true";
+      const since = typeof req.query.since === "string" ? new Date(req.query.since) : undefined;
+      if (since && isNaN(since.getTime())) {
+        return res.status(400).json({ message: "Fecha inválida" });
+      }
+
+      const alerts = await storage.getOffRouteAlerts({ openOnly, since });
+      res.json(alerts);
     } catch (error) {
-      console.error('Error getting users:', error);
-      res.status(500).json({ message: "Error interno del servidor" });
+      console.error('Error getting off-route alerts:', error);
+      res.status(500).json({ message: "Error al obtener alertas de desvío" });
     }
   });
 
-  app.post("/api/users", async (req, res) => {
+  app.post("/api/off-route-alerts/:id/acknowledge", requireRole("admin"), async (req, res) => {
     try {
-      const userData = insertUserSchema.parse(req.body);
-      const user = await storage.createUser(userData);
-      res.json(user);
+      const alert = await storage.updateOffRouteAlert(req.params.id, {
+        acknowledgedAt: new Date(),
+        acknowledgedBy: req.authUser!.id,
+      });
+
+      if (!alert) {
+        return res.status(404).json({ message: "Alerta no encontrada" });
+      }
+
+      res.json(alert);
     } catch (error) {
-      console.error('Error creating user:', error);
+      console.error('Error acknowledging off-route alert:', error);
+      res.status(500).json({ message: "Error al revisar alerta" });
+    }
+  });
+
+  // Emergencias (botón de pánico): cada cambio se avisa al panel administrativo y al chofer
+  const isSosOpen = (incident: SosIncident) => sosOpenStatuses.some(status => status === incident.status);
+
+  const notifySos = async (type: 'sosAlert' | 'sosUpdate', incidentId: string) => {
+    const incident = await storage.getSosIncident(incidentId);
+    if (!incident) return undefined;
+    const recipients = await storage.getUserIdsByRole(["admin", "dispatcher"]);
+    sendToUsers([...recipients, incident.driverId], { type, data: incident });
+    return incident;
+  };
+
+  app.post("/api/sos", requireRole("driver"), async (req, res) => {
+    try {
+      const driverId = req.authUser!.id;
+      const { latitude, longitude, note } = triggerSosSchema.parse(req.body);
+
+      // Pulsar de nuevo no abre otra emergencia: se devuelve la que sigue abierta
+      const existing = await storage.getOpenSosIncident(driverId);
+      if (existing) {
+        return res.json(await storage.getSosIncident(existing.id));
+      }
+
+      // La posición del dispositivo o, si no se pudo obtener, la última conocida del chofer
+      const [{ current }, lastLocation] = await Promise.all([
+        storage.getCurrentAndNextShifts(driverId),
+        latitude && longitude ? Promise.resolve(undefined) : storage.getDriverLocation(driverId),
+      ]);
+      const position = latitude && longitude
+        ? { latitude, longitude }
+        : lastLocation
+          ? { latitude: lastLocation.latitude, longitude: lastLocation.longitude }
+          : { latitude: null, longitude: null };
+
+      const incident = await storage.createSosIncident({
+        driverId,
+        assignmentId: current?.id ?? null,
+        busId: current?.busId ?? null,
+        ...position,
+        note: note || null,
+      });
+      await storage.addSosEvent({ incidentId: incident.id, type: "activada", actorId: driverId, ...position, note: note || null });
+
+      console.log(`EMERGENCIA activada por chofer ${driverId}`);
+      res.json(await notifySos('sosAlert', incident.id));
+    } catch (error) {
+      console.error('Error activando emergencia:', error);
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Datos inválidos", errors: error.errors });
       } else {
-        res.status(500).json({ message: "Error interno del servidor" });
+        res.status(500).json({ message: "Error al activar la emergencia" });
       }
     }
   });
 
-  app.put("/api/users/:id", async (req, res) => {
+  // Emergencias abiertas o generadas desde una fecha
+  app.get("/api/sos", requireRole("admin", "dispatcher"), async (req, res) => {
     try {
-      const userId = req.params.id;
-      const userData = req.body;
-      const updatedUser = await storage.updateUser(userId, userData);
-      if (!updatedUser) {
-        return res.status(404).json({ message: "Usuario no encontrado" });
+      const openOnly = req.query.open === "true";
+      const since = typeof req.query.since === "string" ? new Date(req.query.since) : undefined;
+      if (since && isNaN(since.getTime())) {
+        return res.status(400).json({ message: "Fecha inválida" });
       }
-      res.json(updatedUser);
+
+      res.json(await storage.getSosIncidents({ openOnly, since }));
     } catch (error) {
-      console.error('Error updating user:', error);
-      res.status(500).json({ message: "Error interno del servidor" });
+      console.error('Error obteniendo emergencias:', error);
+      res.status(500).json({ message: "Error al obtener emergencias" });
     }
   });
 
-  app.delete("/api/users/:id", async (req, res) => {
+  // Emergencia abierta del chofer autenticado (para retomar el modo emergencia al recargar)
+  app.get("/api/sos/current", requireRole("driver"), async (req, res) => {
     try {
-      const userId = req.params.id;
-      const deleted = await storage.deleteUser(userId);
-      if (!deleted) {
-        return res.status(404).json({ message: "Usuario no encontrado" });
-      }
-      res.json({ success: true });
+      const incident = await storage.getOpenSosIncident(req.authUser!.id);
+      res.json(incident ? await storage.getSosIncident(incident.id) : null);
     } catch (error) {
-      console.error('Error deleting user:', error);
-      res.status(500).json({ message: "Error interno del servidor" });
+      console.error('Error obteniendo emergencia actual:', error);
+      res.status(500).json({ message: "Error al obtener la emergencia" });
     }
   });
 
-  // Update driver status
-  app.put("/api/users/:id/status", async (req, res) => {
+  app.get("/api/sos/:id/events", requireAuth, async (req, res) => {
     try {
-      const userId = req.params.id;
-      const statusSchema = z.object({
-        driverStatus: z.enum(["disponible", "en_ruta_cargar", "en_ruta_descargar", "cargando", "descargando", "no_disponible"])
-      });
-      
-      const { driverStatus } = statusSchema.parse(req.body);
-      const updatedUser = await storage.updateUser(userId, { driverStatus });
-      
-      if (!updatedUser) {
-        return res.status(404).json({ message: "Usuario no encontrado" });
+      const user = req.authUser!;
+      const incident = await storage.getSosIncident(req.params.id);
+      if (!incident || (user.role === "driver" && incident.driverId !== user.id)) {
+        return res.status(404).json({ message: "Emergencia no encontrada" });
       }
-      
-      res.json({
-        success: true,
-        user: {
-          id: updatedUser.id,
-          driverStatus: updatedUser.driverStatus
-        }
-      });
+
+      res.json(await storage.getSosEvents(incident.id));
     } catch (error) {
-      console.error('Error updating driver status:', error);
-      if (error instanceof z.ZodError) {
-        res.status(400).json({ message: "Estado inválido", errors: error.errors });
-      } else {
-        res.status(500).json({ message: "Error interno del servidor" });
-      }
+      console.error('Error obteniendo línea de tiempo de emergencia:', error);
+      res.status(500).json({ message: "Error al obtener la línea de tiempo" });
     }
   });
 
+  // Reconocer apaga la alarma en todas las sesiones; la emergencia sigue abierta
+  app.post("/api/sos/:id/acknowledge", requireRole("admin"), async (req, res) => {
+    try {
+      const incident = await storage.getSosIncident(req.params.id);
+      if (!incident) {
+        return res.status(404).json({ message: "Emergencia no encontrada" });
+      }
+      if (incident.status !== "activa") {
+        return res.status(409).json({ message: "La emergencia ya fue reconocida o cerrada" });
+      }
 
+      const actorId = req.authUser!.id;
+      await storage.updateSosIncident(incident.id, { status: "reconocida", acknowledgedAt: new Date(), acknowledgedBy: actorId });
+      await storage.addSosEvent({ incidentId: incident.id, type: "reconocida", actorId });
 
-  // Location routes
-  app.get("/api/locations", async (req, res) => {
-    try {
-      const locations = await storage.getAllActiveLocations();
-      res.json(locations);
+      res.json(await notifySos('sosUpdate', incident.id));
     } catch (error) {
-      res.status(500).json({ message: "Error al obtener ubicaciones" });
+      console.error('Error reconociendo emergencia:', error);
+      res.status(500).json({ message: "Error al reconocer la emergencia" });
     }
   });
 
-  app.post("/api/locations", async (req, res) => {
+  app.post("/api/sos/:id/notes", requireRole("admin"), async (req, res) => {
     try {
-      console.log('POST /api/locations - Datos recibidos:', req.body);
-      const locationData = insertLocationSchema.parse(req.body);
-      console.log('POST /api/locations - Datos validados:', locationData);
-      const location = await storage.updateDriverLocation(locationData);
-      console.log('POST /api/locations - Ubicación guardada:', location);
-      
-      // Broadcast location update to all admin connections
-      const locationUpdate = {
-        type: 'locationUpdate',
-        data: location
-      };
-      
-      driverConnections.forEach((ws, connectionId) => {
-        if (ws.readyState === WebSocket.OPEN) {
-          ws.send(JSON.stringify(locationUpdate));
-        }
-      });
-      
-      res.json(location);
+      const { note } = sosNoteSchema.parse(req.body);
+      const incident = await storage.getSosIncident(req.params.id);
+      if (!incident) {
+        return res.status(404).json({ message: "Emergencia no encontrada" });
+      }
+
+      const event = await storage.addSosEvent({ incidentId: incident.id, type: "nota", actorId: req.authUser!.id, note });
+      await notifySos('sosUpdate', incident.id);
+      res.json(event);
     } catch (error) {
-      console.error('Error POST /api/locations:', error);
-      res.status(400).json({ message: "Datos de ubicación inválidos", error: error instanceof Error ? error.message : 'Error desconocido' });
+      console.error('Error agregando nota a emergencia:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al agregar la nota" });
+      }
     }
   });
 
-  // Endpoint para detener transmisión
-  app.post("/api/locations/stop-transmission", async (req, res) => {
+  app.post("/api/sos/:id/close", requireRole("admin"), async (req, res) => {
     try {
-      const { driverId } = req.body;
-      if (!driverId) {
-        return res.status(400).json({ message: "Driver ID requerido" });
+      const { resolutionNotes } = closeSosSchema.parse(req.body);
+      const incident = await storage.getSosIncident(req.params.id);
+      if (!incident) {
+        return res.status(404).json({ message: "Emergencia no encontrada" });
+      }
+      if (!isSosOpen(incident)) {
+        return res.status(409).json({ message: "La emergencia ya está cerrada" });
       }
 
-      console.log(`Deteniendo transmisión para chofer: ${driverId}`);
-      
-      // Actualizar el estado de transmisión a false en la base de datos
-      await storage.stopDriverTransmission(driverId);
-      
-      // Broadcast stop transmission update to all admin connections
-      const stopTransmissionUpdate = {
-        type: 'transmissionStopped',
-        data: { driverId, isTransmitting: false }
-      };
-      
-      console.log(`Enviando WebSocket a ${driverConnections.size} conexiones:`, stopTransmissionUpdate);
-      
-      let sentCount = 0;
-      driverConnections.forEach((ws, connectionId) => {
-        if (ws.readyState === WebSocket.OPEN) {
-          ws.send(JSON.stringify(stopTransmissionUpdate));
-          sentCount++;
-        } else {
-          console.log(`Conexión ${connectionId} cerrada, removiendo...`);
-          driverConnections.delete(connectionId);
-        }
+      // Cerrarla sin reconocerla antes también apaga la alarma
+      const actorId = req.authUser!.id;
+      const now = new Date();
+      await storage.updateSosIncident(incident.id, {
+        status: "cerrada",
+        acknowledgedAt: incident.acknowledgedAt ?? now,
+        acknowledgedBy: incident.acknowledgedBy ?? actorId,
+        closedAt: now,
+        closedBy: actorId,
+        resolutionNotes,
       });
-      
-      console.log(`Mensaje WebSocket enviado a ${sentCount} conexiones activas`);
+      await storage.addSosEvent({ incidentId: incident.id, type: "cerrada", actorId, note: resolutionNotes });
 
-      res.json({ success: true, message: "Transmisión detenida" });
+      res.json(await notifySos('sosUpdate', incident.id));
     } catch (error) {
-      console.error('Error deteniendo transmisión:', error);
-      res.status(500).json({ message: "Error interno del servidor" });
+      console.error('Error cerrando emergencia:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al cerrar la emergencia" });
+      }
     }
   });
 
-  // Report routes
-  app.get("/api/reports", async (req, res) => {
+  // El chofer puede cancelar una activación por error; queda registrada en la línea de tiempo
+  app.post("/api/sos/:id/cancel", requireRole("driver"), async (req, res) => {
     try {
-      const reports = await storage.getAllReports();
-      res.json(reports);
+      const { note } = cancelSosSchema.parse(req.body);
+      const driverId = req.authUser!.id;
+      const incident = await storage.getSosIncident(req.params.id);
+      if (!incident || incident.driverId !== driverId) {
+        return res.status(404).json({ message: "Emergencia no encontrada" });
+      }
+      if (!isSosOpen(incident)) {
+        return res.status(409).json({ message: "La emergencia ya está cerrada" });
+      }
+
+      await storage.updateSosIncident(incident.id, { status: "cancelada", closedAt: new Date(), closedBy: driverId });
+      await storage.addSosEvent({ incidentId: incident.id, type: "cancelada", actorId: driverId, note: note || null });
+
+      res.json(await notifySos('sosUpdate', incident.id));
     } catch (error) {
-      console.error('Error obteniendo reportes:', error);
-      res.status(500).json({ message: "Error al obtener reportes" });
+      console.error('Error cancelando emergencia:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al cancelar la emergencia" });
+      }
     }
   });
 
-  app.post("/api/reports", async (req, res) => {
+  // Guardar como trazado de la ruta un recorrido grabado (historial de un chofer o bus)
+  app.post("/api/schedules/:id/shape/from-history", requireRole("admin"), async (req, res) => {
     try {
-      const reportData = insertReportSchema.parse(req.body);
-      const report = await storage.createReport(reportData);
-      res.json(report);
+      const { id } = req.params;
+      const { driverId, busId, from, to, maxPoints } = locationHistoryQuerySchema.parse(req.body);
+
+      const { points } = await storage.getLocationHistory({ driverId, busId }, from, to, maxPoints);
+      if (points.length < 2) {
+        return res.status(400).json({ message: "El recorrido no tiene suficientes puntos" });
+      }
+
+      const shape = encodePolyline(downsampleTrack(points, maxPoints).map(point => ({
+        lat: parseFloat(point.latitude),
+        lng: parseFloat(point.longitude),
+      })));
+      const schedule = await storage.updateSchedule(id, { shape });
+
+      if (!schedule) {
+        return res.status(404).json({ message: "Ruta no encontrada" });
+      }
+
+      res.json(schedule);
     } catch (error) {
-      console.error('Error creando reporte:', error);
+      console.error('Error learning route shape:', error);
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Datos inválidos", errors: error.errors });
       } else {
-        res.status(500).json({ message: "Error interno del servidor" });
+        res.status(500).json({ message: "Error al guardar el trazado" });
       }
     }
   });
 
-  app.get("/api/reports/driver/:driverId", async (req, res) => {
+  // Relación ruta-parada de todas las rutas (para la vista de pasajeros)
+  app.get("/api/route-stops", async (req, res) => {
     try {
-      const driverId = req.params.driverId;
-      const reports = await storage.getReportsByDriverId(driverId);
+      const routeStops = await storage.getAllRouteStops();
+      res.json(routeStops);
+    } catch (error) {
+      console.error('Error getting route stops:', error);
+      res.status(500).json({ message: "Error al obtener paradas de rutas" });
+    }
+  });
+
+  app.get("/api/schedules/:id/stops", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const schedule = await storage.getSchedule(id);
+
+      if (!schedule) {
+        return res.status(404).json({ message: "Ruta no encontrada" });
+      }
+
+      const routeStops = await storage.getRouteStops(id);
+      res.json(routeStops);
+    } catch (error) {
+      console.error('Error getting schedule stops:', error);
+      res.status(500).json({ message: "Error al obtener paradas de la ruta" });
+    }
+  });
+
+  // Reemplaza la secuencia de paradas de la ruta con el orden recibido
+  app.put("/api/schedules/:id/stops", requireRole("admin"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { stops: entries } = routeStopsUpdateSchema.parse(req.body);
+
+      const schedule = await storage.getSchedule(id);
+      if (!schedule) {
+        return res.status(404).json({ message: "Ruta no encontrada" });
+      }
+
+      const knownStopIds = new Set((await storage.getAllStops()).map(stop => stop.id));
+      if (entries.some(entry => !knownStopIds.has(entry.stopId))) {
+        return res.status(400).json({ message: "Una o más paradas no existen" });
+      }
+
+      const routeStops = await storage.replaceRouteStops(id, entries);
+      res.json(routeStops);
+    } catch (error) {
+      console.error('Error updating schedule stops:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al actualizar paradas de la ruta" });
+      }
+    }
+  });
+
+  // Assignment routes
+  app.get("/api/assignments", async (req, res) => {
+    try {
+      const assignments = await storage.getAllAssignments();
+      res.json(assignments);
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener asignaciones" });
+    }
+  });
+
+  // Turnos del chofer que operan en una fecha (?date=YYYY-MM-DD, por defecto hoy)
+  app.get("/api/assignments/driver/:driverId", requireOwnDriver((req) => req.params.driverId, "admin", "dispatcher"), async (req, res) => {
+    try {
+      const { driverId } = req.params;
+      const { date } = shiftsQuerySchema.parse(req.query);
+      const shifts = await storage.getEffectiveShifts(date || dateInTimeZone(), driverId);
+      res.json(shifts);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al obtener asignaciones" });
+      }
+    }
+  });
+
+  // Nuevo endpoint para obtener turnos actual y siguiente
+  app.get("/api/assignments/driver/:driverId/shifts", requireOwnDriver((req) => req.params.driverId, "admin", "dispatcher"), async (req, res) => {
+    try {
+      const { driverId } = req.params;
+      const shifts = await storage.getCurrentAndNextShifts(driverId);
+      res.json(shifts);
+    } catch (error) {
+      console.error('Error getting driver shifts:', error);
+      res.status(500).json({ message: "Error al obtener turnos del chofer" });
+    }
+  });
+
+  // Próximos turnos del chofer desde hoy (?days=14), para elegir qué turno cambiar
+  app.get("/api/assignments/driver/:driverId/upcoming", requireOwnDriver((req) => req.params.driverId, "admin", "dispatcher"), async (req, res) => {
+    try {
+      const { days } = upcomingShiftsQuerySchema.parse(req.query);
+      const today = dateInTimeZone();
+      const shifts = await storage.getEffectiveShiftsBetween(today, addDays(today, days - 1), req.params.driverId);
+      res.json(shifts);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al obtener los próximos turnos" });
+      }
+    }
+  });
+
+  // Turnos de todos los choferes que operan en una fecha (?date=YYYY-MM-DD, por defecto hoy)
+  app.get("/api/shifts", async (req, res) => {
+    try {
+      const { date } = shiftsQuerySchema.parse(req.query);
+      const shifts = await storage.getEffectiveShifts(date || dateInTimeZone());
+      res.json(shifts);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al obtener turnos" });
+      }
+    }
+  });
+
+  // Verificar conflictos de una asignación antes de crearla (usado por el formulario)
+  app.post("/api/assignments/conflicts", requireRole("admin"), async (req, res) => {
+    try {
+      const assignmentData = insertAssignmentSchema.parse(req.body);
+      const [route, bus] = await Promise.all([
+        storage.getSchedule(assignmentData.scheduleId),
+        storage.getBus(assignmentData.busId),
+      ]);
+      if (!route || !bus) {
+        return res.status(400).json({ message: "La ruta o el bus no existen" });
+      }
+
+      const conflicts = await findAssignmentConflicts(assignmentData, route, bus);
+      res.json({ conflicts });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al verificar conflictos de la asignación" });
+      }
+    }
+  });
+
+  app.post("/api/assignments", requireRole("admin"), async (req, res) => {
+    try {
+      const { override, ...assignmentData } = createAssignmentSchema.parse(req.body);
+      const [route, bus] = await Promise.all([
+        storage.getSchedule(assignmentData.scheduleId),
+        storage.getBus(assignmentData.busId),
+      ]);
+      if (!route || !bus) {
+        return res.status(400).json({ message: "La ruta o el bus no existen" });
+      }
+
+      const conflicts = await findAssignmentConflicts(assignmentData, route, bus);
+      if (hasBlockingConflicts(conflicts, override)) {
+        return res.status(409).json({ message: "La asignación tiene conflictos", conflicts });
+      }
+
+      const assignment = await storage.createAssignment(assignmentData);
+      res.json(assignment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos de asignación inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al crear asignación" });
+      }
+    }
+  });
+
+  app.delete("/api/assignments/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const deleted = await storage.deleteAssignment(id);
+      
+      if (!deleted) {
+        return res.status(404).json({ message: "Asignación no encontrada" });
+      }
+      
+      res.json({ message: "Asignación eliminada" });
+    } catch (error) {
+      res.status(500).json({ message: "Error al eliminar asignación" });
+    }
+  });
+
+  // Planificador semanal de turnos
+  app.get("/api/roster", requireRole("admin", "dispatcher"), async (req, res) => {
+    try {
+      const { weekStart } = rosterQuerySchema.parse(req.query);
+      const roster = await getWeekRoster(weekStart);
+      res.json(roster);
+    } catch (error) {
+      console.error('Error getting roster:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al obtener la planificación" });
+      }
+    }
+  });
+
+  app.post("/api/roster/move", requireRole("admin"), async (req, res) => {
+    try {
+      const moveData = rosterMoveSchema.parse(req.body);
+      const result = await moveRosterShift(moveData);
+
+      if (!result) {
+        return res.status(404).json({ message: "Turno no encontrado en esa fecha" });
+      }
+      if (!result.assignment) {
+        return res.status(409).json({ message: "El turno tiene conflictos en su nuevo lugar", conflicts: result.conflicts });
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error('Error moving roster shift:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al mover el turno" });
+      }
+    }
+  });
+
+  app.post("/api/roster/copy-week", requireRole("admin"), async (req, res) => {
+    try {
+      const copyData = rosterCopyWeekSchema.parse(req.body);
+      const result = await copyRosterWeek(copyData);
+      res.json(result);
+    } catch (error) {
+      console.error('Error copying roster week:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al copiar la semana" });
+      }
+    }
+  });
+
+  app.post("/api/roster/bulk-create", requireRole("admin"), async (req, res) => {
+    try {
+      const bulkData = rosterBulkCreateSchema.parse(req.body);
+      const result = await bulkCreateRosterShifts(bulkData);
+      res.json(result);
+    } catch (error) {
+      console.error('Error bulk creating shifts:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al crear los turnos" });
+      }
+    }
+  });
+
+  app.post("/api/roster/bulk-delete", requireRole("admin"), async (req, res) => {
+    try {
+      const deleteData = rosterBulkDeleteSchema.parse(req.body);
+      const result = await bulkDeleteRosterShifts(deleteData);
+      res.json(result);
+    } catch (error) {
+      console.error('Error bulk deleting shifts:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al eliminar los turnos" });
+      }
+    }
+  });
+
+  // Generación automática: devuelve una propuesta sin guardar nada
+  app.post("/api/roster/generate", requireRole("admin"), async (req, res) => {
+    try {
+      const generateData = rosterGenerateSchema.parse(req.body);
+      const proposal = await generateRoster(generateData);
+      res.json(proposal);
+    } catch (error) {
+      console.error('Error generating roster:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al generar la planificación" });
+      }
+    }
+  });
+
+  app.post("/api/roster/commit", requireRole("admin"), async (req, res) => {
+    try {
+      const commitData = rosterCommitSchema.parse(req.body);
+      const result = await commitRosterProposal(commitData);
+      res.json(result);
+    } catch (error) {
+      console.error('Error committing roster proposal:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al guardar la planificación" });
+      }
+    }
+  });
+
+  // Excepciones de una asignación recurrente (días en que no opera)
+  app.get("/api/assignments/:id/exceptions", requireRole("admin", "dispatcher"), async (req, res) => {
+    try {
+      const exceptions = await storage.getAssignmentExceptions(req.params.id);
+      res.json(exceptions);
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener excepciones" });
+    }
+  });
+
+  app.post("/api/assignments/:id/exceptions", requireRole("admin"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const exceptionData = insertAssignmentExceptionSchema.parse(req.body);
+
+      const assignment = await storage.getAssignment(id);
+      if (!assignment) {
+        return res.status(404).json({ message: "Asignación no encontrada" });
+      }
+
+      const existing = await storage.getAssignmentExceptions(id);
+      if (existing.some(exception => exception.date === exceptionData.date)) {
+        return res.status(409).json({ message: "Ya existe una excepción para esa fecha" });
+      }
+
+      const exception = await storage.createAssignmentException(id, exceptionData);
+      res.json(exception);
+    } catch (error) {
+      console.error('Error creating assignment exception:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al crear excepción" });
+      }
+    }
+  });
+
+  app.delete("/api/assignment-exceptions/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteAssignmentException(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Excepción no encontrada" });
+      }
+      res.json({ message: "Excepción eliminada" });
+    } catch (error) {
+      res.status(500).json({ message: "Error al eliminar excepción" });
+    }
+  });
+
+  // Calendario de feriados
+  app.get("/api/holidays", requireRole("admin", "dispatcher"), async (req, res) => {
+    try {
+      const holidays = await storage.getAllHolidays();
+      res.json(holidays);
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener feriados" });
+    }
+  });
+
+  app.post("/api/holidays", requireRole("admin"), async (req, res) => {
+    try {
+      const holidayData = insertHolidaySchema.parse(req.body);
+
+      const existing = await storage.getAllHolidays();
+      if (existing.some(holiday => holiday.date === holidayData.date)) {
+        return res.status(409).json({ message: "Ya existe un feriado en esa fecha" });
+      }
+
+      const holiday = await storage.createHoliday(holidayData);
+      res.json(holiday);
+    } catch (error) {
+      console.error('Error creating holiday:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al crear feriado" });
+      }
+    }
+  });
+
+  app.delete("/api/holidays/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteHoliday(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Feriado no encontrado" });
+      }
+      res.json({ message: "Feriado eliminado" });
+    } catch (error) {
+      res.status(500).json({ message: "Error al eliminar feriado" });
+    }
+  });
+
+  // Jornada de los choferes: límites legales configurables y reporte de cumplimiento
+  app.get("/api/compliance/limits", requireAuth, async (req, res) => {
+    try {
+      const limits = await storage.getComplianceLimits();
+      res.json(limits);
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener los límites de jornada" });
+    }
+  });
+
+  app.put("/api/compliance/limits", requireRole("admin"), async (req, res) => {
+    try {
+      const limitsData = updateComplianceLimitsSchema.parse(req.body);
+      const limits = await storage.updateComplianceLimits(limitsData, req.authUser!.id);
+      res.json(limits);
+    } catch (error) {
+      console.error('Error updating compliance limits:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al actualizar los límites de jornada" });
+      }
+    }
+  });
+
+  // Un chofer puede consultar únicamente su propio reporte
+  app.get("/api/compliance/report", requireOwnDriver((req) => req.query.driverId, "admin", "dispatcher"), async (req, res) => {
+    try {
+      const query = complianceReportQuerySchema.parse(req.query);
+      const report = await getComplianceReport(query);
+      res.json(report);
+    } catch (error) {
+      console.error('Error getting compliance report:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al generar el reporte de cumplimiento" });
+      }
+    }
+  });
+
+  // Asistencia: el chofer marca entrada y salida de sus turnos con su posición
+  app.post("/api/attendance/check-in", requireRole("driver"), async (req, res) => {
+    try {
+      const { assignmentId, shiftDate, latitude, longitude } = checkInSchema.parse(req.body);
+      const driverId = req.authUser!.id;
+
+      const shift = (await storage.getEffectiveShifts(shiftDate, driverId)).find(s => s.id === assignmentId);
+      if (!shift) {
+        return res.status(404).json({ message: "Turno no encontrado" });
+      }
+      if (!isWithinCheckInWindow(shift)) {
+        return res.status(400).json({
+          message: `Solo puede marcar entrada desde ${CHECK_IN_EARLY_MINUTES} minutos antes del inicio hasta el fin del turno`,
+        });
+      }
+      if (await storage.getAttendanceForShift(assignmentId, shiftDate)) {
+        return res.status(409).json({ message: "Ya marcó entrada en este turno" });
+      }
+
+      const record = await storage.createAttendanceRecord({
+        driverId,
+        assignmentId,
+        shiftDate,
+        shiftStart: shift.shiftStart,
+        shiftEnd: shift.shiftEnd,
+        checkInLatitude: latitude ?? null,
+        checkInLongitude: longitude ?? null,
+        lateMinutes: Math.max(0, minutesSinceShiftStart(shift)),
+      });
+      res.json(record);
+    } catch (error) {
+      console.error('Error checking in:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al marcar entrada" });
+      }
+    }
+  });
+
+  app.post("/api/attendance/:id/check-out", requireRole("driver"), async (req, res) => {
+    try {
+      const { latitude, longitude } = checkOutSchema.parse(req.body);
+      const record = await storage.getAttendanceRecord(req.params.id);
+
+      if (!record || record.driverId !== req.authUser!.id) {
+        return res.status(404).json({ message: "Registro de asistencia no encontrado" });
+      }
+      if (record.checkOutAt) {
+        return res.status(409).json({ message: "Ya marcó salida en este turno" });
+      }
+
+      const updated = await storage.updateAttendanceRecord(record.id, {
+        checkOutAt: new Date(),
+        checkOutLatitude: latitude ?? null,
+        checkOutLongitude: longitude ?? null,
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error('Error checking out:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al marcar salida" });
+      }
+    }
+  });
+
+  // Marcas de ayer y hoy (incluye los turnos nocturnos que siguen en curso)
+  app.get("/api/attendance/driver/:driverId", requireOwnDriver((req) => req.params.driverId, "admin", "dispatcher"), async (req, res) => {
+    try {
+      const today = dateInTimeZone();
+      const records = await storage.getAttendanceRecords(addDays(today, -1), today, req.params.driverId);
+      res.json(records);
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener la asistencia del chofer" });
+    }
+  });
+
+  app.get("/api/attendance/report", requireOwnDriver((req) => req.query.driverId, "admin", "dispatcher"), async (req, res) => {
+    try {
+      const query = attendanceReportQuerySchema.parse(req.query);
+      const report = await getAttendanceReport(query);
+      res.json(report);
+    } catch (error) {
+      console.error('Error getting attendance report:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al generar el reporte de asistencia" });
+      }
+    }
+  });
+
+  // Solicitudes de intercambio de turno y de permiso.
+  // Flujo: el chofer solicita -> el compañero acepta (solo intercambios) -> el administrador aprueba.
+  app.get("/api/shift-requests", requireAuth, async (req, res) => {
+    try {
+      const user = req.authUser!;
+      const status = typeof req.query.status === "string" ? req.query.status : undefined;
+      // Los choferes solo ven las solicitudes en las que participan
+      const requests = await storage.getShiftRequests({ driverId: user.role === "driver" ? user.id : undefined, status });
+
+      const assignmentsById = new Map((await storage.getAllAssignments()).map(a => [a.id, a]));
+      const summary = (id: string | null): ShiftSummary | null => {
+        const assignment = id ? assignmentsById.get(id) : undefined;
+        return assignment
+          ? { scheduleId: assignment.scheduleId, busId: assignment.busId, shiftStart: assignment.shiftStart, shiftEnd: assignment.shiftEnd }
+          : null;
+      };
+      const withShifts: ShiftRequestWithShifts[] = requests.map(request => ({
+        ...request,
+        shift: summary(request.assignmentId),
+        targetShift: summary(request.targetAssignmentId),
+      }));
+      res.json(withShifts);
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener solicitudes" });
+    }
+  });
+
+  app.post("/api/shift-requests", requireRole("driver"), async (req, res) => {
+    try {
+      const requestData = createShiftRequestSchema.parse(req.body);
+      const requesterId = req.authUser!.id;
+      const today = dateInTimeZone();
+
+      if (requestData.type === "permiso") {
+        if (requestData.startDate < today) {
+          return res.status(400).json({ message: "El permiso no puede iniciar en una fecha pasada" });
+        }
+        const request = await storage.createShiftRequest({ ...requestData, requesterId, status: "pendiente_admin" });
+        return res.json(request);
+      }
+
+      if (requestData.shiftDate < today) {
+        return res.status(400).json({ message: "No se pueden intercambiar turnos pasados" });
+      }
+      if (requestData.targetDriverId === requesterId) {
+        return res.status(400).json({ message: "Seleccione a otro chofer" });
+      }
+      const target = await storage.getUser(requestData.targetDriverId);
+      if (!target || target.role !== "driver") {
+        return res.status(404).json({ message: "Chofer no encontrado" });
+      }
+      if (!await findOccurrence(requestData.assignmentId, requestData.shiftDate, requesterId)) {
+        return res.status(404).json({ message: "Turno no encontrado" });
+      }
+
+      const pending = await storage.getShiftRequests({ driverId: requesterId });
+      if (pending.some(r =>
+        r.assignmentId === requestData.assignmentId &&
+        r.shiftDate === requestData.shiftDate &&
+        (r.status === "pendiente_chofer" || r.status === "pendiente_admin")
+      )) {
+        return res.status(409).json({ message: "Ya existe una solicitud pendiente para este turno" });
+      }
+
+      const request = await storage.createShiftRequest({ ...requestData, requesterId, status: "pendiente_chofer" });
+      res.json(request);
+    } catch (error) {
+      console.error('Error creating shift request:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al crear la solicitud" });
+      }
+    }
+  });
+
+  app.post("/api/shift-requests/:id/respond", requireRole("driver"), async (req, res) => {
+    try {
+      const { accept, targetAssignmentId, targetShiftDate } = respondShiftRequestSchema.parse(req.body);
+      const request = await storage.getShiftRequest(req.params.id);
+
+      if (!request || request.targetDriverId !== req.authUser!.id) {
+        return res.status(404).json({ message: "Solicitud no encontrada" });
+      }
+      if (request.status !== "pendiente_chofer") {
+        return res.status(409).json({ message: "La solicitud ya fue respondida" });
+      }
+      if (accept && targetAssignmentId && !await findOccurrence(targetAssignmentId, targetShiftDate!, request.targetDriverId)) {
+        return res.status(404).json({ message: "Turno ofrecido no encontrado" });
+      }
+
+      const updated = await storage.updateShiftRequest(request.id, accept
+        ? { status: "pendiente_admin", peerRespondedAt: new Date(), targetAssignmentId: targetAssignmentId ?? null, targetShiftDate: targetShiftDate ?? null }
+        : { status: "rechazada", peerRespondedAt: new Date() });
+      res.json(updated);
+    } catch (error) {
+      console.error('Error responding shift request:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al responder la solicitud" });
+      }
+    }
+  });
+
+  app.post("/api/shift-requests/:id/cancel", requireRole("driver"), async (req, res) => {
+    try {
+      const request = await storage.getShiftRequest(req.params.id);
+      if (!request || request.requesterId !== req.authUser!.id) {
+        return res.status(404).json({ message: "Solicitud no encontrada" });
+      }
+      if (request.status !== "pendiente_chofer" && request.status !== "pendiente_admin") {
+        return res.status(409).json({ message: "Solo se pueden cancelar solicitudes pendientes" });
+      }
+
+      const updated = await storage.updateShiftRequest(request.id, { status: "cancelada" });
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: "Error al cancelar la solicitud" });
+    }
+  });
+
+  app.post("/api/shift-requests/:id/review", requireRole("admin"), async (req, res) => {
+    try {
+      const { approve, note, override } = reviewShiftRequestSchema.parse(req.body);
+      const request = await storage.getShiftRequest(req.params.id);
+
+      if (!request) {
+        return res.status(404).json({ message: "Solicitud no encontrada" });
+      }
+      if (request.status !== "pendiente_admin") {
+        return res.status(409).json({ message: "La solicitud no está pendiente de aprobación" });
+      }
+
+      const result = await reviewShiftRequest(request, req.authUser!.id, approve, note, override);
+      if (!result.request) {
+        return res.status(409).json({
+          message: result.message || "Los turnos tienen conflictos con el intercambio",
+          conflicts: result.conflicts,
+        });
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error('Error reviewing shift request:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al revisar la solicitud" });
+      }
+    }
+  });
+
+  // Cambios de turno aplicados al aprobar la solicitud
+  app.get("/api/shift-requests/:id/history", requireAuth, async (req, res) => {
+    try {
+      const user = req.authUser!;
+      const request = await storage.getShiftRequest(req.params.id);
+      if (!request || (user.role === "driver" && request.requesterId !== user.id && request.targetDriverId !== user.id)) {
+        return res.status(404).json({ message: "Solicitud no encontrada" });
+      }
+
+      const history = await storage.getAssignmentHistory(request.id);
+      res.json(history);
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener el historial de la solicitud" });
+    }
+  });
+
+  // Driver routes
+  app.get("/api/drivers", requireRole("admin", "dispatcher"), async (req, res) => {
+    try {
+      const drivers = await storage.getAllDrivers();
+      res.json(drivers);
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener choferes" });
+    }
+  });
+
+  // Tarjetas públicas de choferes (nombre y estado) para la vista de pasajeros
+  app.get("/api/drivers/public", async (req, res) => {
+    try {
+      const drivers = await storage.getPublicDriverCards();
+      res.json(drivers);
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener choferes" });
+    }
+  });
+
+  // Users management endpoints
+  app.get("/api/users", requireRole("admin", "dispatcher"), async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users);
+    } catch (error) {
+      console.error('Error getting users:', error);
+      res.status(500).json({ message: "Error interno del servidor" });
+    }
+  });
+
+  app.post("/api/users", requireRole("admin"), async (req, res) => {
+    try {
+      const userData = insertUserSchema.parse(req.body);
+      const user = await storage.createUser(userData);
+      res.json(user);
+    } catch (error) {
+      console.error('Error creating user:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error interno del servidor" });
+      }
+    }
+  });
+
+  app.put("/api/users/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const userId = req.params.id;
+      const userData = updateUserSchema.parse(req.body);
+      const updatedUser = await storage.updateUser(userId, userData);
+      if (!updatedUser) {
+        return res.status(404).json({ message: "Usuario no encontrado" });
+      }
+      // Un cambio de contraseña invalida las sesiones abiertas del usuario
+      if (userData.password) {
+        await storage.revokeUserSessions(userId);
+      }
+      // El rol de una conexión se fija al conectarse: se cierran para que reconecten con el nuevo
+      if (userData.password || userData.role) {
+        endSessionConnections((connection) => connection.user?.id === userId);
+      }
+      res.json(updatedUser);
+    } catch (error) {
+      console.error('Error updating user:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error interno del servidor" });
+      }
+    }
+  });
+
+  app.delete("/api/users/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const userId = req.params.id;
+      const deleted = await storage.deleteUser(userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Usuario no encontrado" });
+      }
+      endSessionConnections((connection) => connection.user?.id === userId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting user:', error);
+      res.status(500).json({ message: "Error interno del servidor" });
+    }
+  });
+
+  // Update driver status
+  app.put("/api/users/:id/status", requireOwnDriver((req) => req.params.id, "admin"), async (req, res) => {
+    try {
+      const userId = req.params.id;
+      const statusSchema = z.object({
+        driverStatus: z.enum(["disponible", "en_ruta_cargar", "en_ruta_descargar", "cargando", "descargando", "no_disponible"])
+      });
+      
+      const { driverStatus } = statusSchema.parse(req.body);
+      const updatedUser = await storage.updateUser(userId, { driverStatus });
+      
+      if (!updatedUser) {
+        return res.status(404).json({ message: "Usuario no encontrado" });
+      }
+      
+      res.json({
+        success: true,
+        user: {
+          id: updatedUser.id,
+          driverStatus: updatedUser.driverStatus
+        }
+      });
+    } catch (error) {
+      console.error('Error updating driver status:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Estado inválido", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error interno del servidor" });
+      }
+    }
+  });
+
+
+
+  // Location routes
+  // El personal administrativo ve toda la flota; el público (vista de pasajeros) solo los buses
+  // en servicio, igual que por los temas de ruta y bus del WebSocket
+  app.get("/api/locations", async (req, res) => {
+    try {
+      const locations = await storage.getAllActiveLocations();
+      const role = req.authUser?.role;
+      if (role === "admin" || role === "dispatcher") {
+        return res.json(locations);
+      }
+
+      const inService = await Promise.all(
+        locations.map(async (location) => !!(await storage.getCurrentAndNextShifts(location.driverId)).current)
+      );
+      res.json(locations.filter((_, i) => inService[i]));
+    } catch (error) {
+      res.status(500).json({ message: "Error al obtener ubicaciones" });
+    }
+  });
+
+  app.post("/api/locations", requireOwnDriver((req) => req.body?.driverId), async (req, res) => {
+    try {
+      console.log('POST /api/locations - Datos recibidos:', req.body);
+      const update = locationUpdateSchema.parse(req.body);
+      console.log('POST /api/locations - Datos validados:', update);
+      const location = await ingestDriverLocation(update, req.authUser?.driverStatus ?? null);
+      console.log('POST /api/locations - Ubicación guardada:', location);
+      
+      res.json(location);
+    } catch (error) {
+      console.error('Error POST /api/locations:', error);
+      res.status(400).json({ message: "Datos de ubicación inválidos", error: error instanceof Error ? error.message : 'Error desconocido' });
+    }
+  });
+
+  // Historial de posiciones de un chofer o de un bus en un rango de tiempo
+  app.get("/api/locations/history", requireOwnDriver((req) => req.query.driverId, "admin", "dispatcher"), async (req, res) => {
+    try {
+      const { driverId, busId, from, to, maxPoints } = locationHistoryQuerySchema.parse(req.query);
+      const { points, total } = await storage.getLocationHistory({ driverId, busId }, from, to, maxPoints);
+      const sampled = downsampleTrack(points, maxPoints);
+
+      res.json({
+        driverId: driverId ?? null,
+        busId: busId ?? null,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        totalPoints: total,
+        downsampled: sampled.length < total,
+        points: sampled,
+      });
+    } catch (error) {
+      console.error('Error obteniendo historial de ubicaciones:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Parámetros inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al obtener historial de ubicaciones" });
+      }
+    }
+  });
+
+  // Endpoint para detener transmisión
+  app.post("/api/locations/stop-transmission", requireOwnDriver((req) => req.body?.driverId, "admin"), async (req, res) => {
+    try {
+      const { driverId } = req.body;
+      if (!driverId) {
+        return res.status(400).json({ message: "Driver ID requerido" });
+      }
+
+      // El chofer no puede apagar la transmisión mientras tenga una emergencia abierta
+      if (req.authUser?.role === "driver" && await storage.getOpenSosIncident(driverId)) {
+        return res.status(409).json({ message: "No se puede detener la transmisión durante una emergencia" });
+      }
+
+      console.log(`Deteniendo transmisión para chofer: ${driverId}`);
+      
+      // Actualizar el estado de transmisión a false en la base de datos
+      await storage.stopDriverTransmission(driverId);
+      broadcastOffRouteEvent(await clearOffRoute(driverId));
+      
+      // Avisar a quienes siguen la flota, la ruta o el bus del chofer
+      await publishDriverEvent(driverId, {
+        type: 'transmissionStopped',
+        data: { driverId, isTransmitting: false }
+      });
+
+      res.json({ success: true, message: "Transmisión detenida" });
+    } catch (error) {
+      console.error('Error deteniendo transmisión:', error);
+      res.status(500).json({ message: "Error interno del servidor" });
+    }
+  });
+
+  // Categorías de reporte: los choferes solo ven las activas
+  app.get("/api/report-categories", requireAuth, async (req, res) => {
+    try {
+      const categories = await storage.getReportCategories();
+      res.json(req.authUser!.role === "driver" ? categories.filter(c => c.isActive) : categories);
+    } catch (error) {
+      console.error('Error obteniendo categorías de reporte:', error);
+      res.status(500).json({ message: "Error al obtener categorías de reporte" });
+    }
+  });
+
+  app.post("/api/report-categories", requireRole("admin"), async (req, res) => {
+    try {
+      const categoryData = insertReportCategorySchema.parse(req.body);
+      if (await storage.getReportCategoryByKey(categoryData.key)) {
+        return res.status(409).json({ message: "Ya existe una categoría con esa clave" });
+      }
+
+      const category = await storage.createReportCategory(categoryData);
+      res.json(category);
+    } catch (error) {
+      console.error('Error creando categoría de reporte:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al crear la categoría" });
+      }
+    }
+  });
+
+  app.put("/api/report-categories/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const updates = updateReportCategorySchema.parse(req.body);
+      const category = await storage.updateReportCategory(req.params.id, updates);
+
+      if (!category) {
+        return res.status(404).json({ message: "Categoría no encontrada" });
+      }
+
+      res.json(category);
+    } catch (error) {
+      console.error('Error actualizando categoría de reporte:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al actualizar la categoría" });
+      }
+    }
+  });
+
+  // Solo se eliminan categorías sin reportes; las usadas se desactivan para conservar el historial
+  app.delete("/api/report-categories/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const category = await storage.getReportCategory(req.params.id);
+      if (!category) {
+        return res.status(404).json({ message: "Categoría no encontrada" });
+      }
+      if (await storage.isReportCategoryInUse(category.key)) {
+        return res.status(409).json({ message: "La categoría tiene reportes; desactívela en lugar de eliminarla" });
+      }
+
+      await storage.deleteReportCategory(category.id);
+      res.json({ message: "Categoría eliminada" });
+    } catch (error) {
+      console.error('Error eliminando categoría de reporte:', error);
+      res.status(500).json({ message: "Error al eliminar la categoría" });
+    }
+  });
+
+  // Report routes
+  app.get("/api/reports", requireRole("admin", "dispatcher"), async (req, res) => {
+    try {
+      const { status } = reportsQuerySchema.parse(req.query);
+      const reports = await storage.getAllReports({ status });
+      res.json(reports);
+    } catch (error) {
+      console.error('Error obteniendo reportes:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al obtener reportes" });
+      }
+    }
+  });
+
+  // Gestión del reporte: estado, severidad, administrador a cargo y resolución
+  app.patch("/api/reports/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const changes = updateReportSchema.parse(req.body);
+      const report = await storage.getReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ message: "Reporte no encontrado" });
+      }
+
+      if (changes.assignedTo) {
+        const assignee = await storage.getUser(changes.assignedTo);
+        if (!assignee || assignee.role !== "admin") {
+          return res.status(400).json({ message: "El reporte solo se puede asignar a un administrador" });
+        }
+      }
+
+      const now = new Date();
+      const update: Partial<Report> = { ...changes, updatedAt: now, updatedBy: req.authUser!.id };
+
+      if (changes.status && changes.status !== report.status) {
+        const allowed = reportStatusTransitions[report.status as keyof typeof reportStatusTransitions] ?? [];
+        if (!allowed.includes(changes.status)) {
+          return res.status(409).json({ message: `No se puede pasar de "${report.status}" a "${changes.status}"` });
+        }
+
+        const notes = changes.resolutionNotes !== undefined ? changes.resolutionNotes : report.resolutionNotes;
+        if ((changes.status === "resuelto" || changes.status === "descartado") && !notes?.trim()) {
+          return res.status(400).json({ message: "Indique la resolución del reporte" });
+        }
+
+        if (changes.status === "en_revision") {
+          update.reviewStartedAt = now;
+        } else if (changes.status === "resuelto") {
+          update.resolvedAt = now;
+        } else if (changes.status === "descartado") {
+          update.dismissedAt = now;
+        } else {
+          // Reabierto: se limpia el cierre anterior
+          update.resolvedAt = null;
+          update.dismissedAt = null;
+        }
+        // Revisar o cerrar sin responsable deja el reporte a cargo de quien lo hizo
+        if (changes.status !== "abierto" && !report.assignedTo && changes.assignedTo === undefined) {
+          update.assignedTo = req.authUser!.id;
+        }
+      }
+
+      const updated = await storage.updateReport(report.id, update);
+      res.json(updated);
+    } catch (error) {
+      console.error('Error actualizando reporte:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al actualizar el reporte" });
+      }
+    }
+  });
+
+  app.post("/api/reports", requireOwnDriver((req) => req.body?.driverId), async (req, res) => {
+    try {
+      const { latitude, longitude, ...reportData } = insertReportSchema.parse(req.body);
+
+      const category = await storage.getReportCategoryByKey(reportData.type);
+      if (!category || !category.isActive) {
+        return res.status(400).json({ message: "Categoría de reporte no válida" });
+      }
+      if (reportData.description.trim().length < category.minDescriptionLength) {
+        return res.status(400).json({
+          message: `La descripción debe tener al menos ${category.minDescriptionLength} caracteres`,
+        });
+      }
+
+      // Se registra dónde y en qué servicio ocurrió: la posición enviada por el dispositivo
+      // o, si no se pudo obtener, la última transmitida por el chofer
+      const [{ current }, lastLocation] = await Promise.all([
+        storage.getCurrentAndNextShifts(reportData.driverId),
+        latitude && longitude ? Promise.resolve(undefined) : storage.getDriverLocation(reportData.driverId),
+      ]);
+      const position = latitude && longitude
+        ? { latitude, longitude }
+        : lastLocation?.isTransmitting
+          ? { latitude: lastLocation.latitude, longitude: lastLocation.longitude }
+          : { latitude: null, longitude: null };
+
+      if (category.requiresLocation && !position.latitude) {
+        return res.status(400).json({ message: `Los reportes de "${category.name}" requieren la ubicación del dispositivo` });
+      }
+      if (category.requiresActiveShift && !current) {
+        return res.status(400).json({ message: `Los reportes de "${category.name}" solo se pueden enviar durante un turno` });
+      }
+
+      const report = await storage.createReport({
+        ...reportData,
+        ...position,
+        severity: category.defaultSeverity,
+        assignmentId: current?.id ?? null,
+        busId: current?.busId ?? null,
+      });
+      res.json(report);
+    } catch (error) {
+      console.error('Error creando reporte:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error interno del servidor" });
+      }
+    }
+  });
+
+  // Fotos del reporte: las sube el chofer que lo envió y las ven él y el panel administrativo
+  const canAccessReport = (user: User, report: Report) =>
+    user.role === "admin" || user.role === "dispatcher" || report.driverId === user.id;
+
+  // El cuerpo de la petición es la imagen tal cual; el error de tamaño se responde aquí
+  // para no llegar al manejador global
+  const rawPhotoParser = express.raw({ type: [...reportPhotoMimeTypes], limit: REPORT_PHOTO_MAX_BYTES });
+  const parsePhotoBody: express.RequestHandler = (req, res, next) => {
+    rawPhotoParser(req, res, (error?: any) => {
+      if (!error) return next();
+      if (error.type === "entity.too.large") {
+        return res.status(413).json({ message: "La foto supera el tamaño máximo permitido" });
+      }
+      res.status(400).json({ message: "No se pudo leer la foto" });
+    });
+  };
+
+  app.post(
+    "/api/reports/:id/photos",
+    requireRole("driver", "admin"),
+    parsePhotoBody,
+    async (req, res) => {
+      try {
+        const user = req.authUser!;
+        const report = await storage.getReport(req.params.id);
+        if (!report || (user.role === "driver" && report.driverId !== user.id)) {
+          return res.status(404).json({ message: "Reporte no encontrado" });
+        }
+
+        const mimeType = req.headers["content-type"]?.split(";")[0].trim();
+        if (!Buffer.isBuffer(req.body) || !reportPhotoMimeTypes.some(type => type === mimeType)) {
+          return res.status(415).json({ message: "La foto debe ser JPG, PNG o WEBP" });
+        }
+        if (req.body.length === 0) {
+          return res.status(400).json({ message: "La foto está vacía" });
+        }
+        if ((await storage.getReportPhotos(report.id)).length >= REPORT_PHOTO_MAX_COUNT) {
+          return res.status(409).json({ message: `Un reporte admite hasta ${REPORT_PHOTO_MAX_COUNT} fotos` });
+        }
+
+        // El límite se vuelve a validar al guardar por si hubo subidas simultáneas;
+        // si la foto no se registra se elimina el archivo para no dejarlo huérfano
+        const storageKey = await fileStorage.save(req.body, mimeType!.split("/")[1]);
+        let photo: ReportPhoto | undefined;
+        try {
+          photo = await storage.createReportPhoto({
+            reportId: report.id,
+            storageKey,
+            mimeType: mimeType!,
+            sizeBytes: req.body.length,
+            uploadedBy: user.id,
+          }, REPORT_PHOTO_MAX_COUNT);
+        } finally {
+          if (!photo) await fileStorage.delete(storageKey);
+        }
+        if (!photo) {
+          return res.status(409).json({ message: `Un reporte admite hasta ${REPORT_PHOTO_MAX_COUNT} fotos` });
+        }
+        res.json(photo);
+      } catch (error) {
+        console.error('Error subiendo foto del reporte:', error);
+        res.status(500).json({ message: "Error al subir la foto" });
+      }
+    },
+  );
+
+  app.get("/api/reports/:id/photos", requireAuth, async (req, res) => {
+    try {
+      const report = await storage.getReport(req.params.id);
+      if (!report || !canAccessReport(req.authUser!, report)) {
+        return res.status(404).json({ message: "Reporte no encontrado" });
+      }
+
+      const photos = await storage.getReportPhotos(report.id);
+      res.json(photos);
+    } catch (error) {
+      console.error('Error obteniendo fotos del reporte:', error);
+      res.status(500).json({ message: "Error al obtener las fotos del reporte" });
+    }
+  });
+
+  // Archivo de la foto; las etiquetas <img> envían el token como ?token=
+  app.get("/api/report-photos/:id/file", requireAuth, async (req, res) => {
+    try {
+      const photo = await storage.getReportPhoto(req.params.id);
+      const report = photo ? await storage.getReport(photo.reportId) : undefined;
+      if (!photo || !report || !canAccessReport(req.authUser!, report)) {
+        return res.status(404).json({ message: "Foto no encontrada" });
+      }
+
+      const data = await fileStorage.read(photo.storageKey);
+      if (!data) {
+        return res.status(404).json({ message: "Foto no encontrada" });
+      }
+
+      res.setHeader("Content-Type", photo.mimeType);
+      res.setHeader("Cache-Control", "private, max-age=86400");
+      res.send(data);
+    } catch (error) {
+      console.error('Error obteniendo foto del reporte:', error);
+      res.status(500).json({ message: "Error al obtener la foto" });
+    }
+  });
+
+  // Conversación del reporte entre el chofer que lo envió y los administradores
+  app.get("/api/reports/unread-counts", requireAuth, async (req, res) => {
+    try {
+      const user = req.authUser!;
+      const counts = await storage.getUnreadReportCounts(user.id, user.role === "driver" ? user.id : undefined);
+      res.json(counts);
+    } catch (error) {
+      console.error('Error obteniendo mensajes no leídos:', error);
+      res.status(500).json({ message: "Error al obtener mensajes no leídos" });
+    }
+  });
+
+  app.get("/api/reports/:id/comments", requireAuth, async (req, res) => {
+    try {
+      const report = await storage.getReport(req.params.id);
+      if (!report || !canAccessReport(req.authUser!, report)) {
+        return res.status(404).json({ message: "Reporte no encontrado" });
+      }
+
+      const comments = await storage.getReportComments(report.id);
+      res.json(comments);
+    } catch (error) {
+      console.error('Error obteniendo mensajes del reporte:', error);
+      res.status(500).json({ message: "Error al obtener los mensajes del reporte" });
+    }
+  });
+
+  app.post("/api/reports/:id/comments", requireRole("driver", "admin"), async (req, res) => {
+    try {
+      const user = req.authUser!;
+      const { body } = createReportCommentSchema.parse(req.body);
+      const report = await storage.getReport(req.params.id);
+      if (!report || !canAccessReport(user, report)) {
+        return res.status(404).json({ message: "Reporte no encontrado" });
+      }
+
+      const comment = await storage.createReportComment({ reportId: report.id, authorId: user.id, body });
+      // Quien escribe ya leyó la conversación hasta su propio mensaje
+      await storage.markReportRead(report.id, user.id);
+
+      // El chofer avisa al panel administrativo; un administrador avisa al chofer
+      const recipients = user.role === "driver"
+        ? await storage.getUserIdsByRole(["admin", "dispatcher"])
+        : [report.driverId];
+      sendToUsers(recipients, { type: 'reportComment', data: comment });
+
+      res.json(comment);
+    } catch (error) {
+      console.error('Error creando mensaje del reporte:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Error al enviar el mensaje" });
+      }
+    }
+  });
+
+  app.post("/api/reports/:id/read", requireAuth, async (req, res) => {
+    try {
+      const report = await storage.getReport(req.params.id);
+      if (!report || !canAccessReport(req.authUser!, report)) {
+        return res.status(404).json({ message: "Reporte no encontrado" });
+      }
+
+      await storage.markReportRead(report.id, req.authUser!.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error marcando reporte como leído:', error);
+      res.status(500).json({ message: "Error al marcar el reporte como leído" });
+    }
+  });
+
+  app.get("/api/reports/driver/:driverId", requireOwnDriver((req) => req.params.driverId, "admin", "dispatcher"), async (req, res) => {
+    try {
+      const driverId = req.params.driverId;
+      const reports = await storage.getReportsByDriverId(driverId);
       res.json(reports);
     } catch (error) {
       console.error('Error obteniendo reportes del chofer:', error);
@@ -486,46 +2129,103 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // WebSocket handling
   wss.on('connection', (ws, req) => {
     const connectionId = Math.random().toString(36).substring(7);
-    driverConnections.set(connectionId, ws);
+    const handshake = handshakeUsers.get(req);
+    const connection: WsConnection = {
+      socket: ws,
+      user: handshake ? { id: handshake.user.id, role: handshake.user.role } : null,
+      session: handshake ? { id: handshake.session.id, expiresAt: handshake.session.expiresAt } : null,
+      topics: new Map(),
+    };
+    connections.set(connectionId, connection);
+    const { user } = connection;
+
+    const reply = (payload: ServerMessage) => sendTo(connection, encodeWsMessage(payload));
+
+    const replySubscriptions = () => reply({ type: 'subscriptions', topics: Array.from(connection.topics.values()) });
 
-    ws.on('message', async (message) => {
+    ws.on('message', async (raw) => {
       try {
-        const data = JSON.parse(message.toString());
-        
-        if (data.type === 'locationUpdate') {
-          // Update location in storage
-          await storage.updateDriverLocation(data.location);
-          
-          // Broadcast to all other connections
-          const locationUpdate = {
-            type: 'locationUpdate',
-            data: data.location
-          };
-          
-          driverConnections.forEach((connection, id) => {
-            if (id !== connectionId && connection.readyState === WebSocket.OPEN) {
-              connection.send(JSON.stringify(locationUpdate));
-            }
-          });
+        if (isSessionExpired(connection)) {
+          endSessionConnections((other) => other === connection);
+          return;
+        }
+
+        // Los mensajes mal formados o de otra versión se responden con un error explícito
+        const decoded = decodeWsMessage(clientMessageSchema, raw.toString());
+        if (!decoded.success) {
+          reply(decoded.error);
+          return;
+        }
+        const data = decoded.message;
+
+        // Solo el chofer conectado puede enviar su propia ubicación y estado de transmisión
+        if (data.type === 'locationUpdate' || data.type === 'transmissionStatus') {
+          const driverId = data.type === 'locationUpdate' ? data.location.driverId : data.driverId;
+          if (!user) {
+            reply({ type: 'error', code: 'unauthorized', message: 'Sesión requerida', requestType: data.type });
+            return;
+          }
+          if (user.role !== 'driver' || driverId !== user.id) {
+            reply({ type: 'error', code: 'forbidden', message: 'Solo puede enviar la ubicación de su propia sesión', requestType: data.type });
+            return;
+          }
         }
 
-        if (data.type === 'transmissionStatus') {
-          await storage.setDriverTransmissionStatus(data.driverId, data.isTransmitting);
-          
-          // Broadcast status change
-          const statusUpdate = {
-            type: 'transmissionStatusUpdate',
-            data: {
-              driverId: data.driverId,
-              isTransmitting: data.isTransmitting
+        switch (data.type) {
+          case 'locationUpdate': {
+            const driver = await storage.getUser(data.location.driverId);
+            await ingestDriverLocation(data.location, driver?.driverStatus ?? null);
+            break;
+          }
+
+          case 'transmissionStatus':
+            // Igual que en POST /api/locations/stop-transmission: con una emergencia abierta
+            // el chofer no puede apagar la transmisión forzada
+            if (!data.isTransmitting && await storage.getOpenSosIncident(data.driverId)) {
+              reply({
+                type: 'error',
+                code: 'forbidden',
+                message: 'No se puede detener la transmisión durante una emergencia',
+                requestType: data.type,
+              });
+              return;
             }
-          };
-          
-          driverConnections.forEach((connection, id) => {
-            if (connection.readyState === WebSocket.OPEN) {
-              connection.send(JSON.stringify(statusUpdate));
+            await storage.setDriverTransmissionStatus(data.driverId, data.isTransmitting);
+            await publishDriverEvent(data.driverId, {
+              type: 'transmissionStatusUpdate',
+              data: { driverId: data.driverId, isTransmitting: data.isTransmitting },
+            });
+            break;
+
+          // La flota completa es solo para el personal administrativo; rutas y buses son públicos
+          case 'subscribe':
+            if (data.topic.scope === 'fleet' && user?.role !== 'admin' && user?.role !== 'dispatcher') {
+              reply({
+                type: 'error',
+                code: user ? 'forbidden' : 'unauthorized',
+                message: 'Solo el personal administrativo puede seguir toda la flota',
+                requestType: data.type,
+              });
+              return;
             }
-          });
+            connection.topics.set(topicKey(data.topic), data.topic);
+            replySubscriptions();
+            break;
+
+          case 'unsubscribe':
+            connection.topics.delete(topicKey(data.topic));
+            replySubscriptions();
+            break;
+
+          // Suscripción pública a las llegadas de una parada
+          case 'subscribeArrivals':
+            arrivalSubscriptions.set(connectionId, data.stopId);
+            await sendStopArrivals(data.stopId, [connectionId]);
+            break;
+
+          case 'unsubscribeArrivals':
+            arrivalSubscriptions.delete(connectionId);
+            break;
         }
       } catch (error) {
         console.error('Error processing WebSocket message:', error);
@@ -533,14 +2233,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
 
     ws.on('close', () => {
-      driverConnections.delete(connectionId);
+      connections.delete(connectionId);
+      arrivalSubscriptions.delete(connectionId);
     });
 
     // Send initial data
-    ws.send(JSON.stringify({
+    reply({
       type: 'connected',
-      connectionId
-    }));
+      connectionId,
+      authenticated: !!user,
+      role: user ? user.role as UserRole : null,
+      protocolVersion: WS_PROTOCOL_VERSION,
+    });
   });
 
   return httpServer;
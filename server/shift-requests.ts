@@ -0,0 +1,97 @@
+import { storage, type ShiftRequestChange } from "./storage";
+import { findAssignmentConflicts, hasBlockingConflicts } from "./assignment-conflicts";
+import { singleDayShift } from "./roster";
+import type { AssignmentConflict, EffectiveShift, ShiftRequest } from "@shared/schema";
+
+export interface ShiftRequestReviewResult {
+  request: ShiftRequest | null; // null si no se pudo aplicar
+  conflicts: AssignmentConflict[];
+  message?: string; // Motivo cuando no se aplicó por otra causa que los conflictos
+}
+
+interface PlanOutcome {
+  changes: ShiftRequestChange[] | null; // null si la solicitud no se puede aplicar
+  conflicts: AssignmentConflict[];
+  message?: string;
+}
+
+// Turno concreto de un chofer en una fecha, si sigue programado
+export async function findOccurrence(assignmentId: string, date: string, driverId: string): Promise<EffectiveShift | undefined> {
+  return (await storage.getEffectiveShifts(date, driverId)).find(s => s.id === assignmentId);
+}
+
+// Entregar cada turno al otro chofer. Los turnos que se intercambian se omiten al validar
+// para que no choquen consigo mismos.
+async function planSwap(request: ShiftRequest, override?: boolean): Promise<PlanOutcome> {
+  const given = await findOccurrence(request.assignmentId ?? "", request.shiftDate ?? "", request.requesterId);
+  const received = request.targetAssignmentId
+    ? await findOccurrence(request.targetAssignmentId, request.targetShiftDate ?? "", request.targetDriverId ?? "")
+    : undefined;
+  if (!given || (request.targetAssignmentId && !received)) {
+    return { changes: null, conflicts: [], message: "Alguno de los turnos ya no está programado" };
+  }
+
+  const moves = [{ shift: given, driverId: request.targetDriverId! }];
+  if (received) moves.push({ shift: received, driverId: request.requesterId });
+  const skipOccurrences = moves.map(({ shift }) => ({ assignmentId: shift.id, date: shift.shiftDate }));
+
+  const changes: ShiftRequestChange[] = [];
+  const conflicts: AssignmentConflict[] = [];
+  for (const { shift, driverId } of moves) {
+    const [route, bus] = await Promise.all([storage.getSchedule(shift.scheduleId), storage.getBus(shift.busId)]);
+    if (!route || !bus) {
+      return { changes: null, conflicts, message: "La ruta o el bus del turno ya no existen" };
+    }
+
+    const placement = singleDayShift(shift, driverId, shift.shiftDate);
+    const found = await findAssignmentConflicts(placement, route, bus, { skipOccurrences, fromDate: shift.shiftDate });
+    conflicts.push(...found);
+    if (hasBlockingConflicts(found, override)) return { changes: null, conflicts };
+
+    changes.push({ action: "intercambio", shift, reason: "Intercambio de turno aprobado", replacement: placement });
+  }
+
+  return { changes, conflicts };
+}
+
+// Retirar del chofer todos sus turnos dentro del permiso
+async function planTimeOff(request: ShiftRequest): Promise<PlanOutcome> {
+  const shifts = await storage.getEffectiveShiftsBetween(request.startDate!, request.endDate!, request.requesterId);
+  return {
+    changes: shifts.map(shift => ({ action: "permiso", shift, reason: "Permiso aprobado" })),
+    conflicts: [],
+  };
+}
+
+// Decisión del administrador sobre una solicitud pendiente; al aprobar se actualizan los turnos
+export async function reviewShiftRequest(
+  request: ShiftRequest,
+  reviewerId: string,
+  approve: boolean,
+  note?: string | null,
+  override?: boolean,
+): Promise<ShiftRequestReviewResult> {
+  let changes: ShiftRequestChange[] = [];
+  let conflicts: AssignmentConflict[] = [];
+
+  if (approve) {
+    const outcome = request.type === "intercambio"
+      ? await planSwap(request, override)
+      : await planTimeOff(request);
+    if (!outcome.changes) {
+      return { request: null, conflicts: outcome.conflicts, message: outcome.message };
+    }
+    changes = outcome.changes;
+    conflicts = outcome.conflicts;
+  }
+
+  const updated = await storage.completeShiftRequestReview(request.id, {
+    status: approve ? "aprobada" : "rechazada",
+    reviewedBy: reviewerId,
+    reviewNote: note ?? null,
+  }, changes);
+  if (!updated) {
+    return { request: null, conflicts: [], message: "La solicitud ya fue resuelta por otro administrador" };
+  }
+  return { request: updated, conflicts };
+}
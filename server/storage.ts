@@ -1,38 +1,111 @@
 import { 
   type User, 
   type InsertUser, 
+  type PublicUser,
+  type PublicDriverCard,
+  type Session,
+  type UserRole,
+  type InsertSession,
   type Route, 
   type InsertRoute,
+  type Stop,
+  type InsertStop,
+  type RouteStop,
+  type RouteStopWithStop,
+  type RouteStopsUpdate,
   type Bus,
   type InsertBus,
   type Assignment,
   type InsertAssignment,
+  type AssignmentException,
+  type InsertAssignmentException,
+  type Holiday,
+  type InsertHoliday,
+  type ComplianceLimits,
+  type UpdateComplianceLimits,
+  type AttendanceRecord,
+  type InsertAttendanceRecord,
+  type ShiftRequest,
+  type InsertShiftRequest,
+  type AssignmentHistoryEntry,
+  type InsertAssignmentHistoryEntry,
+  type EffectiveShift,
   type Location,
   type InsertLocation,
+  type LocationHistoryPoint,
+  type InsertLocationHistoryPoint,
+  type OffRouteAlert,
+  type InsertOffRouteAlert,
   type Report,
   type InsertReport,
+  type ReportPhoto,
+  type InsertReportPhoto,
+  type ReportCommentWithAuthor,
+  type InsertReportComment,
+  type ReportUnreadCount,
+  type ReportCategory,
+  type InsertReportCategory,
+  type SosIncident,
+  type InsertSosIncident,
+  type SosIncidentWithDriver,
+  type InsertSosEvent,
+  type SosEvent,
+  type SosEventWithActor,
+  sosOpenStatuses,
   users,
+  sessions,
   routes,
+  stops,
+  routeStops,
   buses,
   assignments,
+  assignmentExceptions,
+  holidays,
+  complianceLimits,
+  attendanceRecords,
+  shiftRequests,
+  assignmentHistory,
   locations,
-  reports
+  locationHistory,
+  offRouteAlerts,
+  reports,
+  reportPhotos,
+  reportCategories,
+  reportComments,
+  reportReads,
+  sosIncidents,
+  sosEvents
 } from "@shared/schema";
+import { addDays, crossesMidnight, dateInTimeZone, isScheduledOn, minutesOfDay, timeToMinutes, type ServiceCalendar } from "@shared/shifts";
 import { db } from "./db";
-import { eq, and } from "drizzle-orm";
+import { eq, and, or, ne, isNull, gt, gte, lte, lt, asc, desc, count, inArray, getTableColumns, sql } from "drizzle-orm";
 import { randomUUID } from "crypto";
 import bcrypt from "bcrypt";
 
+// Días hacia adelante en los que se busca el siguiente turno de un chofer
+const NEXT_SHIFT_LOOKAHEAD_DAYS = 14;
+
+// Columnas de usuario que se pueden devolver al cliente (sin contraseña)
+const { password: _password, ...publicUserColumns } = getTableColumns(users);
+
 export interface IStorage {
   // Users
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
-  getAllDrivers(): Promise<User[]>;
-  getAllUsers(): Promise<User[]>;
-  updateUser(id: string, user: Partial<User>): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<PublicUser>;
+  getAllDrivers(): Promise<PublicUser[]>;
+  getPublicDriverCards(): Promise<PublicDriverCard[]>;
+  getAllUsers(): Promise<PublicUser[]>;
+  getUserIdsByRole(roles: UserRole[]): Promise<string[]>;
+  updateUser(id: string, user: Partial<User>): Promise<PublicUser | undefined>;
   deleteUser(id: string): Promise<boolean>;
 
+  // Sessions
+  createSession(session: InsertSession): Promise<Session>;
+  getSessionByTokenHash(tokenHash: string): Promise<Session | undefined>;
+  revokeSession(id: string): Promise<void>;
+  revokeUserSessions(userId: string): Promise<void>;
+
   // Routes
   getAllSchedules(): Promise<Route[]>;
   getSchedule(id: string): Promise<Route | undefined>;
@@ -40,6 +113,16 @@ export interface IStorage {
   updateSchedule(id: string, schedule: Partial<Route>): Promise<Route | undefined>;
   deleteSchedule(id: string): Promise<boolean>;
 
+  // Stops
+  getAllStops(): Promise<Stop[]>;
+  getStop(id: string): Promise<Stop | undefined>;
+  createStop(stop: InsertStop): Promise<Stop>;
+  updateStop(id: string, stop: Partial<Stop>): Promise<Stop | undefined>;
+  deleteStop(id: string): Promise<boolean>;
+  getAllRouteStops(): Promise<RouteStop[]>;
+  getRouteStops(routeId: string): Promise<RouteStopWithStop[]>;
+  replaceRouteStops(routeId: string, entries: RouteStopsUpdate["stops"]): Promise<RouteStopWithStop[]>;
+
   // Buses
   getAllBuses(): Promise<Bus[]>;
   getBus(id: string): Promise<Bus | undefined>;
@@ -49,10 +132,44 @@ export interface IStorage {
 
   // Assignments
   getAllAssignments(): Promise<Assignment[]>;
+  getAssignment(id: string): Promise<Assignment | undefined>;
   getAssignmentsByDriverId(driverId: string): Promise<Assignment[]>;
   getActiveAssignmentByDriverId(driverId: string): Promise<Assignment | undefined>;
   createAssignment(assignment: InsertAssignment): Promise<Assignment>;
   deleteAssignment(id: string): Promise<boolean>;
+  getEffectiveShifts(date: string, driverId?: string): Promise<EffectiveShift[]>;
+  getEffectiveShiftsBetween(from: string, to: string, driverId?: string): Promise<EffectiveShift[]>;
+  updateAssignment(id: string, assignment: Partial<InsertAssignment>): Promise<Assignment | undefined>;
+
+  // Service calendar
+  getServiceCalendar(): Promise<ServiceCalendar>;
+  getAllHolidays(): Promise<Holiday[]>;
+  createHoliday(holiday: InsertHoliday): Promise<Holiday>;
+  deleteHoliday(id: string): Promise<boolean>;
+  getAssignmentExceptions(assignmentId: string): Promise<AssignmentException[]>;
+  createAssignmentException(assignmentId: string, exception: InsertAssignmentException): Promise<AssignmentException>;
+  deleteAssignmentException(id: string): Promise<boolean>;
+  replaceAssignmentOccurrence(assignmentId: string, exception: InsertAssignmentException, replacement: InsertAssignment): Promise<Assignment>;
+
+  // Hours of service
+  getComplianceLimits(): Promise<ComplianceLimits>;
+  updateComplianceLimits(limits: UpdateComplianceLimits, updatedBy: string): Promise<ComplianceLimits>;
+
+  // Attendance
+  getAttendanceRecord(id: string): Promise<AttendanceRecord | undefined>;
+  getAttendanceForShift(assignmentId: string, shiftDate: string): Promise<AttendanceRecord | undefined>;
+  getAttendanceRecords(from: string, to: string, driverId?: string): Promise<AttendanceRecord[]>;
+  createAttendanceRecord(record: InsertAttendanceRecord): Promise<AttendanceRecord>;
+  updateAttendanceRecord(id: string, record: Partial<AttendanceRecord>): Promise<AttendanceRecord | undefined>;
+
+  // Shift requests
+  getShiftRequests(filter: { driverId?: string; status?: string }): Promise<ShiftRequest[]>;
+  getShiftRequest(id: string): Promise<ShiftRequest | undefined>;
+  createShiftRequest(request: InsertShiftRequest): Promise<ShiftRequest>;
+  updateShiftRequest(id: string, request: Partial<ShiftRequest>): Promise<ShiftRequest | undefined>;
+  getAssignmentHistory(requestId: string): Promise<AssignmentHistoryEntry[]>;
+  createAssignmentHistoryEntry(entry: InsertAssignmentHistoryEntry): Promise<AssignmentHistoryEntry>;
+  completeShiftRequestReview(id: string, review: ShiftRequestReview, changes: ShiftRequestChange[]): Promise<ShiftRequest | undefined>;
 
   // Locations
   updateDriverLocation(location: InsertLocation): Promise<Location>;
@@ -60,13 +177,79 @@ export interface IStorage {
   getAllActiveLocations(): Promise<Location[]>;
   setDriverTransmissionStatus(driverId: string, isTransmitting: boolean): Promise<void>;
   stopDriverTransmission(driverId: string): Promise<void>;
+  markLostTransmissions(lastSeenBefore: Date): Promise<Location[]>;
+  addLocationHistoryPoint(point: InsertLocationHistoryPoint): Promise<LocationHistoryPoint>;
+  getLocationHistory(filter: { driverId?: string; busId?: string }, from: Date, to: Date, maxPoints: number): Promise<{ points: LocationHistoryPoint[]; total: number }>;
+  getRouteLocationHistory(routeId: string, since: Date): Promise<LocationHistoryPoint[]>;
+  getTrackedTimestamps(from: Date, to: Date, driverId?: string): Promise<{ driverId: string; recordedAt: Date }[]>;
+
+  // Off-route alerts
+  createOffRouteAlert(alert: InsertOffRouteAlert): Promise<OffRouteAlert>;
+  updateOffRouteAlert(id: string, alert: Partial<OffRouteAlert>): Promise<OffRouteAlert | undefined>;
+  getOpenOffRouteAlert(driverId: string): Promise<OffRouteAlert | undefined>;
+  getOffRouteAlerts(filter: { openOnly?: boolean; since?: Date }): Promise<OffRouteAlert[]>;
+
+  // Report categories
+  getReportCategories(): Promise<ReportCategory[]>;
+  getReportCategory(id: string): Promise<ReportCategory | undefined>;
+  getReportCategoryByKey(key: string): Promise<ReportCategory | undefined>;
+  createReportCategory(category: InsertReportCategory): Promise<ReportCategory>;
+  updateReportCategory(id: string, category: Partial<InsertReportCategory>): Promise<ReportCategory | undefined>;
+  deleteReportCategory(id: string): Promise<boolean>;
+  isReportCategoryInUse(key: string): Promise<boolean>;
 
   // Reports
-  createReport(report: InsertReport): Promise<Report>;
-  getAllReports(): Promise<Report[]>;
+  createReport(report: InsertReport & Partial<Pick<Report, "assignmentId" | "busId" | "severity">>): Promise<Report>;
+  getAllReports(filter?: { status?: string }): Promise<Report[]>;
+  getReport(id: string): Promise<Report | undefined>;
+  updateReport(id: string, report: Partial<Report>): Promise<Report | undefined>;
   getReportsByDriverId(driverId: string): Promise<Report[]>;
+  getReportPhotos(reportId: string): Promise<ReportPhoto[]>;
+  getReportPhoto(id: string): Promise<ReportPhoto | undefined>;
+  createReportPhoto(photo: InsertReportPhoto, maxPerReport: number): Promise<ReportPhoto | undefined>;
+  getReportComments(reportId: string): Promise<ReportCommentWithAuthor[]>;
+  createReportComment(comment: InsertReportComment): Promise<ReportCommentWithAuthor>;
+  markReportRead(reportId: string, userId: string): Promise<void>;
+  getUnreadReportCounts(userId: string, driverId?: string): Promise<ReportUnreadCount[]>;
+
+  // Emergencias (botón de pánico)
+  getSosIncidents(filter: { openOnly?: boolean; since?: Date }): Promise<SosIncidentWithDriver[]>;
+  getSosIncident(id: string): Promise<SosIncidentWithDriver | undefined>;
+  getOpenSosIncident(driverId: string): Promise<SosIncident | undefined>;
+  createSosIncident(incident: InsertSosIncident): Promise<SosIncident>;
+  updateSosIncident(id: string, incident: Partial<SosIncident>): Promise<SosIncident | undefined>;
+  getSosEvents(incidentId: string): Promise<SosEventWithActor[]>;
+  addSosEvent(event: InsertSosEvent): Promise<SosEvent>;
+}
+
+export interface ShiftRequestReview {
+  status: "aprobada" | "rechazada";
+  reviewedBy: string;
+  reviewNote: string | null;
+}
+
+// Cambio de turno al aprobar una solicitud: la ocurrencia se retira a su chofer y,
+// en un intercambio, se entrega al otro chofer como turno de fecha única
+export interface ShiftRequestChange {
+  action: "intercambio" | "permiso";
+  shift: Pick<EffectiveShift, "id" | "isRecurring" | "shiftDate" | "driverId">;
+  reason: string;
+  replacement?: InsertAssignment;
 }
 
+// Categorías iniciales de reporte (incluye las históricas atraso, incidente y otro);
+// el administrador puede editarlas, eliminarlas o agregar otras
+const DEFAULT_REPORT_CATEGORIES: InsertReportCategory[] = [
+  { key: "atraso", name: "Atraso", icon: "clock", defaultSeverity: "baja", requiresLocation: false, requiresActiveShift: false, minDescriptionLength: 10, isActive: true, sortOrder: 1 },
+  { key: "averia_mecanica", name: "Avería mecánica", icon: "wrench", defaultSeverity: "alta", requiresLocation: true, requiresActiveShift: true, minDescriptionLength: 10, isActive: true, sortOrder: 2 },
+  { key: "accidente", name: "Accidente", icon: "car", defaultSeverity: "critica", requiresLocation: true, requiresActiveShift: true, minDescriptionLength: 20, isActive: true, sortOrder: 3 },
+  { key: "pasajero_conflictivo", name: "Pasajero conflictivo", icon: "user-x", defaultSeverity: "media", requiresLocation: false, requiresActiveShift: true, minDescriptionLength: 10, isActive: true, sortOrder: 4 },
+  { key: "trafico", name: "Tráfico", icon: "traffic-cone", defaultSeverity: "baja", requiresLocation: true, requiresActiveShift: false, minDescriptionLength: 10, isActive: true, sortOrder: 5 },
+  { key: "desvio", name: "Desvío", icon: "signpost", defaultSeverity: "media", requiresLocation: true, requiresActiveShift: true, minDescriptionLength: 10, isActive: true, sortOrder: 6 },
+  { key: "incidente", name: "Incidente", icon: "alert-triangle", defaultSeverity: "alta", requiresLocation: false, requiresActiveShift: false, minDescriptionLength: 10, isActive: true, sortOrder: 7 },
+  { key: "otro", name: "Otro", icon: "message-circle", defaultSeverity: "baja", requiresLocation: false, requiresActiveShift: false, minDescriptionLength: 10, isActive: true, sortOrder: 8 },
+];
+
 // Implementación de almacenamiento con base de datos PostgreSQL
 export class DatabaseStorage implements IStorage {
   constructor() {
@@ -76,6 +259,13 @@ export class DatabaseStorage implements IStorage {
 
   private async initializeDefaultData() {
     try {
+      // Categorías de reporte: solo si la tabla está vacía al arrancar (instalación nueva o
+      // base anterior a las categorías); después las administra el administrador
+      const existingCategories = await db.select({ id: reportCategories.id }).from(reportCategories).limit(1);
+      if (existingCategories.length === 0) {
+        await db.insert(reportCategories).values(DEFAULT_REPORT_CATEGORIES).onConflictDoNothing();
+      }
+
       // Verificar si ya existen usuarios
       const existingUsers = await db.select().from(users).limit(1);
       if (existingUsers.length > 0) {
@@ -150,7 +340,7 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
+  async createUser(insertUser: InsertUser): Promise<PublicUser> {
     // Hashear la contraseña antes de guardar
     const hashedPassword = await bcrypt.hash(insertUser.password, 10);
     const userWithHashedPassword = {
@@ -161,19 +351,37 @@ export class DatabaseStorage implements IStorage {
     const [user] = await db
       .insert(users)
       .values(userWithHashedPassword)
-      .returning();
+      .returning(publicUserColumns);
     return user;
   }
 
-  async getAllDrivers(): Promise<User[]> {
-    return await db.select().from(users).where(eq(users.role, 'driver'));
+  async getAllDrivers(): Promise<PublicUser[]> {
+    return await db.select(publicUserColumns).from(users).where(eq(users.role, 'driver'));
+  }
+
+  // Datos mínimos de los choferes para la vista pública de pasajeros
+  async getPublicDriverCards(): Promise<PublicDriverCard[]> {
+    return await db
+      .select({
+        id: users.id,
+        fullName: users.fullName,
+        driverStatus: users.driverStatus,
+      })
+      .from(users)
+      .where(eq(users.role, 'driver'));
+  }
+
+  async getAllUsers(): Promise<PublicUser[]> {
+    return await db.select(publicUserColumns).from(users);
   }
 
-  async getAllUsers(): Promise<User[]> {
-    return await db.select().from(users);
+  // Solo los ids, para elegir destinatarios de notificaciones sin cargar a todos los usuarios
+  async getUserIdsByRole(roles: UserRole[]): Promise<string[]> {
+    const rows = await db.select({ id: users.id }).from(users).where(inArray(users.role, roles));
+    return rows.map(row => row.id);
   }
 
-  async updateUser(id: string, userData: Partial<User>): Promise<User | undefined> {
+  async updateUser(id: string, userData: Partial<User>): Promise<PublicUser | undefined> {
     // Si se está actualizando la contraseña, hashearla
     if (userData.password) {
       userData.password = await bcrypt.hash(userData.password, 10);
@@ -183,7 +391,7 @@ export class DatabaseStorage implements IStorage {
       .update(users)
       .set(userData)
       .where(eq(users.id, id))
-      .returning();
+      .returning(publicUserColumns);
     return updatedUser || undefined;
   }
 
@@ -192,6 +400,38 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount || 0) > 0;
   }
 
+  // Métodos para Sessions
+  async createSession(insertSession: InsertSession): Promise<Session> {
+    const [session] = await db
+      .insert(sessions)
+      .values(insertSession)
+      .returning();
+    return session;
+  }
+
+  async getSessionByTokenHash(tokenHash: string): Promise<Session | undefined> {
+    const [session] = await db
+      .select()
+      .from(sessions)
+      .where(eq(sessions.tokenHash, tokenHash));
+    return session || undefined;
+  }
+
+  async revokeSession(id: string): Promise<void> {
+    await db
+      .update(sessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(sessions.id, id), isNull(sessions.revokedAt)));
+  }
+
+  // Revocar todas las sesiones de un usuario (cambio de contraseña, etc.)
+  async revokeUserSessions(userId: string): Promise<void> {
+    await db
+      .update(sessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt)));
+  }
+
   // Métodos para Buses
   async getAllBuses(): Promise<Bus[]> {
     return await db.select().from(buses);
@@ -256,38 +496,113 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount || 0) > 0;
   }
 
+  // Métodos para Stops
+  async getAllStops(): Promise<Stop[]> {
+    return await db.select().from(stops).orderBy(asc(stops.code));
+  }
+
+  async getStop(id: string): Promise<Stop | undefined> {
+    const [stop] = await db.select().from(stops).where(eq(stops.id, id));
+    return stop || undefined;
+  }
+
+  async createStop(insertStop: InsertStop): Promise<Stop> {
+    const [stop] = await db
+      .insert(stops)
+      .values(insertStop)
+      .returning();
+    return stop;
+  }
+
+  async updateStop(id: string, updates: Partial<Stop>): Promise<Stop | undefined> {
+    const [updated] = await db
+      .update(stops)
+      .set(updates)
+      .where(eq(stops.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteStop(id: string): Promise<boolean> {
+    const result = await db.delete(stops).where(eq(stops.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Todas las relaciones ruta-parada, ordenadas por ruta y secuencia
+  async getAllRouteStops(): Promise<RouteStop[]> {
+    return await db
+      .select()
+      .from(routeStops)
+      .orderBy(asc(routeStops.routeId), asc(routeStops.stopSequence));
+  }
+
+  async getRouteStops(routeId: string): Promise<RouteStopWithStop[]> {
+    const rows = await db
+      .select()
+      .from(routeStops)
+      .innerJoin(stops, eq(routeStops.stopId, stops.id))
+      .where(eq(routeStops.routeId, routeId))
+      .orderBy(asc(routeStops.stopSequence));
+    return rows.map((row) => ({ ...row.route_stops, stop: row.stops }));
+  }
+
+  // Reemplazar la secuencia completa de paradas de una ruta
+  async replaceRouteStops(routeId: string, entries: RouteStopsUpdate["stops"]): Promise<RouteStopWithStop[]> {
+    await db.transaction(async (tx) => {
+      await tx.delete(routeStops).where(eq(routeStops.routeId, routeId));
+      if (entries.length > 0) {
+        await tx.insert(routeStops).values(entries.map((entry, index) => ({
+          routeId,
+          stopId: entry.stopId,
+          stopSequence: index + 1,
+          travelOffsetMinutes: entry.travelOffsetMinutes,
+        })));
+      }
+    });
+    return await this.getRouteStops(routeId);
+  }
+
   // Métodos para Assignments
   async getAllAssignments(): Promise<Assignment[]> {
     return await db.select().from(assignments);
   }
 
+  async getAssignment(id: string): Promise<Assignment | undefined> {
+    const [assignment] = await db.select().from(assignments).where(eq(assignments.id, id));
+    return assignment || undefined;
+  }
+
   async getAssignmentsByDriverId(driverId: string): Promise<Assignment[]> {
     return await db.select().from(assignments).where(eq(assignments.driverId, driverId));
   }
 
   async getActiveAssignmentByDriverId(driverId: string): Promise<Assignment | undefined> {
-    const today = new Date().toISOString().split('T')[0];
-    const [assignment] = await db
+    const [shift] = await this.getEffectiveShifts(dateInTimeZone(), driverId);
+    return shift || undefined;
+  }
+
+  // Método para obtener todos los turnos activos de un chofer (perpetuos)
+  async getActiveAssignmentsByDriverId(driverId: string): Promise<Assignment[]> {
+    return await db
       .select()
       .from(assignments)
       .where(
         and(
           eq(assignments.driverId, driverId),
-          eq(assignments.isActive, true),
-          eq(assignments.assignedDate, today)
+          eq(assignments.isActive, true)
         )
-      );
-    return assignment || undefined;
+      )
+      .orderBy(assignments.shiftStart);
   }
 
-  // Método para obtener todos los turnos activos de un chofer (perpetuos)
-  async getActiveAssignmentsByDriverId(driverId: string): Promise<Assignment[]> {
+  // Turnos activos en los que participa un bus
+  async getActiveAssignmentsByBusId(busId: string): Promise<Assignment[]> {
     return await db
       .select()
       .from(assignments)
       .where(
         and(
-          eq(assignments.driverId, driverId),
+          eq(assignments.busId, busId),
           eq(assignments.isActive, true)
         )
       )
@@ -295,44 +610,79 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Método para obtener turno actual y siguiente
-  async getCurrentAndNextShifts(driverId: string): Promise<{ current: Assignment | null, next: Assignment | null }> {
+  async getCurrentAndNextShifts(driverId: string, at: Date = new Date()): Promise<{ current: EffectiveShift | null, next: EffectiveShift | null }> {
     const activeAssignments = await this.getActiveAssignmentsByDriverId(driverId);
     
     if (activeAssignments.length === 0) {
       return { current: null, next: null };
     }
 
-    // Usar zona horaria de Guatemala (GMT-6)
-    const now = new Date();
-    const guatemalaTime = new Date(now.toLocaleString("en-US", {timeZone: "America/Guatemala"}));
-    const currentTime = `${String(guatemalaTime.getHours()).padStart(2, '0')}:${String(guatemalaTime.getMinutes()).padStart(2, '0')}`;
-    
-    let current: Assignment | null = null;
-    let next: Assignment | null = null;
+    // Fecha y minuto del día en la zona horaria de Guatemala
+    const calendar = await this.getServiceCalendar();
+    const today = dateInTimeZone(at);
+    const yesterday = addDays(today, -1);
+    const now = minutesOfDay(at);
 
-    // Buscar turno actual (donde la hora actual está entre shiftStart y shiftEnd)
+    // Turno actual: iniciado hoy, o iniciado ayer si cruza la medianoche y aún no termina
+    let current: EffectiveShift | null = null;
     for (const assignment of activeAssignments) {
-      if (currentTime >= assignment.shiftStart && currentTime <= assignment.shiftEnd) {
-        current = assignment;
+      const start = timeToMinutes(assignment.shiftStart);
+      const end = timeToMinutes(assignment.shiftEnd);
+      const overnight = crossesMidnight(assignment);
+
+      if (now >= start && (overnight || now < end) && isScheduledOn(assignment, today, calendar)) {
+        current = { ...assignment, shiftDate: today };
+        break;
+      }
+      if (overnight && now < end && isScheduledOn(assignment, yesterday, calendar)) {
+        current = { ...assignment, shiftDate: yesterday };
         break;
       }
     }
 
-    // Buscar siguiente turno - algoritmo mejorado
-    // 1. Buscar turnos que inician después de la hora actual
-    let futureShifts = activeAssignments.filter(a => a.shiftStart > currentTime);
-    
-    if (futureShifts.length > 0) {
-      // Hay turnos después de la hora actual
-      next = futureShifts[0]; // El primero en orden alfabético será el más temprano
-    } else {
-      // No hay más turnos después de la hora actual, tomar el primer turno del día (ciclo)
-      next = activeAssignments[0]; // El primero por orden de shiftStart
+    // Siguiente turno: el próximo que inicia según el calendario (las asignaciones vienen ordenadas por hora)
+    let next: EffectiveShift | null = null;
+    for (let day = 0; day <= NEXT_SHIFT_LOOKAHEAD_DAYS && !next; day++) {
+      const date = addDays(today, day);
+      const upcoming = activeAssignments.find(a =>
+        (day > 0 || timeToMinutes(a.shiftStart) > now) && isScheduledOn(a, date, calendar)
+      );
+      if (upcoming) next = { ...upcoming, shiftDate: date };
     }
 
     return { current, next };
   }
 
+  // Turnos que inician en una fecha según las reglas de recurrencia, feriados y excepciones
+  async getEffectiveShifts(date: string, driverId?: string): Promise<EffectiveShift[]> {
+    return this.getEffectiveShiftsBetween(date, date, driverId);
+  }
+
+  // Turnos materializados entre dos fechas (inclusive), ordenados por fecha y hora de inicio
+  async getEffectiveShiftsBetween(from: string, to: string, driverId?: string): Promise<EffectiveShift[]> {
+    const activeAssignments = await db
+      .select()
+      .from(assignments)
+      .where(
+        and(
+          eq(assignments.isActive, true),
+          driverId ? eq(assignments.driverId, driverId) : undefined
+        )
+      )
+      .orderBy(assignments.shiftStart);
+    const calendar = await this.getServiceCalendar();
+
+    const shifts: EffectiveShift[] = [];
+    for (let date = from; date <= to; date = addDays(date, 1)) {
+      for (const assignment of activeAssignments) {
+        if (isScheduledOn(assignment, date, calendar)) {
+          shifts.push({ ...assignment, shiftDate: date });
+        }
+      }
+    }
+    return shifts;
+  }
+
   async createAssignment(insertAssignment: InsertAssignment): Promise<Assignment> {
     const [assignment] = await db
       .insert(assignments)
@@ -341,11 +691,242 @@ export class DatabaseStorage implements IStorage {
     return assignment;
   }
 
+  async updateAssignment(id: string, updates: Partial<InsertAssignment>): Promise<Assignment | undefined> {
+    const [assignment] = await db
+      .update(assignments)
+      .set(updates)
+      .where(eq(assignments.id, id))
+      .returning();
+    return assignment || undefined;
+  }
+
   async deleteAssignment(id: string): Promise<boolean> {
     const result = await db.delete(assignments).where(eq(assignments.id, id));
     return (result.rowCount || 0) > 0;
   }
 
+  // Métodos para el calendario de servicio
+  async getServiceCalendar(): Promise<ServiceCalendar> {
+    const [holidayRows, exceptionRows] = await Promise.all([
+      db.select({ date: holidays.date }).from(holidays),
+      db.select({ assignmentId: assignmentExceptions.assignmentId, date: assignmentExceptions.date }).from(assignmentExceptions),
+    ]);
+
+    const exceptions = new Map<string, Set<string>>();
+    for (const row of exceptionRows) {
+      const dates = exceptions.get(row.assignmentId) || new Set<string>();
+      dates.add(row.date);
+      exceptions.set(row.assignmentId, dates);
+    }
+    return { holidays: new Set(holidayRows.map(row => row.date)), exceptions };
+  }
+
+  async getAllHolidays(): Promise<Holiday[]> {
+    return await db.select().from(holidays).orderBy(asc(holidays.date));
+  }
+
+  async createHoliday(insertHoliday: InsertHoliday): Promise<Holiday> {
+    const [holiday] = await db
+      .insert(holidays)
+      .values(insertHoliday)
+      .returning();
+    return holiday;
+  }
+
+  async deleteHoliday(id: string): Promise<boolean> {
+    const result = await db.delete(holidays).where(eq(holidays.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getAssignmentExceptions(assignmentId: string): Promise<AssignmentException[]> {
+    return await db
+      .select()
+      .from(assignmentExceptions)
+      .where(eq(assignmentExceptions.assignmentId, assignmentId))
+      .orderBy(asc(assignmentExceptions.date));
+  }
+
+  async createAssignmentException(assignmentId: string, insertException: InsertAssignmentException): Promise<AssignmentException> {
+    const [exception] = await db
+      .insert(assignmentExceptions)
+      .values({ ...insertException, assignmentId })
+      .returning();
+    return exception;
+  }
+
+  async deleteAssignmentException(id: string): Promise<boolean> {
+    const result = await db.delete(assignmentExceptions).where(eq(assignmentExceptions.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Cancelar una ocurrencia de un turno recurrente y crear su reemplazo en una sola transacción
+  async replaceAssignmentOccurrence(assignmentId: string, insertException: InsertAssignmentException, replacement: InsertAssignment): Promise<Assignment> {
+    return await db.transaction(async (tx) => {
+      await tx.insert(assignmentExceptions).values({ ...insertException, assignmentId });
+      const [assignment] = await tx.insert(assignments).values(replacement).returning();
+      return assignment;
+    });
+  }
+
+  // Si el administrador aún no configuró los límites se usan los valores por defecto de la tabla
+  async getComplianceLimits(): Promise<ComplianceLimits> {
+    const [limits] = await db.select().from(complianceLimits).where(eq(complianceLimits.id, "default"));
+    if (limits) return limits;
+
+    const [created] = await db
+      .insert(complianceLimits)
+      .values({ id: "default" })
+      .onConflictDoNothing()
+      .returning();
+    return created ?? (await db.select().from(complianceLimits).where(eq(complianceLimits.id, "default")))[0];
+  }
+
+  async updateComplianceLimits(limits: UpdateComplianceLimits, updatedBy: string): Promise<ComplianceLimits> {
+    const values = { ...limits, updatedBy, updatedAt: new Date() };
+    const [updated] = await db
+      .insert(complianceLimits)
+      .values({ id: "default", ...values })
+      .onConflictDoUpdate({ target: complianceLimits.id, set: values })
+      .returning();
+    return updated;
+  }
+
+  async getAttendanceRecord(id: string): Promise<AttendanceRecord | undefined> {
+    const [record] = await db.select().from(attendanceRecords).where(eq(attendanceRecords.id, id));
+    return record || undefined;
+  }
+
+  async getAttendanceForShift(assignmentId: string, shiftDate: string): Promise<AttendanceRecord | undefined> {
+    const [record] = await db
+      .select()
+      .from(attendanceRecords)
+      .where(and(eq(attendanceRecords.assignmentId, assignmentId), eq(attendanceRecords.shiftDate, shiftDate)));
+    return record || undefined;
+  }
+
+  // Registros por fecha de turno (rango inclusivo)
+  async getAttendanceRecords(from: string, to: string, driverId?: string): Promise<AttendanceRecord[]> {
+    return await db
+      .select()
+      .from(attendanceRecords)
+      .where(
+        and(
+          driverId ? eq(attendanceRecords.driverId, driverId) : undefined,
+          gte(attendanceRecords.shiftDate, from),
+          lte(attendanceRecords.shiftDate, to)
+        )
+      )
+      .orderBy(asc(attendanceRecords.shiftDate), asc(attendanceRecords.shiftStart));
+  }
+
+  async createAttendanceRecord(insertRecord: InsertAttendanceRecord): Promise<AttendanceRecord> {
+    const [record] = await db
+      .insert(attendanceRecords)
+      .values(insertRecord)
+      .returning();
+    return record;
+  }
+
+  async updateAttendanceRecord(id: string, updateData: Partial<AttendanceRecord>): Promise<AttendanceRecord | undefined> {
+    const [record] = await db
+      .update(attendanceRecords)
+      .set(updateData)
+      .where(eq(attendanceRecords.id, id))
+      .returning();
+    return record || undefined;
+  }
+
+  // Solicitudes donde el chofer participa como solicitante o como compañero
+  async getShiftRequests(filter: { driverId?: string; status?: string }): Promise<ShiftRequest[]> {
+    return await db
+      .select()
+      .from(shiftRequests)
+      .where(
+        and(
+          filter.driverId
+            ? or(eq(shiftRequests.requesterId, filter.driverId), eq(shiftRequests.targetDriverId, filter.driverId))
+            : undefined,
+          filter.status ? eq(shiftRequests.status, filter.status) : undefined
+        )
+      )
+      .orderBy(desc(shiftRequests.createdAt));
+  }
+
+  async getShiftRequest(id: string): Promise<ShiftRequest | undefined> {
+    const [request] = await db.select().from(shiftRequests).where(eq(shiftRequests.id, id));
+    return request || undefined;
+  }
+
+  async createShiftRequest(insertRequest: InsertShiftRequest): Promise<ShiftRequest> {
+    const [request] = await db
+      .insert(shiftRequests)
+      .values(insertRequest)
+      .returning();
+    return request;
+  }
+
+  async updateShiftRequest(id: string, updateData: Partial<ShiftRequest>): Promise<ShiftRequest | undefined> {
+    const [request] = await db
+      .update(shiftRequests)
+      .set(updateData)
+      .where(eq(shiftRequests.id, id))
+      .returning();
+    return request || undefined;
+  }
+
+  async getAssignmentHistory(requestId: string): Promise<AssignmentHistoryEntry[]> {
+    return await db
+      .select()
+      .from(assignmentHistory)
+      .where(eq(assignmentHistory.requestId, requestId))
+      .orderBy(asc(assignmentHistory.shiftDate));
+  }
+
+  async createAssignmentHistoryEntry(entry: InsertAssignmentHistoryEntry): Promise<AssignmentHistoryEntry> {
+    const [created] = await db
+      .insert(assignmentHistory)
+      .values(entry)
+      .returning();
+    return created;
+  }
+
+  // Resolver una solicitud pendiente y aplicar sus cambios de turno en una sola transacción.
+  // El cambio de estado es condicional: si otro administrador ya la resolvió no se aplica nada
+  // y se devuelve undefined.
+  async completeShiftRequestReview(id: string, review: ShiftRequestReview, changes: ShiftRequestChange[]): Promise<ShiftRequest | undefined> {
+    return await db.transaction(async (tx) => {
+      const [request] = await tx
+        .update(shiftRequests)
+        .set({ ...review, reviewedAt: new Date() })
+        .where(and(eq(shiftRequests.id, id), eq(shiftRequests.status, "pendiente_admin")))
+        .returning();
+      if (!request) return undefined;
+
+      for (const { action, shift, reason, replacement } of changes) {
+        // Las reglas recurrentes reciben una excepción y las de fecha única se desactivan
+        if (shift.isRecurring) {
+          await tx.insert(assignmentExceptions).values({ assignmentId: shift.id, date: shift.shiftDate, reason });
+        } else {
+          await tx.update(assignments).set({ isActive: false }).where(eq(assignments.id, shift.id));
+        }
+
+        const [created] = replacement ? await tx.insert(assignments).values(replacement).returning() : [];
+        await tx.insert(assignmentHistory).values({
+          requestId: id,
+          action,
+          assignmentId: shift.id,
+          newAssignmentId: created?.id ?? null,
+          shiftDate: shift.shiftDate,
+          previousDriverId: shift.driverId,
+          newDriverId: created?.driverId ?? null,
+          changedBy: review.reviewedBy,
+        });
+      }
+
+      return request;
+    });
+  }
+
   // Métodos para Locations
   async updateDriverLocation(insertLocation: InsertLocation): Promise<Location> {
     // Buscar ubicación existente para el chofer
@@ -363,6 +944,7 @@ export class DatabaseStorage implements IStorage {
           longitude: insertLocation.longitude,
           isTransmitting: insertLocation.isTransmitting,
           timestamp: new Date(),
+          signalLostAt: null,
         })
         .where(eq(locations.id, existingLocation.id))
         .returning();
@@ -392,12 +974,17 @@ export class DatabaseStorage implements IStorage {
       .where(eq(locations.isTransmitting, true));
   }
 
+  // La hora de la última posición se actualiza únicamente cuando llega una ubicación real;
+  // al encender la transmisión se registra su inicio para que el watchdog espere la primera
   async setDriverTransmissionStatus(driverId: string, isTransmitting: boolean): Promise<void> {
     await db
       .update(locations)
       .set({ 
         isTransmitting,
-        timestamp: new Date()
+        transmissionStartedAt: isTransmitting
+          ? sql`case when ${locations.isTransmitting} then ${locations.transmissionStartedAt} else now() end`
+          : null,
+        signalLostAt: null
       })
       .where(eq(locations.driverId, driverId));
   }
@@ -407,13 +994,189 @@ export class DatabaseStorage implements IStorage {
       .update(locations)
       .set({ 
         isTransmitting: false,
-        timestamp: new Date()
+        transmissionStartedAt: null,
+        signalLostAt: null
       })
       .where(eq(locations.driverId, driverId));
   }
 
+  // Marcar como "señal perdida" a los choferes que transmiten pero no envían posiciones
+  // desde antes de `lastSeenBefore`; devuelve solo los recién marcados
+  async markLostTransmissions(lastSeenBefore: Date): Promise<Location[]> {
+    return await db
+      .update(locations)
+      .set({ signalLostAt: new Date() })
+      .where(
+        and(
+          eq(locations.isTransmitting, true),
+          isNull(locations.signalLostAt),
+          // Se cuenta desde la última posición o, si es posterior, desde que se encendió la transmisión
+          sql`greatest(${locations.timestamp}, ${locations.transmissionStartedAt}) < ${lastSeenBefore.toISOString()}`
+        )
+      )
+      .returning();
+  }
+
+  // Métodos para el historial de ubicaciones
+  async addLocationHistoryPoint(point: InsertLocationHistoryPoint): Promise<LocationHistoryPoint> {
+    const [inserted] = await db
+      .insert(locationHistory)
+      .values(point)
+      .returning();
+    return inserted;
+  }
+
+  // Historial de un chofer o de un bus (si se indican ambos, deben coincidir los dos)
+  // Recorrido en el rango, reducido en la base de datos a unos maxPoints puntos repartidos
+  // uniformemente (se conserva el último) para no cargar en memoria rangos largos
+  async getLocationHistory(filter: { driverId?: string; busId?: string }, from: Date, to: Date, maxPoints: number): Promise<{ points: LocationHistoryPoint[]; total: number }> {
+    const conditions = and(
+      filter.driverId ? eq(locationHistory.driverId, filter.driverId) : undefined,
+      filter.busId ? eq(locationHistory.busId, filter.busId) : undefined,
+      gte(locationHistory.recordedAt, from),
+      lte(locationHistory.recordedAt, to)
+    );
+
+    const [{ total }] = await db.select({ total: count() }).from(locationHistory).where(conditions);
+    if (total <= maxPoints) {
+      const points = await db.select().from(locationHistory).where(conditions).orderBy(asc(locationHistory.recordedAt));
+      return { points, total };
+    }
+
+    const step = Math.ceil((total - 1) / (maxPoints - 1));
+    const numbered = db
+      .select({
+        ...getTableColumns(locationHistory),
+        rowNumber: sql<number>`row_number() over (order by ${locationHistory.recordedAt})`.as("row_number"),
+      })
+      .from(locationHistory)
+      .where(conditions)
+      .as("numbered");
+    const rows = await db
+      .select()
+      .from(numbered)
+      .where(sql`(${numbered.rowNumber} - 1) % ${step} = 0 or ${numbered.rowNumber} = ${total}`)
+      .orderBy(asc(numbered.recordedAt));
+
+    return { points: rows.map(({ rowNumber, ...point }) => point), total };
+  }
+
+  // Solo las horas de los puntos recibidos, para calcular el tiempo transmitiendo
+  async getTrackedTimestamps(from: Date, to: Date, driverId?: string): Promise<{ driverId: string; recordedAt: Date }[]> {
+    return await db
+      .select({ driverId: locationHistory.driverId, recordedAt: locationHistory.recordedAt })
+      .from(locationHistory)
+      .where(
+        and(
+          driverId ? eq(locationHistory.driverId, driverId) : undefined,
+          gte(locationHistory.recordedAt, from),
+          lte(locationHistory.recordedAt, to)
+        )
+      )
+      .orderBy(asc(locationHistory.driverId), asc(locationHistory.recordedAt));
+  }
+
+  // Puntos registrados durante turnos de una ruta, agrupados por turno y en orden cronológico
+  async getRouteLocationHistory(routeId: string, since: Date): Promise<LocationHistoryPoint[]> {
+    const rows = await db
+      .select({ point: locationHistory })
+      .from(locationHistory)
+      .innerJoin(assignments, eq(locationHistory.assignmentId, assignments.id))
+      .where(
+        and(
+          eq(assignments.scheduleId, routeId),
+          gte(locationHistory.recordedAt, since)
+        )
+      )
+      .orderBy(asc(locationHistory.assignmentId), asc(locationHistory.recordedAt));
+    return rows.map((row) => row.point);
+  }
+
+  // Métodos para alertas de desvío
+  async createOffRouteAlert(alert: InsertOffRouteAlert): Promise<OffRouteAlert> {
+    const [created] = await db
+      .insert(offRouteAlerts)
+      .values(alert)
+      .returning();
+    return created;
+  }
+
+  async updateOffRouteAlert(id: string, updates: Partial<OffRouteAlert>): Promise<OffRouteAlert | undefined> {
+    const [updated] = await db
+      .update(offRouteAlerts)
+      .set(updates)
+      .where(eq(offRouteAlerts.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Alerta sin resolver de un chofer (como máximo una a la vez)
+  async getOpenOffRouteAlert(driverId: string): Promise<OffRouteAlert | undefined> {
+    const [alert] = await db
+      .select()
+      .from(offRouteAlerts)
+      .where(and(eq(offRouteAlerts.driverId, driverId), isNull(offRouteAlerts.resolvedAt)))
+      .orderBy(desc(offRouteAlerts.createdAt))
+      .limit(1);
+    return alert || undefined;
+  }
+
+  async getOffRouteAlerts(filter: { openOnly?: boolean; since?: Date }): Promise<OffRouteAlert[]> {
+    const conditions = [];
+    if (filter.openOnly) conditions.push(isNull(offRouteAlerts.resolvedAt));
+    if (filter.since) conditions.push(gte(offRouteAlerts.createdAt, filter.since));
+
+    return await db
+      .select()
+      .from(offRouteAlerts)
+      .where(and(...conditions))
+      .orderBy(desc(offRouteAlerts.createdAt));
+  }
+
+  // Métodos para categorías de reporte
+  async getReportCategories(): Promise<ReportCategory[]> {
+    return await db.select().from(reportCategories).orderBy(asc(reportCategories.sortOrder), asc(reportCategories.name));
+  }
+
+  async getReportCategory(id: string): Promise<ReportCategory | undefined> {
+    const [category] = await db.select().from(reportCategories).where(eq(reportCategories.id, id));
+    return category || undefined;
+  }
+
+  async getReportCategoryByKey(key: string): Promise<ReportCategory | undefined> {
+    const [category] = await db.select().from(reportCategories).where(eq(reportCategories.key, key));
+    return category || undefined;
+  }
+
+  async createReportCategory(insertCategory: InsertReportCategory): Promise<ReportCategory> {
+    const [category] = await db
+      .insert(reportCategories)
+      .values(insertCategory)
+      .returning();
+    return category;
+  }
+
+  async updateReportCategory(id: string, updateData: Partial<InsertReportCategory>): Promise<ReportCategory | undefined> {
+    const [category] = await db
+      .update(reportCategories)
+      .set(updateData)
+      .where(eq(reportCategories.id, id))
+      .returning();
+    return category || undefined;
+  }
+
+  async deleteReportCategory(id: string): Promise<boolean> {
+    const result = await db.delete(reportCategories).where(eq(reportCategories.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async isReportCategoryInUse(key: string): Promise<boolean> {
+    const [report] = await db.select({ id: reports.id }).from(reports).where(eq(reports.type, key)).limit(1);
+    return !!report;
+  }
+
   // Métodos para Reports
-  async createReport(insertReport: InsertReport): Promise<Report> {
+  async createReport(insertReport: InsertReport & Partial<Pick<Report, "assignmentId" | "busId" | "severity">>): Promise<Report> {
     const [report] = await db
       .insert(reports)
       .values(insertReport)
@@ -421,13 +1184,167 @@ export class DatabaseStorage implements IStorage {
     return report;
   }
 
-  async getAllReports(): Promise<Report[]> {
-    return await db.select().from(reports);
+  async getAllReports(filter: { status?: string } = {}): Promise<Report[]> {
+    return await db
+      .select()
+      .from(reports)
+      .where(filter.status ? eq(reports.status, filter.status) : undefined)
+      .orderBy(desc(reports.createdAt));
+  }
+
+  async getReport(id: string): Promise<Report | undefined> {
+    const [report] = await db.select().from(reports).where(eq(reports.id, id));
+    return report || undefined;
+  }
+
+  async updateReport(id: string, updateData: Partial<Report>): Promise<Report | undefined> {
+    const [report] = await db
+      .update(reports)
+      .set(updateData)
+      .where(eq(reports.id, id))
+      .returning();
+    return report || undefined;
   }
 
   async getReportsByDriverId(driverId: string): Promise<Report[]> {
     return await db.select().from(reports).where(eq(reports.driverId, driverId));
   }
+
+  async getReportPhotos(reportId: string): Promise<ReportPhoto[]> {
+    return await db
+      .select()
+      .from(reportPhotos)
+      .where(eq(reportPhotos.reportId, reportId))
+      .orderBy(asc(reportPhotos.createdAt));
+  }
+
+  async getReportPhoto(id: string): Promise<ReportPhoto | undefined> {
+    const [photo] = await db.select().from(reportPhotos).where(eq(reportPhotos.id, id));
+    return photo || undefined;
+  }
+
+  // Agregar una foto solo si el reporte no alcanzó el máximo; el bloqueo del reporte
+  // serializa las subidas simultáneas. Devuelve undefined si ya no hay cupo.
+  async createReportPhoto(insertPhoto: InsertReportPhoto, maxPerReport: number): Promise<ReportPhoto | undefined> {
+    return await db.transaction(async (tx) => {
+      await tx.select({ id: reports.id }).from(reports).where(eq(reports.id, insertPhoto.reportId)).for("update");
+      const [{ total }] = await tx.select({ total: count() }).from(reportPhotos).where(eq(reportPhotos.reportId, insertPhoto.reportId));
+      if (total >= maxPerReport) return undefined;
+
+      const [photo] = await tx.insert(reportPhotos).values(insertPhoto).returning();
+      return photo;
+    });
+  }
+
+  async getReportComments(reportId: string): Promise<ReportCommentWithAuthor[]> {
+    return await db
+      .select({ ...getTableColumns(reportComments), authorName: users.fullName, authorRole: users.role })
+      .from(reportComments)
+      .innerJoin(users, eq(reportComments.authorId, users.id))
+      .where(eq(reportComments.reportId, reportId))
+      .orderBy(asc(reportComments.createdAt));
+  }
+
+  async createReportComment(insertComment: InsertReportComment): Promise<ReportCommentWithAuthor> {
+    const [comment] = await db
+      .insert(reportComments)
+      .values(insertComment)
+      .returning();
+    const author = await this.getUser(comment.authorId);
+    return { ...comment, authorName: author?.fullName ?? "", authorRole: author?.role ?? "" };
+  }
+
+  async markReportRead(reportId: string, userId: string): Promise<void> {
+    const lastReadAt = new Date();
+    await db
+      .insert(reportReads)
+      .values({ reportId, userId, lastReadAt })
+      .onConflictDoUpdate({ target: [reportReads.reportId, reportReads.userId], set: { lastReadAt } });
+  }
+
+  // Mensajes de otros usuarios posteriores a la última lectura, por reporte.
+  // Con driverId solo se cuentan los reportes de ese chofer.
+  async getUnreadReportCounts(userId: string, driverId?: string): Promise<ReportUnreadCount[]> {
+    return await db
+      .select({ reportId: reportComments.reportId, unreadCount: count() })
+      .from(reportComments)
+      .innerJoin(reports, eq(reportComments.reportId, reports.id))
+      .leftJoin(reportReads, and(eq(reportReads.reportId, reportComments.reportId), eq(reportReads.userId, userId)))
+      .where(
+        and(
+          ne(reportComments.authorId, userId),
+          or(isNull(reportReads.lastReadAt), gt(reportComments.createdAt, reportReads.lastReadAt)),
+          driverId ? eq(reports.driverId, driverId) : undefined
+        )
+      )
+      .groupBy(reportComments.reportId);
+  }
+
+  async getSosIncidents(filter: { openOnly?: boolean; since?: Date }): Promise<SosIncidentWithDriver[]> {
+    const conditions = [];
+    if (filter.openOnly) conditions.push(inArray(sosIncidents.status, [...sosOpenStatuses]));
+    if (filter.since) conditions.push(gte(sosIncidents.triggeredAt, filter.since));
+
+    return await db
+      .select({ ...getTableColumns(sosIncidents), driverName: users.fullName })
+      .from(sosIncidents)
+      .innerJoin(users, eq(sosIncidents.driverId, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(sosIncidents.triggeredAt));
+  }
+
+  async getSosIncident(id: string): Promise<SosIncidentWithDriver | undefined> {
+    const [incident] = await db
+      .select({ ...getTableColumns(sosIncidents), driverName: users.fullName })
+      .from(sosIncidents)
+      .innerJoin(users, eq(sosIncidents.driverId, users.id))
+      .where(eq(sosIncidents.id, id));
+    return incident || undefined;
+  }
+
+  async getOpenSosIncident(driverId: string): Promise<SosIncident | undefined> {
+    const [incident] = await db
+      .select()
+      .from(sosIncidents)
+      .where(and(eq(sosIncidents.driverId, driverId), inArray(sosIncidents.status, [...sosOpenStatuses])))
+      .orderBy(desc(sosIncidents.triggeredAt))
+      .limit(1);
+    return incident || undefined;
+  }
+
+  async createSosIncident(insertIncident: InsertSosIncident): Promise<SosIncident> {
+    const [incident] = await db
+      .insert(sosIncidents)
+      .values(insertIncident)
+      .returning();
+    return incident;
+  }
+
+  async updateSosIncident(id: string, updates: Partial<SosIncident>): Promise<SosIncident | undefined> {
+    const [incident] = await db
+      .update(sosIncidents)
+      .set(updates)
+      .where(eq(sosIncidents.id, id))
+      .returning();
+    return incident || undefined;
+  }
+
+  async getSosEvents(incidentId: string): Promise<SosEventWithActor[]> {
+    return await db
+      .select({ ...getTableColumns(sosEvents), actorName: users.fullName })
+      .from(sosEvents)
+      .leftJoin(users, eq(sosEvents.actorId, users.id))
+      .where(eq(sosEvents.incidentId, incidentId))
+      .orderBy(asc(sosEvents.createdAt));
+  }
+
+  async addSosEvent(insertEvent: InsertSosEvent): Promise<SosEvent> {
+    const [event] = await db
+      .insert(sosEvents)
+      .values(insertEvent)
+      .returning();
+    return event;
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,20 @@
+import { storage } from "./storage";
+import type { Location } from "@shared/schema";
+
+// Los choferes envían su posición cada 15 segundos mientras transmiten
+export const LOCATION_UPDATE_INTERVAL_MS = 15 * 1000;
+// Actualizaciones consecutivas perdidas antes de marcar "señal perdida"
+export const MISSED_UPDATES_BEFORE_LOST = Number(process.env.SIGNAL_LOST_MISSED_UPDATES) || 4;
+
+// Revisar periódicamente qué choferes dejaron de enviar posiciones sin detener la transmisión
+export function startTransmissionWatchdog(onLost: (location: Location) => void): NodeJS.Timeout {
+  return setInterval(async () => {
+    try {
+      const cutoff = new Date(Date.now() - MISSED_UPDATES_BEFORE_LOST * LOCATION_UPDATE_INTERVAL_MS);
+      const lost = await storage.markLostTransmissions(cutoff);
+      lost.forEach(onLost);
+    } catch (error) {
+      console.error('Error en el watchdog de transmisiones:', error);
+    }
+  }, LOCATION_UPDATE_INTERVAL_MS);
+}
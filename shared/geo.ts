@@ -0,0 +1,115 @@
+// Utilidades geográficas compartidas entre cliente y servidor
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_M = 6371000;
+const POLYLINE_PRECISION = 1e5;
+
+// Distancia en metros entre dos puntos (fórmula de haversine)
+export function distanceMeters(a: LatLng, b: LatLng): number {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(h));
+}
+
+function encodeValue(value: number): string {
+  let v = value < 0 ? ~(value << 1) : value << 1;
+  let output = "";
+  while (v >= 0x20) {
+    output += String.fromCharCode((0x20 | (v & 0x1f)) + 63);
+    v >>= 5;
+  }
+  return output + String.fromCharCode(v + 63);
+}
+
+// Codificar una lista de puntos con el algoritmo de polilíneas de Google
+export function encodePolyline(points: LatLng[]): string {
+  let prevLat = 0;
+  let prevLng = 0;
+  let output = "";
+
+  for (const point of points) {
+    const lat = Math.round(point.lat * POLYLINE_PRECISION);
+    const lng = Math.round(point.lng * POLYLINE_PRECISION);
+    output += encodeValue(lat - prevLat) + encodeValue(lng - prevLng);
+    prevLat = lat;
+    prevLng = lng;
+  }
+
+  return output;
+}
+
+// Decodificar una polilínea; lanza un error si el texto está truncado o mal formado
+export function decodePolyline(encoded: string): LatLng[] {
+  const points: LatLng[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const readValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      if (index >= encoded.length) {
+        throw new Error("Polilínea truncada");
+      }
+      byte = encoded.charCodeAt(index++) - 63;
+      if (byte < 0 || byte > 0x3f) {
+        throw new Error("Carácter inválido en la polilínea");
+      }
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += readValue();
+    lng += readValue();
+    points.push({ lat: lat / POLYLINE_PRECISION, lng: lng / POLYLINE_PRECISION });
+  }
+
+  return points;
+}
+
+export function isValidPolyline(encoded: string): boolean {
+  try {
+    return decodePolyline(encoded).every(p => Math.abs(p.lat) <= 90 && Math.abs(p.lng) <= 180);
+  } catch {
+    return false;
+  }
+}
+
+// Distancia en metros desde un punto al segmento a-b (proyección local equirectangular)
+function distanceToSegmentMeters(point: LatLng, a: LatLng, b: LatLng): number {
+  const metersPerDegLat = 111320;
+  const metersPerDegLng = 111320 * Math.cos(point.lat * Math.PI / 180);
+  const ax = (a.lng - point.lng) * metersPerDegLng;
+  const ay = (a.lat - point.lat) * metersPerDegLat;
+  const bx = (b.lng - point.lng) * metersPerDegLng;
+  const by = (b.lat - point.lat) * metersPerDegLat;
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq)) : 0;
+  return Math.hypot(ax + t * dx, ay + t * dy);
+}
+
+// Distancia mínima en metros desde un punto a un trazado
+export function distanceToPathMeters(point: LatLng, path: LatLng[]): number {
+  if (path.length === 0) return Infinity;
+  if (path.length === 1) return distanceMeters(point, path[0]);
+
+  let min = Infinity;
+  for (let i = 0; i < path.length - 1; i++) {
+    min = Math.min(min, distanceToSegmentMeters(point, path[i], path[i + 1]));
+  }
+  return min;
+}
@@ -1,29 +1,69 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, boolean, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, boolean, integer, doublePrecision, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isValidPolyline } from "./geo";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
-  role: text("role").notNull(), // 'admin' | 'driver'
+  role: text("role").notNull(), // 'admin' | 'driver' | 'dispatcher'
   fullName: text("full_name").notNull(),
   licenseNumber: text("license_number"),
   driverStatus: text("driver_status").default("disponible"), // Estado del chofer: 'disponible', 'en_ruta_cargar', 'en_ruta_descargar', 'cargando', 'descargando', 'no_disponible'
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Sesiones emitidas al iniciar sesión (solo se guarda el hash del token)
+export const sessions = pgTable("sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256 del token entregado al cliente
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"), // Se llena al cerrar sesión o al renovar el token
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const routes = pgTable("routes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   routeName: text("route_name").notNull(),
   routeNumber: integer("route_number").notNull(),
   startTime: text("start_time").notNull(), // HH:MM format
   endTime: text("end_time").notNull(), // HH:MM format
+  color: text("color").notNull().default("#2563eb"), // Color de la línea en los mapas (#RRGGBB)
+  shape: text("shape"), // Trazado de la ruta como polilínea codificada (algoritmo de Google)
+  offRouteCorridorMeters: integer("off_route_corridor_meters").notNull().default(150), // Distancia máxima permitida al trazado
+  offRouteGraceSeconds: integer("off_route_grace_seconds").notNull().default(120), // Tiempo fuera del corredor antes de alertar
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Paradas de bus (pueden ser compartidas por varias rutas)
+export const stops = pgTable("stops", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  code: text("code").notNull().unique(), // Código visible en la señalización de la parada
+  latitude: text("latitude").notNull(),
+  longitude: text("longitude").notNull(),
+  wheelchairAccessible: boolean("wheelchair_accessible").default(false), // Acceso para silla de ruedas
+  hasShelter: boolean("has_shelter").default(false), // Techo o caseta de espera
+  hasTactilePaving: boolean("has_tactile_paving").default(false), // Piso podotáctil
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Paradas de cada ruta, en el orden en que las recorre el bus
+export const routeStops = pgTable("route_stops", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  routeId: varchar("route_id").references(() => routes.id, { onDelete: "cascade" }).notNull(),
+  stopId: varchar("stop_id").references(() => stops.id, { onDelete: "cascade" }).notNull(),
+  stopSequence: integer("stop_sequence").notNull(), // Posición de la parada en la ruta (desde 1)
+  travelOffsetMinutes: integer("travel_offset_minutes").notNull().default(0), // Minutos planificados desde la primera parada
+}, (table) => [
+  uniqueIndex("route_stops_route_sequence_idx").on(table.routeId, table.stopSequence),
+]);
+
 // Tabla de buses
 export const buses = pgTable("buses", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -42,13 +82,104 @@ export const assignments = pgTable("assignments", {
   driverId: varchar("driver_id").references(() => users.id).notNull(),
   scheduleId: varchar("schedule_id").references(() => routes.id).notNull(),
   busId: varchar("bus_id").references(() => buses.id).notNull(), // Referencia al bus asignado
-  assignedDate: text("assigned_date").notNull(), // YYYY-MM-DD format
+  assignedDate: text("assigned_date").notNull(), // YYYY-MM-DD format; fecha única o inicio de vigencia si es recurrente
   shiftStart: text("shift_start").notNull(), // HH:MM format
   shiftEnd: text("shift_end").notNull(), // HH:MM format
+  isRecurring: boolean("is_recurring").notNull().default(true), // false: solo opera en assignedDate
+  daysOfWeek: integer("days_of_week").array(), // 0 = domingo ... 6 = sábado; null = todos los días
+  validUntil: text("valid_until"), // YYYY-MM-DD, último día de vigencia (null = sin fin)
+  skipHolidays: boolean("skip_holidays").notNull().default(false), // No opera en los feriados del calendario
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Días en que una asignación recurrente no opera
+export const assignmentExceptions = pgTable("assignment_exceptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  assignmentId: varchar("assignment_id").references(() => assignments.id, { onDelete: "cascade" }).notNull(),
+  date: text("date").notNull(), // YYYY-MM-DD
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("assignment_exceptions_assignment_date_idx").on(table.assignmentId, table.date),
+]);
+
+// Calendario de feriados de la empresa
+export const holidays = pgTable("holidays", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  date: text("date").notNull().unique(), // YYYY-MM-DD
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Límites legales de jornada; una sola fila con id "default" configurable por el administrador
+export const complianceLimits = pgTable("compliance_limits", {
+  id: varchar("id").primaryKey().default("default"),
+  maxDailyHours: doublePrecision("max_daily_hours").notNull().default(8), // Horas máximas por jornada
+  maxWeeklyHours: doublePrecision("max_weekly_hours").notNull().default(48), // Horas máximas de lunes a domingo
+  minRestHours: doublePrecision("min_rest_hours").notNull().default(10), // Descanso mínimo entre turnos
+  updatedAt: timestamp("updated_at").defaultNow(),
+  updatedBy: varchar("updated_by").references(() => users.id, { onDelete: "set null" }),
+});
+
+// Marcas de entrada y salida de los choferes en cada turno
+export const attendanceRecords = pgTable("attendance_records", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  driverId: varchar("driver_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  assignmentId: varchar("assignment_id").references(() => assignments.id, { onDelete: "set null" }),
+  shiftDate: text("shift_date").notNull(), // Fecha en que inicia el turno (YYYY-MM-DD)
+  shiftStart: text("shift_start").notNull(), // Copia del horario para conservar el registro si se borra la asignación
+  shiftEnd: text("shift_end").notNull(),
+  checkInAt: timestamp("check_in_at").defaultNow().notNull(),
+  checkInLatitude: text("check_in_latitude"),
+  checkInLongitude: text("check_in_longitude"),
+  checkOutAt: timestamp("check_out_at"),
+  checkOutLatitude: text("check_out_latitude"),
+  checkOutLongitude: text("check_out_longitude"),
+  lateMinutes: integer("late_minutes").notNull().default(0), // Minutos después del inicio del turno al marcar entrada
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("attendance_records_assignment_date_idx").on(table.assignmentId, table.shiftDate),
+  index("attendance_records_driver_date_idx").on(table.driverId, table.shiftDate),
+]);
+
+// Solicitudes de cambio de turno de los choferes: intercambio con otro chofer o permiso
+export const shiftRequests = pgTable("shift_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: text("type").notNull(), // 'intercambio' | 'permiso'
+  status: text("status").notNull(), // Ver shiftRequestStatuses
+  requesterId: varchar("requester_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  // Intercambio: turno concreto que se cede y, opcionalmente, el que el compañero entrega a cambio
+  assignmentId: varchar("assignment_id").references(() => assignments.id, { onDelete: "set null" }),
+  shiftDate: text("shift_date"),
+  targetDriverId: varchar("target_driver_id").references(() => users.id, { onDelete: "cascade" }),
+  targetAssignmentId: varchar("target_assignment_id").references(() => assignments.id, { onDelete: "set null" }),
+  targetShiftDate: text("target_shift_date"),
+  // Permiso: rango de fechas sin turnos
+  startDate: text("start_date"),
+  endDate: text("end_date"),
+  reason: text("reason"),
+  peerRespondedAt: timestamp("peer_responded_at"),
+  reviewedBy: varchar("reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNote: text("review_note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Historial de cambios aplicados a los turnos al aprobar una solicitud
+export const assignmentHistory = pgTable("assignment_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  requestId: varchar("request_id").references(() => shiftRequests.id, { onDelete: "set null" }),
+  action: text("action").notNull(), // 'intercambio' | 'permiso'
+  assignmentId: varchar("assignment_id").references(() => assignments.id, { onDelete: "set null" }), // Turno original
+  newAssignmentId: varchar("new_assignment_id").references(() => assignments.id, { onDelete: "set null" }), // Turno creado para el otro chofer
+  shiftDate: text("shift_date").notNull(),
+  previousDriverId: varchar("previous_driver_id").references(() => users.id, { onDelete: "set null" }),
+  newDriverId: varchar("new_driver_id").references(() => users.id, { onDelete: "set null" }), // null en los permisos
+  changedBy: varchar("changed_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const locations = pgTable("locations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   driverId: varchar("driver_id").references(() => users.id).notNull(),
@@ -56,26 +187,203 @@ export const locations = pgTable("locations", {
   longitude: text("longitude").notNull(),
   timestamp: timestamp("timestamp").defaultNow(),
   isTransmitting: boolean("is_transmitting").default(false),
+  signalLostAt: timestamp("signal_lost_at"), // Se llena cuando el chofer dejó de enviar posiciones sin detener la transmisión
+  transmissionStartedAt: timestamp("transmission_started_at"), // Inicio de la transmisión en curso, aunque aún no llegue una posición
+});
+
+// Historial de posiciones (solo se agregan filas): un punto por cada ubicación recibida
+export const locationHistory = pgTable("location_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  driverId: varchar("driver_id").references(() => users.id).notNull(),
+  assignmentId: varchar("assignment_id").references(() => assignments.id, { onDelete: "set null" }), // Turno en curso al registrar el punto
+  busId: varchar("bus_id").references(() => buses.id, { onDelete: "set null" }),
+  latitude: text("latitude").notNull(),
+  longitude: text("longitude").notNull(),
+  accuracy: doublePrecision("accuracy"), // Precisión en metros
+  speed: doublePrecision("speed"), // Velocidad en m/s
+  heading: doublePrecision("heading"), // Rumbo en grados (0 = norte)
+  deviceTimestamp: timestamp("device_timestamp"), // Hora reportada por el dispositivo
+  driverStatus: text("driver_status"), // Estado del chofer en el momento del punto
+  recordedAt: timestamp("recorded_at").defaultNow().notNull(), // Hora de recepción en el servidor
+}, (table) => [
+  index("location_history_driver_recorded_idx").on(table.driverId, table.recordedAt),
+  index("location_history_bus_recorded_idx").on(table.busId, table.recordedAt),
+]);
+
+// Alertas de desvío: el bus salió del corredor de su ruta por más del tiempo permitido
+export const offRouteAlerts = pgTable("off_route_alerts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  driverId: varchar("driver_id").references(() => users.id).notNull(),
+  routeId: varchar("route_id").references(() => routes.id, { onDelete: "cascade" }).notNull(),
+  assignmentId: varchar("assignment_id").references(() => assignments.id, { onDelete: "set null" }),
+  busId: varchar("bus_id").references(() => buses.id, { onDelete: "set null" }),
+  latitude: text("latitude").notNull(), // Posición al generarse la alerta
+  longitude: text("longitude").notNull(),
+  distanceMeters: doublePrecision("distance_meters").notNull(), // Distancia al trazado al generarse la alerta
+  maxDistanceMeters: doublePrecision("max_distance_meters").notNull(), // Mayor distancia registrada durante el desvío
+  leftRouteAt: timestamp("left_route_at").notNull(), // Primer punto fuera del corredor
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  resolvedAt: timestamp("resolved_at"), // El bus volvió al corredor o terminó la transmisión
+  acknowledgedAt: timestamp("acknowledged_at"), // Revisada por un administrador
+  acknowledgedBy: varchar("acknowledged_by").references(() => users.id, { onDelete: "set null" }),
+});
+
+// Categorías de reporte administrables; la clave se guarda en reports.type y no cambia
+export const reportCategories = pgTable("report_categories", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  key: text("key").notNull().unique(), // Ej. 'averia_mecanica'
+  name: text("name").notNull(),
+  description: text("description"), // Ayuda que ve el chofer al elegirla
+  icon: text("icon").notNull().default("message-circle"), // Ver reportCategoryIcons
+  defaultSeverity: text("default_severity").notNull().default("media"), // Severidad inicial del reporte
+  requiresLocation: boolean("requires_location").notNull().default(false),
+  requiresActiveShift: boolean("requires_active_shift").notNull().default(false), // Solo durante un turno (bus identificado)
+  minDescriptionLength: integer("min_description_length").notNull().default(10),
+  isActive: boolean("is_active").notNull().default(true), // Las inactivas no se ofrecen pero conservan sus reportes
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const reports = pgTable("reports", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   driverId: varchar("driver_id").references(() => users.id).notNull(),
-  type: text("type").notNull(), // 'atraso', 'incidente', 'otro'
+  type: text("type").notNull(), // Clave de la categoría (reportCategories.key)
   description: text("description").notNull(),
+  // Lugar y servicio en el que ocurrió, capturados al enviar el reporte
+  latitude: text("latitude"),
+  longitude: text("longitude"),
+  assignmentId: varchar("assignment_id").references(() => assignments.id, { onDelete: "set null" }),
+  busId: varchar("bus_id").references(() => buses.id, { onDelete: "set null" }),
+  status: text("status").notNull().default("abierto"), // Ver reportStatuses
+  severity: text("severity").notNull().default("media"), // Ver reportSeverities
+  assignedTo: varchar("assigned_to").references(() => users.id, { onDelete: "set null" }), // Administrador a cargo
+  resolutionNotes: text("resolution_notes"),
   timestamp: timestamp("timestamp").defaultNow(),
   createdAt: timestamp("created_at").defaultNow(),
-});
+  // Momento de cada transición de estado
+  reviewStartedAt: timestamp("review_started_at"),
+  resolvedAt: timestamp("resolved_at"),
+  dismissedAt: timestamp("dismissed_at"),
+  updatedAt: timestamp("updated_at"),
+  updatedBy: varchar("updated_by").references(() => users.id, { onDelete: "set null" }),
+}, (table) => [
+  index("reports_status_idx").on(table.status),
+]);
+
+// Fotos adjuntas a un reporte; el archivo vive en el almacenamiento de archivos y aquí solo su clave
+export const reportPhotos = pgTable("report_photos", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reportId: varchar("report_id").references(() => reports.id, { onDelete: "cascade" }).notNull(),
+  storageKey: text("storage_key").notNull(),
+  mimeType: text("mime_type").notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+  uploadedBy: varchar("uploaded_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("report_photos_report_idx").on(table.reportId),
+]);
+
+// Conversación entre el chofer y los administradores sobre un reporte
+export const reportComments = pgTable("report_comments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reportId: varchar("report_id").references(() => reports.id, { onDelete: "cascade" }).notNull(),
+  authorId: varchar("author_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("report_comments_report_idx").on(table.reportId, table.createdAt),
+]);
+
+// Último momento en que cada usuario leyó la conversación de un reporte (para los no leídos)
+export const reportReads = pgTable("report_reads", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reportId: varchar("report_id").references(() => reports.id, { onDelete: "cascade" }).notNull(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  lastReadAt: timestamp("last_read_at").notNull(),
+}, (table) => [
+  uniqueIndex("report_reads_report_user_idx").on(table.reportId, table.userId),
+]);
+
+// Emergencias activadas por un chofer con el botón de pánico
+export const sosIncidents = pgTable("sos_incidents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  driverId: varchar("driver_id").references(() => users.id).notNull(),
+  assignmentId: varchar("assignment_id").references(() => assignments.id, { onDelete: "set null" }),
+  busId: varchar("bus_id").references(() => buses.id, { onDelete: "set null" }),
+  status: text("status").notNull().default("activa"), // Ver sosStatuses
+  latitude: text("latitude"), // Posición al activarse
+  longitude: text("longitude"),
+  note: text("note"), // Mensaje opcional del chofer
+  triggeredAt: timestamp("triggered_at").defaultNow().notNull(),
+  acknowledgedAt: timestamp("acknowledged_at"), // Un administrador tomó la emergencia (se apaga la alarma)
+  acknowledgedBy: varchar("acknowledged_by").references(() => users.id, { onDelete: "set null" }),
+  closedAt: timestamp("closed_at"), // Cerrada por un administrador o cancelada por el chofer
+  closedBy: varchar("closed_by").references(() => users.id, { onDelete: "set null" }),
+  resolutionNotes: text("resolution_notes"),
+}, (table) => [
+  index("sos_incidents_status_idx").on(table.status),
+]);
+
+// Línea de tiempo de cada emergencia: activación, posiciones, notas y cambios de estado
+export const sosEvents = pgTable("sos_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  incidentId: varchar("incident_id").references(() => sosIncidents.id, { onDelete: "cascade" }).notNull(),
+  type: text("type").notNull(), // Ver sosEventTypes
+  actorId: varchar("actor_id").references(() => users.id, { onDelete: "set null" }), // Nulo en eventos automáticos
+  latitude: text("latitude"),
+  longitude: text("longitude"),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("sos_events_incident_idx").on(table.incidentId, table.createdAt),
+]);
+
+// Roles de usuario: el despachador tiene acceso de solo lectura al panel administrativo
+export const userRoles = ["admin", "driver", "dispatcher"] as const;
+export type UserRole = typeof userRoles[number];
 
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
+}).extend({
+  role: z.enum(userRoles),
 });
 
+export const updateUserSchema = insertUserSchema.partial();
+
 export const insertRouteSchema = createInsertSchema(routes).omit({
   id: true,
   createdAt: true,
+}).extend({
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Color inválido").optional(),
+  shape: z.string().refine(isValidPolyline, "Trazado de ruta inválido").nullish(),
+  offRouteCorridorMeters: z.number().int().min(20, "Mínimo 20 metros").max(2000, "Máximo 2000 metros").optional(),
+  offRouteGraceSeconds: z.number().int().min(0).max(3600, "Máximo 3600 segundos").optional(),
+});
+
+export const insertStopSchema = createInsertSchema(stops).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().min(1, "Nombre es requerido"),
+  code: z.string().min(1, "Código es requerido"),
+  latitude: z.string().refine((value) => Math.abs(parseFloat(value)) <= 90, "Latitud inválida"),
+  longitude: z.string().refine((value) => Math.abs(parseFloat(value)) <= 180, "Longitud inválida"),
+});
+
+// Reemplazo completo de las paradas de una ruta: el orden del arreglo es el orden de recorrido
+export const routeStopsUpdateSchema = z.object({
+  stops: z.array(z.object({
+    stopId: z.string().min(1),
+    travelOffsetMinutes: z.number().int().min(0),
+  })),
+}).refine((update) => new Set(update.stops.map((s) => s.stopId)).size === update.stops.length, {
+  message: "Una parada no puede repetirse en la misma ruta",
+  path: ["stops"],
+}).refine((update) => update.stops.every((s, i) => i === 0 || s.travelOffsetMinutes >= update.stops[i - 1].travelOffsetMinutes), {
+  message: "Los tiempos de recorrido deben ser crecientes",
+  path: ["stops"],
 });
 
 export const insertBusSchema = createInsertSchema(buses).omit({
@@ -83,40 +391,588 @@ export const insertBusSchema = createInsertSchema(buses).omit({
   createdAt: true,
 });
 
-export const insertAssignmentSchema = createInsertSchema(assignments).omit({
+const shiftTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Hora inválida (HH:MM)");
+const calendarDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Fecha inválida (AAAA-MM-DD)");
+
+const assignmentFieldsSchema = createInsertSchema(assignments).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  assignedDate: calendarDateSchema,
+  shiftStart: shiftTimeSchema,
+  shiftEnd: shiftTimeSchema,
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).min(1, "Seleccione al menos un día").nullish(),
+  validUntil: calendarDateSchema.nullish(),
+});
+
+type AssignmentFields = Pick<z.infer<typeof assignmentFieldsSchema>, "shiftStart" | "shiftEnd" | "assignedDate" | "validUntil">;
+
+// Un fin menor que el inicio indica un turno nocturno que termina al día siguiente
+const validateAssignment = (data: AssignmentFields, ctx: z.RefinementCtx) => {
+  if (data.shiftStart === data.shiftEnd) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "El turno debe terminar a una hora distinta a la de inicio", path: ["shiftEnd"] });
+  }
+  if (data.validUntil && data.validUntil < data.assignedDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "La vigencia debe terminar después de su inicio", path: ["validUntil"] });
+  }
+};
+
+export const insertAssignmentSchema = assignmentFieldsSchema.superRefine(validateAssignment);
+
+// Creación de asignación: `override` confirma que se aceptan los conflictos que admiten excepción
+export const createAssignmentSchema = assignmentFieldsSchema.extend({
+  override: z.boolean().optional(),
+}).superRefine(validateAssignment);
+
+export const insertAssignmentExceptionSchema = createInsertSchema(assignmentExceptions).omit({
+  id: true,
+  assignmentId: true,
+  createdAt: true,
+}).extend({
+  date: calendarDateSchema,
+});
+
+// Fecha para materializar turnos (por defecto, hoy en la zona horaria de la operación)
+export const shiftsQuerySchema = z.object({
+  date: calendarDateSchema.optional(),
+});
+
+// Planificador semanal: semana consultada y operaciones sobre turnos concretos (asignación + fecha)
+export const rosterQuerySchema = z.object({
+  weekStart: calendarDateSchema,
+});
+
+const rosterOccurrenceSchema = z.object({
+  assignmentId: z.string().min(1),
+  date: calendarDateSchema,
+});
+
+export const rosterMoveSchema = rosterOccurrenceSchema.extend({
+  driverId: z.string().min(1),
+  targetDate: calendarDateSchema,
+  override: z.boolean().optional(),
+});
+
+export const rosterCopyWeekSchema = z.object({
+  fromWeekStart: calendarDateSchema,
+  toWeekStart: calendarDateSchema,
+}).refine(data => data.fromWeekStart !== data.toWeekStart, {
+  message: "La semana de destino debe ser distinta a la de origen",
+  path: ["toWeekStart"],
+});
+
+export const rosterBulkCreateSchema = z.object({
+  cells: z.array(z.object({ driverId: z.string().min(1), date: calendarDateSchema })).min(1).max(200),
+  scheduleId: z.string().min(1),
+  busId: z.string().min(1),
+  shiftStart: shiftTimeSchema,
+  shiftEnd: shiftTimeSchema,
+  override: z.boolean().optional(),
+}).refine(data => data.shiftStart !== data.shiftEnd, {
+  message: "El turno debe terminar a una hora distinta a la de inicio",
+  path: ["shiftEnd"],
+});
+
+export const rosterBulkDeleteSchema = z.object({
+  occurrences: z.array(rosterOccurrenceSchema).min(1).max(500),
+});
+
+// Generación automática de turnos a partir del horario de operación de las rutas
+export const rosterGenerateSchema = z.object({
+  from: calendarDateSchema,
+  to: calendarDateSchema,
+  routeIds: z.array(z.string().min(1)).optional(), // Por defecto, todas las rutas activas
+  // Por defecto, los límites de jornada configurados; solo se aceptan valores más estrictos
+  maxHoursPerDay: z.number().min(1).max(24).optional(),
+  minRestHours: z.number().min(0).max(48).optional(),
+  busesPerRoute: z.number().int().min(1).max(20).default(1),
+}).refine(data => data.to >= data.from, {
+  message: "La fecha final debe ser posterior a la inicial",
+  path: ["to"],
+}).refine(data => Date.parse(data.to) - Date.parse(data.from) <= 30 * 24 * 60 * 60 * 1000, {
+  message: "El rango no puede superar 31 días",
+  path: ["to"],
+});
+
+const proposedShiftSchema = z.object({
+  driverId: z.string().min(1),
+  scheduleId: z.string().min(1),
+  busId: z.string().min(1),
+  assignedDate: calendarDateSchema,
+  shiftStart: shiftTimeSchema,
+  shiftEnd: shiftTimeSchema,
+});
+
+export const rosterCommitSchema = z.object({
+  shifts: z.array(proposedShiftSchema).min(1).max(1000),
+  override: z.boolean().optional(),
+});
+
+export const insertHolidaySchema = createInsertSchema(holidays).omit({
   id: true,
   createdAt: true,
+}).extend({
+  date: calendarDateSchema,
+  name: z.string().min(1, "El nombre es requerido"),
+});
+
+export const updateComplianceLimitsSchema = z.object({
+  maxDailyHours: z.number().min(1, "Mínimo 1 hora").max(24, "Máximo 24 horas"),
+  maxWeeklyHours: z.number().min(1, "Mínimo 1 hora").max(168, "Máximo 168 horas"),
+  minRestHours: z.number().min(0).max(48, "Máximo 48 horas"),
+}).refine(data => data.maxWeeklyHours >= data.maxDailyHours, {
+  message: "El máximo semanal no puede ser menor que el diario",
+  path: ["maxWeeklyHours"],
+});
+
+// Reportes por chofer (cumplimiento, asistencia): rango de fechas y, opcionalmente, un solo chofer
+const driverReportQuerySchema = z.object({
+  from: calendarDateSchema,
+  to: calendarDateSchema,
+  driverId: z.string().min(1).optional(),
+}).refine(data => data.to >= data.from, {
+  message: "La fecha final debe ser posterior a la inicial",
+  path: ["to"],
+}).refine(data => Date.parse(data.to) - Date.parse(data.from) <= 30 * 24 * 60 * 60 * 1000, {
+  message: "El rango no puede superar 31 días",
+  path: ["to"],
+});
+
+export const complianceReportQuerySchema = driverReportQuerySchema;
+export const attendanceReportQuerySchema = driverReportQuerySchema;
+
+// Posición opcional capturada por el dispositivo (marcas de asistencia, reportes)
+const capturedPositionSchema = z.object({
+  latitude: z.string().refine((value) => Math.abs(parseFloat(value)) <= 90, "Latitud inválida").nullish(),
+  longitude: z.string().refine((value) => Math.abs(parseFloat(value)) <= 180, "Longitud inválida").nullish(),
+});
+
+export const checkInSchema = capturedPositionSchema.extend({
+  assignmentId: z.string().min(1),
+  shiftDate: calendarDateSchema,
+});
+
+export const checkOutSchema = capturedPositionSchema;
+
+export const shiftRequestTypes = ["intercambio", "permiso"] as const;
+// El intercambio espera primero al compañero; el permiso va directo al administrador
+export const shiftRequestStatuses = ["pendiente_chofer", "pendiente_admin", "aprobada", "rechazada", "cancelada"] as const;
+
+export const createShiftRequestSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("intercambio"),
+    assignmentId: z.string().min(1),
+    shiftDate: calendarDateSchema,
+    targetDriverId: z.string().min(1, "Seleccione al compañero"),
+    reason: z.string().max(500).nullish(),
+  }),
+  z.object({
+    type: z.literal("permiso"),
+    startDate: calendarDateSchema,
+    endDate: calendarDateSchema,
+    reason: z.string().min(1, "Indique el motivo del permiso").max(500),
+  }),
+]).superRefine((data, ctx) => {
+  if (data.type !== "permiso") return;
+  if (data.endDate < data.startDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "La fecha final debe ser posterior a la inicial", path: ["endDate"] });
+  } else if (Date.parse(data.endDate) - Date.parse(data.startDate) > 30 * 24 * 60 * 60 * 1000) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "El permiso no puede superar 31 días", path: ["endDate"] });
+  }
+});
+
+// Respuesta del compañero; al aceptar puede ofrecer uno de sus turnos a cambio
+export const respondShiftRequestSchema = z.object({
+  accept: z.boolean(),
+  targetAssignmentId: z.string().min(1).optional(),
+  targetShiftDate: calendarDateSchema.optional(),
+}).refine(data => !data.targetAssignmentId === !data.targetShiftDate, {
+  message: "Indique el turno y la fecha que entrega a cambio",
+  path: ["targetShiftDate"],
+});
+
+export const reviewShiftRequestSchema = z.object({
+  approve: z.boolean(),
+  note: z.string().max(500).nullish(),
+  override: z.boolean().optional(),
+});
+
+export const upcomingShiftsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(31).default(14),
 });
 
 export const insertLocationSchema = createInsertSchema(locations).omit({
   id: true,
   timestamp: true,
+  signalLostAt: true,
+  transmissionStartedAt: true,
+});
+
+export const insertLocationHistorySchema = createInsertSchema(locationHistory).omit({
+  id: true,
+  recordedAt: true,
 });
 
+// Ubicación enviada por el chofer: posición actual más los datos opcionales del GPS
+export const locationUpdateSchema = insertLocationSchema.extend({
+  accuracy: z.number().nonnegative().nullish(),
+  speed: z.number().nonnegative().nullish(),
+  heading: z.number().min(0).max(360).nullish(),
+  deviceTimestamp: z.coerce.date().nullish(),
+});
+
+// Consulta de historial: rango de tiempo obligatorio y límite de puntos devueltos
+export const locationHistoryQuerySchema = z.object({
+  driverId: z.string().min(1).optional(),
+  busId: z.string().min(1).optional(),
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  maxPoints: z.coerce.number().int().min(2).max(5000).default(500),
+}).refine((query) => !!query.driverId || !!query.busId, {
+  message: "Debe indicar un chofer o un bus",
+  path: ["driverId"],
+}).refine((query) => query.from < query.to, {
+  message: "El inicio del rango debe ser anterior al fin",
+  path: ["from"],
+}).refine((query) => query.to.getTime() - query.from.getTime() <= 31 * 24 * 60 * 60 * 1000, {
+  message: "El rango no puede superar 31 días",
+  path: ["to"],
+});
+
+// El estado, la severidad y la asignación los gestiona el administrador.
+// El turno y el bus los completa el servidor con el servicio activo del chofer.
 export const insertReportSchema = createInsertSchema(reports).omit({
   id: true,
+  latitude: true,
+  longitude: true,
+  assignmentId: true,
+  busId: true,
+  status: true,
+  severity: true,
+  assignedTo: true,
+  resolutionNotes: true,
   timestamp: true,
   createdAt: true,
+  reviewStartedAt: true,
+  resolvedAt: true,
+  dismissedAt: true,
+  updatedAt: true,
+  updatedBy: true,
+}).merge(capturedPositionSchema);
+
+// Fotos de reportes: tipos aceptados, tamaño máximo por archivo y cantidad por reporte
+export const reportPhotoMimeTypes = ["image/jpeg", "image/png", "image/webp"] as const;
+export const REPORT_PHOTO_MAX_BYTES = 5 * 1024 * 1024;
+export const REPORT_PHOTO_MAX_COUNT = 5;
+
+export const reportStatuses = ["abierto", "en_revision", "resuelto", "descartado"] as const;
+export const reportSeverities = ["baja", "media", "alta", "critica"] as const;
+
+// Estados a los que se puede pasar desde cada estado; los cerrados solo se pueden reabrir
+export const reportStatusTransitions: Record<typeof reportStatuses[number], readonly (typeof reportStatuses[number])[]> = {
+  abierto: ["en_revision", "resuelto", "descartado"],
+  en_revision: ["abierto", "resuelto", "descartado"],
+  resuelto: ["abierto"],
+  descartado: ["abierto"],
+};
+
+// Íconos disponibles para las categorías (nombres de lucide)
+export const reportCategoryIcons = [
+  "alert-triangle", "clock", "wrench", "car", "user-x", "traffic-cone", "signpost", "message-circle",
+] as const;
+
+export const insertReportCategorySchema = createInsertSchema(reportCategories).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  key: z.string().regex(/^[a-z0-9_]+$/, "Use minúsculas, números y guiones bajos").max(40),
+  name: z.string().trim().min(1, "El nombre es requerido").max(60),
+  icon: z.enum(reportCategoryIcons),
+  defaultSeverity: z.enum(reportSeverities),
+  minDescriptionLength: z.number().int().min(1).max(500),
+});
+
+// La clave no se puede cambiar porque la referencian los reportes existentes
+export const updateReportCategorySchema = insertReportCategorySchema.omit({ key: true }).partial();
+
+export const createReportCommentSchema = z.object({
+  body: z.string().trim().min(1, "Escriba un mensaje").max(1000, "El mensaje no puede exceder 1000 caracteres"),
+});
+
+// Emergencias: "activa" hace sonar la alarma hasta que un administrador la reconoce
+export const sosStatuses = ["activa", "reconocida", "cancelada", "cerrada"] as const;
+export const sosOpenStatuses = ["activa", "reconocida"] as const;
+export const sosEventTypes = ["activada", "ubicacion", "reconocida", "nota", "cancelada", "cerrada"] as const;
+// Intervalo de transmisión forzado mientras la emergencia está abierta
+export const SOS_LOCATION_INTERVAL_MS = 5000;
+
+export const triggerSosSchema = capturedPositionSchema.extend({
+  note: z.string().trim().max(500, "El mensaje no puede exceder 500 caracteres").optional(),
+});
+
+export const sosNoteSchema = z.object({
+  note: z.string().trim().min(1, "Escriba una nota").max(1000, "La nota no puede exceder 1000 caracteres"),
+});
+
+export const cancelSosSchema = z.object({
+  note: z.string().trim().max(500).optional(),
+});
+
+export const closeSosSchema = z.object({
+  resolutionNotes: z.string().trim().min(1, "Describa cómo se atendió la emergencia").max(2000),
+});
+
+export const updateReportSchema = z.object({
+  status: z.enum(reportStatuses).optional(),
+  severity: z.enum(reportSeverities).optional(),
+  assignedTo: z.string().min(1).nullable().optional(),
+  resolutionNotes: z.string().max(2000).nullable().optional(),
+}).refine(data => Object.values(data).some(value => value !== undefined), {
+  message: "No hay cambios que aplicar",
+});
+
+export const reportsQuerySchema = z.object({
+  status: z.enum(reportStatuses).optional(),
 });
 
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+// Proyección pública de un usuario: nunca incluye el hash de la contraseña
+export type PublicUser = Omit<User, "password">;
+// Tarjeta mínima de chofer para la vista de pasajeros
+export type PublicDriverCard = Pick<User, "id" | "fullName" | "driverStatus">;
+
+export type Session = typeof sessions.$inferSelect;
+export type InsertSession = typeof sessions.$inferInsert;
 
 export type Route = typeof routes.$inferSelect;
 export type InsertRoute = z.infer<typeof insertRouteSchema>;
 
+export type Stop = typeof stops.$inferSelect;
+export type InsertStop = z.infer<typeof insertStopSchema>;
+
+export type RouteStop = typeof routeStops.$inferSelect;
+export type InsertRouteStop = typeof routeStops.$inferInsert;
+export type RouteStopsUpdate = z.infer<typeof routeStopsUpdateSchema>;
+// Parada de una ruta junto con los datos de la parada
+export type RouteStopWithStop = RouteStop & { stop: Stop };
+
 export type Bus = typeof buses.$inferSelect;
 export type InsertBus = z.infer<typeof insertBusSchema>;
 
 export type Assignment = typeof assignments.$inferSelect;
 export type InsertAssignment = z.infer<typeof insertAssignmentSchema>;
+export type CreateAssignmentRequest = z.infer<typeof createAssignmentSchema>;
+export type AssignmentException = typeof assignmentExceptions.$inferSelect;
+export type InsertAssignmentException = z.infer<typeof insertAssignmentExceptionSchema>;
+export type Holiday = typeof holidays.$inferSelect;
+export type InsertHoliday = z.infer<typeof insertHolidaySchema>;
+
+// Turno materializado: una asignación en una fecha concreta en la que opera
+export type EffectiveShift = Assignment & {
+  shiftDate: string; // YYYY-MM-DD en que inicia el turno
+};
+
+export type RosterMoveRequest = z.infer<typeof rosterMoveSchema>;
+export type RosterCopyWeekRequest = z.infer<typeof rosterCopyWeekSchema>;
+export type RosterBulkCreateRequest = z.infer<typeof rosterBulkCreateSchema>;
+export type RosterBulkDeleteRequest = z.infer<typeof rosterBulkDeleteSchema>;
+export type RosterGenerateRequest = z.infer<typeof rosterGenerateSchema>;
+export type RosterCommitRequest = z.infer<typeof rosterCommitSchema>;
+export type ProposedShift = z.infer<typeof proposedShiftSchema>;
+
+// Propuesta de turnos generada automáticamente; no se guarda hasta que el administrador la confirma
+export interface RosterProposal {
+  from: string;
+  to: string;
+  shifts: ProposedShift[];
+  unfilled: { scheduleId: string; date: string; shiftStart: string; shiftEnd: string; reason: string }[];
+}
+
+export type RosterShift = EffectiveShift & {
+  conflicts: AssignmentConflict[];
+};
+
+export interface WeekRosterResponse {
+  weekStart: string;
+  days: string[]; // Siete fechas YYYY-MM-DD desde weekStart
+  holidays: Holiday[];
+  shifts: RosterShift[];
+}
+
+// Resultado de las operaciones masivas: lo que se creó y lo que se omitió por conflictos
+export interface RosterBulkResult {
+  created: number;
+  skipped: { driverId: string; date: string; conflicts: AssignmentConflict[] }[];
+}
+
+export const assignmentConflictTypes = [
+  "driver_overlap",
+  "bus_overlap",
+  "bus_unavailable",
+  "route_inactive",
+  "daily_hours_exceeded",
+  "weekly_hours_exceeded",
+  "insufficient_rest",
+] as const;
+export type AssignmentConflictType = typeof assignmentConflictTypes[number];
+
+// Conflicto detectado al validar una asignación nueva
+export interface AssignmentConflict {
+  type: AssignmentConflictType;
+  message: string;
+  assignmentId?: string; // Asignación existente con la que se traslapa
+  overridable: boolean; // Si el administrador puede crearla de todos modos
+}
+
+export type ComplianceLimits = typeof complianceLimits.$inferSelect;
+export type UpdateComplianceLimits = z.infer<typeof updateComplianceLimitsSchema>;
+export type ComplianceReportQuery = z.infer<typeof complianceReportQuerySchema>;
+
+// Incumplimiento de jornada: "programado" según las asignaciones, "real" según la transmisión
+export interface ComplianceViolation {
+  type: "daily_hours" | "weekly_hours" | "rest";
+  source: "programado" | "real";
+  date: string; // Día del incumplimiento (lunes de la semana para los semanales)
+  message: string;
+}
+
+// Horas de un chofer en un día o semana, en minutos
+export interface DriverHoursTotal {
+  scheduledMinutes: number;
+  workedMinutes: number; // Tiempo transmitiendo ubicación
+}
+
+export interface DriverComplianceReport {
+  driverId: string;
+  days: (DriverHoursTotal & { date: string })[];
+  weeks: (DriverHoursTotal & { weekStart: string })[];
+  violations: ComplianceViolation[];
+}
+
+export interface ComplianceReportResponse {
+  from: string;
+  to: string;
+  limits: ComplianceLimits;
+  drivers: DriverComplianceReport[];
+}
+
+export type AttendanceRecord = typeof attendanceRecords.$inferSelect;
+export type InsertAttendanceRecord = typeof attendanceRecords.$inferInsert;
+export type CheckInRequest = z.infer<typeof checkInSchema>;
+export type CheckOutRequest = z.infer<typeof checkOutSchema>;
+export type AttendanceReportQuery = z.infer<typeof attendanceReportQuerySchema>;
+
+// Asistencia de un turno: "pendiente" aún no inicia (o está dentro de la tolerancia) y
+// "ausente" ya superó el plazo sin marca de entrada
+export type AttendanceStatus = "a_tiempo" | "tarde" | "ausente" | "pendiente";
+
+export interface AttendanceReportRow {
+  driverId: string;
+  assignmentId: string | null;
+  scheduleId: string | null;
+  shiftDate: string;
+  shiftStart: string;
+  shiftEnd: string;
+  status: AttendanceStatus;
+  record: AttendanceRecord | null;
+}
+
+export interface AttendanceReportResponse {
+  from: string;
+  to: string;
+  rows: AttendanceReportRow[];
+}
+
+export type ShiftRequest = typeof shiftRequests.$inferSelect;
+export type InsertShiftRequest = typeof shiftRequests.$inferInsert;
+export type ShiftRequestType = typeof shiftRequestTypes[number];
+export type ShiftRequestStatus = typeof shiftRequestStatuses[number];
+export type CreateShiftRequest = z.infer<typeof createShiftRequestSchema>;
+export type RespondShiftRequest = z.infer<typeof respondShiftRequestSchema>;
+export type ReviewShiftRequest = z.infer<typeof reviewShiftRequestSchema>;
+// Solicitud con el horario de los turnos involucrados (los choferes no ven las asignaciones ajenas)
+export type ShiftSummary = Pick<Assignment, "scheduleId" | "busId" | "shiftStart" | "shiftEnd">;
+export type ShiftRequestWithShifts = ShiftRequest & {
+  shift: ShiftSummary | null;
+  targetShift: ShiftSummary | null;
+};
+export type AssignmentHistoryEntry = typeof assignmentHistory.$inferSelect;
+export type InsertAssignmentHistoryEntry = typeof assignmentHistory.$inferInsert;
 
 export type Location = typeof locations.$inferSelect;
 export type InsertLocation = z.infer<typeof insertLocationSchema>;
 
+export type LocationHistoryPoint = typeof locationHistory.$inferSelect;
+export type InsertLocationHistoryPoint = z.infer<typeof insertLocationHistorySchema>;
+export type LocationUpdate = z.infer<typeof locationUpdateSchema>;
+
+// Respuesta de GET /api/locations/history
+export interface LocationHistoryResponse {
+  driverId: string | null;
+  busId: string | null;
+  from: string;
+  to: string;
+  totalPoints: number;
+  downsampled: boolean; // true si se redujo la cantidad de puntos
+  points: LocationHistoryPoint[];
+}
+
+export type OffRouteAlert = typeof offRouteAlerts.$inferSelect;
+export type InsertOffRouteAlert = typeof offRouteAlerts.$inferInsert;
+
+// Llegada estimada de un bus a una parada (GET /api/stops/:id/arrivals)
+export interface StopArrival {
+  driverId: string;
+  busId: string | null;
+  routeId: string;
+  routeName: string;
+  routeColor: string;
+  etaMinutes: number;
+  expectedAt: string; // ISO 8601
+  source: "historico" | "planificado"; // Origen de los tiempos de recorrido usados
+}
+
+export interface StopArrivalsResponse {
+  stopId: string;
+  generatedAt: string;
+  arrivals: StopArrival[];
+}
+
 export type Report = typeof reports.$inferSelect;
 export type InsertReport = z.infer<typeof insertReportSchema>;
+export type ReportStatus = typeof reportStatuses[number];
+export type ReportSeverity = typeof reportSeverities[number];
+export type UpdateReport = z.infer<typeof updateReportSchema>;
+export type ReportCategory = typeof reportCategories.$inferSelect;
+export type InsertReportCategory = z.infer<typeof insertReportCategorySchema>;
+export type UpdateReportCategory = z.infer<typeof updateReportCategorySchema>;
+export type ReportCategoryIcon = typeof reportCategoryIcons[number];
+export type ReportPhoto = typeof reportPhotos.$inferSelect;
+export type InsertReportPhoto = typeof reportPhotos.$inferInsert;
+export type ReportComment = typeof reportComments.$inferSelect;
+export type InsertReportComment = typeof reportComments.$inferInsert;
+export type CreateReportComment = z.infer<typeof createReportCommentSchema>;
+// Los choferes no pueden consultar usuarios: el nombre del autor viaja con el mensaje
+export type ReportCommentWithAuthor = ReportComment & {
+  authorName: string;
+  authorRole: string;
+};
+export interface ReportUnreadCount {
+  reportId: string;
+  unreadCount: number;
+}
+export type SosIncident = typeof sosIncidents.$inferSelect;
+export type InsertSosIncident = typeof sosIncidents.$inferInsert;
+export type SosEvent = typeof sosEvents.$inferSelect;
+export type InsertSosEvent = typeof sosEvents.$inferInsert;
+export type SosStatus = typeof sosStatuses[number];
+export type SosEventType = typeof sosEventTypes[number];
+export type TriggerSos = z.infer<typeof triggerSosSchema>;
+// El nombre del chofer viaja con la emergencia para mostrar la alarma sin más consultas
+export type SosIncidentWithDriver = SosIncident & { driverName: string };
+export type SosEventWithActor = SosEvent & { actorName: string | null };
 
 // Login schema
 export const loginSchema = z.object({
@@ -125,3 +981,17 @@ export const loginSchema = z.object({
 });
 
 export type LoginRequest = z.infer<typeof loginSchema>;
+
+// Respuesta de login/renovación: usuario autenticado y token de sesión
+export interface AuthSessionResponse {
+  user: {
+    id: string;
+    username: string;
+    role: string;
+    fullName: string;
+    licenseNumber: string | null;
+    driverStatus: string | null;
+  };
+  token: string;
+  expiresAt: string; // ISO 8601
+}
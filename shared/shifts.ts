@@ -0,0 +1,169 @@
+// Utilidades de horarios de turno compartidas entre cliente y servidor.
+// Los turnos usan horas "HH:MM"; cuando la hora de fin es menor que la de inicio
+// (p. ej. 22:00 - 06:00) el turno termina al día siguiente.
+
+export interface ShiftWindow {
+  shiftStart: string; // HH:MM
+  shiftEnd: string; // HH:MM
+}
+
+export type ShiftPhase = "en_curso" | "completado" | "pendiente";
+
+// Zona horaria de la operación
+export const AGENCY_TIME_ZONE = "America/Guatemala";
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+// Minuto del día (0-1439) de una fecha en la zona horaria de la operación
+export function minutesOfDay(date: Date = new Date(), timeZone: string = AGENCY_TIME_ZONE): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+    timeZone,
+  }).formatToParts(date);
+  const hours = Number(parts.find(p => p.type === "hour")?.value ?? 0);
+  const minutes = Number(parts.find(p => p.type === "minute")?.value ?? 0);
+  return hours * 60 + minutes;
+}
+
+// Hora "HH:MM" de un minuto (se admite cualquier entero; se normaliza al día)
+export const minutesToTime = (minutes: number): string => {
+  const normalized = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return `${String(Math.floor(normalized / 60)).padStart(2, "0")}:${String(normalized % 60).padStart(2, "0")}`;
+};
+
+export const crossesMidnight = (shift: ShiftWindow): boolean => shift.shiftEnd < shift.shiftStart;
+
+export const shiftDurationMinutes = (shift: ShiftWindow): number =>
+  (timeToMinutes(shift.shiftEnd) - timeToMinutes(shift.shiftStart) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+
+// Si el turno está en curso en el minuto del día indicado (fin exclusivo)
+export function isShiftActiveAt(shift: ShiftWindow, minute: number): boolean {
+  const start = timeToMinutes(shift.shiftStart);
+  const end = timeToMinutes(shift.shiftEnd);
+  return crossesMidnight(shift)
+    ? minute >= start || minute < end
+    : minute >= start && minute < end;
+}
+
+// Minutos que faltan para que termine el turno (asume que está en curso)
+export const minutesUntilShiftEnd = (shift: ShiftWindow, minute: number): number =>
+  (timeToMinutes(shift.shiftEnd) - minute + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+
+// Estado del turno que inicia hoy; un turno nocturno sigue en curso hasta el final del día
+export function getShiftPhase(shift: ShiftWindow, minute: number): ShiftPhase {
+  if (minute < timeToMinutes(shift.shiftStart)) return "pendiente";
+  return crossesMidnight(shift) || minute < timeToMinutes(shift.shiftEnd) ? "en_curso" : "completado";
+}
+
+// Texto "HH:MM - HH:MM" con indicación cuando el turno termina al día siguiente
+export const formatShiftWindow = (shift: ShiftWindow): string =>
+  `${shift.shiftStart} - ${shift.shiftEnd}${crossesMidnight(shift) ? " (+1 día)" : ""}`;
+
+// Reglas de recurrencia de una asignación (ver tabla assignments)
+export interface RecurrenceRule {
+  id: string;
+  assignedDate: string; // Fecha única o inicio de vigencia (YYYY-MM-DD)
+  isRecurring: boolean;
+  daysOfWeek: number[] | null; // 0 = domingo; null = todos los días
+  validUntil: string | null;
+  skipHolidays: boolean;
+}
+
+// Feriados y excepciones vigentes; las excepciones se agrupan por asignación
+export interface ServiceCalendar {
+  holidays: Set<string>;
+  exceptions: Map<string, Set<string>>;
+}
+
+export const WEEKDAY_LABELS = ["Dom", "Lun", "Mar", "Mié", "Jue", "Vie", "Sáb"];
+
+// Fecha (YYYY-MM-DD) de un instante en la zona horaria de la operación
+export function dateInTimeZone(date: Date = new Date(), timeZone: string = AGENCY_TIME_ZONE): string {
+  return new Intl.DateTimeFormat("en-CA", { year: "numeric", month: "2-digit", day: "2-digit", timeZone }).format(date);
+}
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+// Días entre dos fechas YYYY-MM-DD (positivo si `to` es posterior)
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+
+// Lunes de la semana de una fecha
+export const startOfWeek = (date: string): string => addDays(date, -((dayOfWeek(date) + 6) % 7));
+
+export const dayOfWeek = (date: string): number => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+// Minutos transcurridos desde el inicio de un turno concreto (negativo si aún no inicia)
+export function minutesSinceShiftStart(shift: { shiftDate: string; shiftStart: string }, at: Date = new Date()): number {
+  return daysBetween(shift.shiftDate, dateInTimeZone(at)) * MINUTES_PER_DAY + minutesOfDay(at) - timeToMinutes(shift.shiftStart);
+}
+
+// Si la asignación opera (inicia un turno) en la fecha indicada
+export function isScheduledOn(rule: RecurrenceRule, date: string, calendar: ServiceCalendar): boolean {
+  if (!rule.isRecurring) {
+    if (date !== rule.assignedDate) return false;
+  } else {
+    if (date < rule.assignedDate) return false;
+    if (rule.validUntil && date > rule.validUntil) return false;
+    if (rule.daysOfWeek && !rule.daysOfWeek.includes(dayOfWeek(date))) return false;
+  }
+  if (rule.skipHolidays && calendar.holidays.has(date)) return false;
+  return !calendar.exceptions.get(rule.id)?.has(date);
+}
+
+// Resumen legible de la recurrencia, p. ej. "Lun, Mar, Mié desde 2025-01-06"
+export function describeRecurrence(rule: RecurrenceRule): string {
+  if (!rule.isRecurring) return `Solo el ${rule.assignedDate}`;
+
+  const days = rule.daysOfWeek && rule.daysOfWeek.length < 7
+    ? [...rule.daysOfWeek].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7)).map(d => WEEKDAY_LABELS[d]).join(", ")
+    : "Todos los días";
+  const range = rule.validUntil ? ` del ${rule.assignedDate} al ${rule.validUntil}` : ` desde ${rule.assignedDate}`;
+  return `${days}${range}${rule.skipHolidays ? " (sin feriados)" : ""}`;
+}
+
+// Días revisados al buscar traslapes: un año más una semana cubre cualquier patrón semanal
+const OVERLAP_HORIZON_DAYS = 371;
+
+// Primera fecha (desde `fromDate`) en la que dos turnos con recurrencia se traslapan, o null.
+// Los turnos nocturnos pueden chocar con los del día siguiente, por eso se revisan los días vecinos.
+export function findOverlapDate(
+  a: RecurrenceRule & ShiftWindow,
+  b: RecurrenceRule & ShiftWindow,
+  calendar: ServiceCalendar,
+  fromDate: string,
+): string | null {
+  const aStart = timeToMinutes(a.shiftStart);
+  const aEnd = aStart + shiftDurationMinutes(a);
+  const bStart = timeToMinutes(b.shiftStart);
+  const bEnd = bStart + shiftDurationMinutes(b);
+
+  // Un turno de fecha única solo necesita revisarse en su fecha
+  const first = a.assignedDate > fromDate ? a.assignedDate : fromDate;
+  const days = a.isRecurring ? OVERLAP_HORIZON_DAYS : 1;
+
+  for (let i = 0; i < days; i++) {
+    const date = addDays(first, i);
+    if (a.validUntil && a.isRecurring && date > a.validUntil) break;
+    if (!isScheduledOn(a, date, calendar)) continue;
+
+    for (const offset of [-1, 0, 1]) {
+      const shift = offset * MINUTES_PER_DAY;
+      if (aStart < bEnd + shift && bStart + shift < aEnd && isScheduledOn(b, addDays(date, offset), calendar)) {
+        return date;
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,194 @@
+// Protocolo de mensajes del WebSocket (/ws) compartido entre cliente y servidor.
+// Cada mensaje es un objeto JSON con la versión del protocolo (v) y su tipo (type);
+// ambos extremos validan lo que reciben con estos esquemas y descartan lo demás.
+
+import { createSelectSchema } from "drizzle-zod";
+import { z } from "zod";
+import {
+  locationUpdateSchema,
+  locations,
+  offRouteAlerts,
+  reportComments,
+  sosIncidents,
+  userRoles,
+  type StopArrivalsResponse,
+} from "./schema";
+
+// Subir la versión cuando un cambio no sea compatible con clientes ya cargados
+export const WS_PROTOCOL_VERSION = 2;
+
+// Código con el que el servidor cierra una conexión cuya sesión terminó (vencida o revocada)
+export const WS_CLOSE_SESSION_ENDED = 4001;
+
+// Las fechas viajan como texto ISO y se convierten de vuelta al validar
+const locationMessageSchema = createSelectSchema(locations, {
+  timestamp: z.coerce.date().nullable(),
+  signalLostAt: z.coerce.date().nullable(),
+  transmissionStartedAt: z.coerce.date().nullable(),
+});
+
+const offRouteAlertMessageSchema = createSelectSchema(offRouteAlerts, {
+  leftRouteAt: z.coerce.date(),
+  createdAt: z.coerce.date(),
+  resolvedAt: z.coerce.date().nullable(),
+  acknowledgedAt: z.coerce.date().nullable(),
+});
+
+const reportCommentMessageSchema = createSelectSchema(reportComments, {
+  createdAt: z.coerce.date(),
+}).extend({
+  authorName: z.string(),
+  authorRole: z.string(),
+});
+
+const sosIncidentMessageSchema = createSelectSchema(sosIncidents, {
+  triggeredAt: z.coerce.date(),
+  acknowledgedAt: z.coerce.date().nullable(),
+  closedAt: z.coerce.date().nullable(),
+}).extend({
+  driverName: z.string(),
+});
+
+const stopArrivalsMessageSchema: z.ZodType<StopArrivalsResponse> = z.object({
+  stopId: z.string(),
+  generatedAt: z.string(),
+  arrivals: z.array(z.object({
+    driverId: z.string(),
+    busId: z.string().nullable(),
+    routeId: z.string(),
+    routeName: z.string(),
+    routeColor: z.string(),
+    etaMinutes: z.number(),
+    expectedAt: z.string(),
+    source: z.enum(["historico", "planificado"]),
+  })),
+});
+
+const transmissionStateSchema = z.object({
+  driverId: z.string(),
+  isTransmitting: z.boolean(),
+});
+
+// Temas a los que se suscribe una conexión: toda la flota (solo personal administrativo),
+// una ruta o un bus. Los eventos de un chofer se publican en la flota y en la ruta y el
+// bus de su turno en curso.
+export const wsTopicSchema = z.discriminatedUnion("scope", [
+  z.object({ scope: z.literal("fleet") }),
+  z.object({ scope: z.literal("route"), routeId: z.string().min(1) }),
+  z.object({ scope: z.literal("bus"), busId: z.string().min(1) }),
+]);
+
+export type WsTopic = z.infer<typeof wsTopicSchema>;
+
+// Clave única de un tema, para compararlos y guardarlos en conjuntos
+export function topicKey(topic: WsTopic): string {
+  switch (topic.scope) {
+    case "fleet":
+      return "fleet";
+    case "route":
+      return `route:${topic.routeId}`;
+    case "bus":
+      return `bus:${topic.busId}`;
+  }
+}
+
+// Mensajes que envía el cliente
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("subscribe"), topic: wsTopicSchema }),
+  z.object({ type: z.literal("unsubscribe"), topic: wsTopicSchema }),
+  z.object({ type: z.literal("locationUpdate"), location: locationUpdateSchema }),
+  z.object({ type: z.literal("transmissionStatus"), driverId: z.string().min(1), isTransmitting: z.boolean() }),
+  z.object({ type: z.literal("subscribeArrivals"), stopId: z.string().min(1) }),
+  z.object({ type: z.literal("unsubscribeArrivals") }),
+]);
+
+export const wsErrorCodes = ["invalid_json", "unsupported_version", "invalid_message", "unauthorized", "forbidden"] as const;
+
+// Mensajes que envía el servidor
+export const serverMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("connected"),
+    connectionId: z.string(),
+    authenticated: z.boolean(),
+    role: z.enum(userRoles).nullable(), // Nulo en conexiones anónimas (pasajeros)
+    protocolVersion: z.number().int(),
+  }),
+  // Temas suscritos después de cada subscribe/unsubscribe
+  z.object({ type: z.literal("subscriptions"), topics: z.array(wsTopicSchema) }),
+  // Respuesta a un mensaje rechazado; requestType es el tipo recibido, si se pudo leer
+  z.object({
+    type: z.literal("error"),
+    code: z.enum(wsErrorCodes),
+    message: z.string(),
+    requestType: z.string().optional(),
+    issues: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+  }),
+  z.object({ type: z.literal("locationUpdate"), data: locationMessageSchema }),
+  z.object({ type: z.literal("transmissionLost"), data: locationMessageSchema }),
+  z.object({ type: z.literal("transmissionStatusUpdate"), data: transmissionStateSchema }),
+  z.object({ type: z.literal("transmissionStopped"), data: transmissionStateSchema }),
+  z.object({ type: z.literal("offRouteAlert"), data: offRouteAlertMessageSchema }),
+  z.object({ type: z.literal("offRouteResolved"), data: offRouteAlertMessageSchema }),
+  z.object({ type: z.literal("stopArrivals"), data: stopArrivalsMessageSchema }),
+  z.object({ type: z.literal("reportComment"), data: reportCommentMessageSchema }),
+  z.object({ type: z.literal("sosAlert"), data: sosIncidentMessageSchema }),
+  z.object({ type: z.literal("sosUpdate"), data: sosIncidentMessageSchema }),
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
+export type WsErrorCode = typeof wsErrorCodes[number];
+export type WsErrorMessage = Extract<ServerMessage, { type: "error" }>;
+
+export type WsDecodeResult<T> =
+  | { success: true; message: T }
+  | { success: false; error: WsErrorMessage };
+
+export function encodeWsMessage(message: ClientMessage | ServerMessage): string {
+  return JSON.stringify({ v: WS_PROTOCOL_VERSION, ...message });
+}
+
+// Leer y validar un mensaje recibido. Si no es válido se devuelve el error listo para
+// responderlo al otro extremo.
+export function decodeWsMessage<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, raw: string): WsDecodeResult<T> {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(raw);
+  } catch {
+    return { success: false, error: { type: "error", code: "invalid_json", message: "El mensaje no es JSON válido" } };
+  }
+
+  const envelope = z.object({ v: z.unknown(), type: z.unknown() }).passthrough().safeParse(payload);
+  if (!envelope.success) {
+    return { success: false, error: { type: "error", code: "invalid_message", message: "Se esperaba un objeto JSON" } };
+  }
+  const requestType = typeof envelope.data.type === "string" ? envelope.data.type : undefined;
+
+  if (envelope.data.v !== WS_PROTOCOL_VERSION) {
+    return {
+      success: false,
+      error: {
+        type: "error",
+        code: "unsupported_version",
+        message: `Versión de protocolo no soportada (se espera ${WS_PROTOCOL_VERSION})`,
+        requestType,
+      },
+    };
+  }
+
+  const result = schema.safeParse(payload);
+  if (!result.success) {
+    return {
+      success: false,
+      error: {
+        type: "error",
+        code: "invalid_message",
+        message: "Mensaje inválido",
+        requestType,
+        issues: result.error.errors.map(issue => ({ path: issue.path.join("."), message: issue.message })),
+      },
+    };
+  }
+
+  return { success: true, message: result.data };
+}